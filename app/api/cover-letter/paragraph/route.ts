@@ -0,0 +1,207 @@
+import { NextRequest, NextResponse } from "next/server"
+import { validateInput } from "@/lib/llm"
+import { generateParagraph, MAX_PARAGRAPH_WORDS } from "@/lib/cover-letter"
+import {
+  COVER_LETTER_SYSTEM_PROMPT,
+  createParagraphPrompt,
+} from "@/lib/prompts"
+import { createUsageMeter, trackSpend } from "@/lib/costs"
+import {
+  rejectInjectedInput,
+  quarantine,
+  createOutputGuard,
+} from "@/lib/prompt-guard"
+import { createRedactor } from "@/lib/pii"
+import {
+  getClientIp,
+  isRateLimited,
+  resolveUsage,
+  chargeUsage,
+} from "@/lib/usage"
+import {
+  validateRequest,
+  coverLetterParagraphRequestSchema,
+  createErrorResponse,
+  ERRORS,
+  type CoverLetterParagraphResponse,
+} from "@/lib/validation"
+import { getErrorMessage } from "@/lib/utils"
+
+/**
+ * POST /api/cover-letter/paragraph
+ *
+ * Rewrites one paragraph of a cover letter while keeping the others as
+ * context. Metered separately (see PAID_TIERS.paragraphs).
+ *
+ * Request body:
+ * - jobDescription: string (50-8000 chars)
+ * - experience: string (20-4000 chars)
+ * - paragraphs: string[] (all current paragraphs, 1-6)
+ * - index: number (paragraph to rewrite)
+ * - instruction?: string (optional, e.g. "more concise", max 200 chars)
+ * - length?, tone?: presets the letter was written with (optional)
+ * - licenseKey?: string (optional, for paid users)
+ * - redactPii?: boolean (optional, default true; replace personal details
+ *   with placeholders before calling the LLM)
+ *
+ * Response:
+ * - 200: { paragraph: string, index: number, remaining: number,
+ *   tier: string }
+ * - 400: Validation error, or INJECTION_DETECTED when the input contains
+ *   instructions aimed at the model
+ * - 402: Payment required (limit reached)
+ * - 422: INJECTION_DETECTED when the output is not a paragraph (not
+ *   charged)
+ * - 429: Rate limited
+ * - 500: Server error
+ * - 503: Paused by the daily spend cap (BUDGET_EXCEEDED)
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const clientIp = await getClientIp()
+
+    if (isRateLimited(clientIp)) {
+      return NextResponse.json(ERRORS.RATE_LIMITED, { status: 429 })
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json(
+        createErrorResponse("VALIDATION_ERROR", "Invalid JSON in request body"),
+        { status: 400 }
+      )
+    }
+
+    const validation = validateRequest(coverLetterParagraphRequestSchema, body)
+    if (!validation.success || !validation.data) {
+      return NextResponse.json(
+        createErrorResponse(
+          "VALIDATION_ERROR",
+          validation.error ?? "Invalid request"
+        ),
+        { status: 400 }
+      )
+    }
+
+    const {
+      jobDescription,
+      experience,
+      paragraphs,
+      index,
+      instruction,
+      length,
+      tone,
+      redactPii,
+    } = validation.data
+
+    const inputValidation = validateInput(jobDescription, experience)
+    if (!inputValidation.isValid) {
+      return NextResponse.json(
+        createErrorResponse(
+          "VALIDATION_ERROR",
+          inputValidation.error ?? "Invalid input"
+        ),
+        { status: 400 }
+      )
+    }
+
+    // Reject text that tries to instruct the model before spending quota
+    const injection = rejectInjectedInput("/api/cover-letter/paragraph", {
+      jobDescription,
+      experience,
+      paragraphs,
+      instruction,
+    })
+    if (injection) return injection
+
+    const access = await resolveUsage(
+      validation.data.licenseKey,
+      clientIp,
+      "paragraph"
+    )
+    if (!access.ok) {
+      return NextResponse.json(access.error, { status: access.status })
+    }
+
+    const redactor = redactPii ? createRedactor() : undefined
+    redactor?.scanResume(experience)
+    for (const text of [jobDescription, ...paragraphs]) {
+      redactor?.scan(text)
+    }
+
+    const meter = createUsageMeter()
+    let paragraph: string | null
+    try {
+      paragraph = await generateParagraph(
+        [
+          { role: "system", content: COVER_LETTER_SYSTEM_PROMPT },
+          {
+            role: "user",
+            content: createParagraphPrompt(
+              jobDescription,
+              experience,
+              paragraphs,
+              index,
+              instruction,
+              { length, tone }
+            ),
+          },
+        ],
+        { onUsage: meter.record, redactor }
+      )
+    } catch (error) {
+      console.error("LLM paragraph rewrite error:", getErrorMessage(error))
+      return NextResponse.json(ERRORS.GENERATION_FAILED, { status: 500 })
+    } finally {
+      trackSpend(meter, access.usage)
+    }
+
+    if (!paragraph) {
+      console.error("No paragraph parsed from rewrite response")
+      return NextResponse.json(ERRORS.GENERATION_FAILED, { status: 500 })
+    }
+
+    const rejected = createOutputGuard(
+      `${experience}\n${jobDescription}`,
+      MAX_PARAGRAPH_WORDS
+    )({ text: paragraph })
+    if (rejected) {
+      quarantine("/api/cover-letter/paragraph", "output", [rejected])
+      return NextResponse.json(ERRORS.INJECTION_DETECTED, { status: 422 })
+    }
+
+    const remaining = await chargeUsage(access.usage)
+
+    const response: CoverLetterParagraphResponse = {
+      paragraph,
+      index,
+      remaining,
+      tier: access.usage.tier,
+    }
+
+    return NextResponse.json(response, {
+      status: 200,
+      headers: {
+        "Cache-Control": "no-store",
+      },
+    })
+  } catch (error) {
+    console.error(
+      "Unexpected error in /api/cover-letter/paragraph:",
+      getErrorMessage(error)
+    )
+    return NextResponse.json(ERRORS.INTERNAL_ERROR, { status: 500 })
+  }
+}
+
+/**
+ * Handle unsupported methods.
+ */
+export async function GET(): Promise<NextResponse> {
+  return NextResponse.json(
+    createErrorResponse("VALIDATION_ERROR", "Method not allowed. Use POST."),
+    { status: 405 }
+  )
+}
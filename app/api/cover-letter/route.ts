@@ -0,0 +1,200 @@
+import { NextRequest, NextResponse } from "next/server"
+import { validateInput } from "@/lib/llm"
+import { generateCoverLetter, MAX_PARAGRAPH_WORDS } from "@/lib/cover-letter"
+import {
+  COVER_LETTER_SYSTEM_PROMPT,
+  createCoverLetterPrompt,
+} from "@/lib/prompts"
+import { createUsageMeter, trackSpend } from "@/lib/costs"
+import {
+  rejectInjectedInput,
+  quarantine,
+  createOutputGuard,
+} from "@/lib/prompt-guard"
+import { createRedactor } from "@/lib/pii"
+import {
+  getClientIp,
+  isRateLimited,
+  resolveUsage,
+  chargeUsage,
+} from "@/lib/usage"
+import {
+  validateRequest,
+  coverLetterRequestSchema,
+  createErrorResponse,
+  ERRORS,
+  type CoverLetterResponse,
+} from "@/lib/validation"
+import { getErrorMessage } from "@/lib/utils"
+
+/**
+ * POST /api/cover-letter
+ *
+ * Writes a cover letter body from the same inputs as a bullet generation.
+ * Metered separately from bullet generations (see PAID_TIERS.coverLetters).
+ *
+ * Request body:
+ * - jobDescription: string (50-8000 chars)
+ * - experience: string (20-4000 chars)
+ * - bullets?: string[] (optional, generated bullets to draw on, max 10)
+ * - length?: "short" | "standard" | "long" (optional, default "standard")
+ * - tone?: "professional" | "warm" | "confident" | "enthusiastic"
+ *   (optional, default "professional")
+ * - licenseKey?: string (optional, for paid users)
+ * - redactPii?: boolean (optional, default true; replace personal details
+ *   with placeholders before calling the LLM)
+ *
+ * Response:
+ * - 200: { paragraphs: string[], remaining: number, tier: string,
+ *   redactions: Redaction[] }
+ * - 400: Validation error, or INJECTION_DETECTED when the input contains
+ *   instructions aimed at the model
+ * - 402: Payment required (limit reached)
+ * - 422: INJECTION_DETECTED when the output is not a cover letter (not
+ *   charged)
+ * - 429: Rate limited
+ * - 500: Server error
+ * - 503: Paused by the daily spend cap (BUDGET_EXCEEDED)
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const clientIp = await getClientIp()
+
+    if (isRateLimited(clientIp)) {
+      return NextResponse.json(ERRORS.RATE_LIMITED, { status: 429 })
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json(
+        createErrorResponse("VALIDATION_ERROR", "Invalid JSON in request body"),
+        { status: 400 }
+      )
+    }
+
+    const validation = validateRequest(coverLetterRequestSchema, body)
+    if (!validation.success || !validation.data) {
+      return NextResponse.json(
+        createErrorResponse(
+          "VALIDATION_ERROR",
+          validation.error ?? "Invalid request"
+        ),
+        { status: 400 }
+      )
+    }
+
+    const { jobDescription, experience, bullets, length, tone, redactPii } =
+      validation.data
+
+    const inputValidation = validateInput(jobDescription, experience)
+    if (!inputValidation.isValid) {
+      return NextResponse.json(
+        createErrorResponse(
+          "VALIDATION_ERROR",
+          inputValidation.error ?? "Invalid input"
+        ),
+        { status: 400 }
+      )
+    }
+
+    // Reject text that tries to instruct the model before spending quota
+    const injection = rejectInjectedInput("/api/cover-letter", {
+      jobDescription,
+      experience,
+      bullets,
+    })
+    if (injection) return injection
+
+    const access = await resolveUsage(
+      validation.data.licenseKey,
+      clientIp,
+      "cover-letter"
+    )
+    if (!access.ok) {
+      return NextResponse.json(access.error, { status: access.status })
+    }
+
+    const redactor = redactPii ? createRedactor() : undefined
+    redactor?.scanResume(experience)
+    for (const text of [jobDescription, ...bullets]) {
+      redactor?.scan(text)
+    }
+
+    const meter = createUsageMeter()
+    let paragraphs: string[]
+    try {
+      paragraphs = await generateCoverLetter(
+        [
+          { role: "system", content: COVER_LETTER_SYSTEM_PROMPT },
+          {
+            role: "user",
+            content: createCoverLetterPrompt(
+              jobDescription,
+              experience,
+              bullets,
+              { length, tone }
+            ),
+          },
+        ],
+        { onUsage: meter.record, redactor }
+      )
+    } catch (error) {
+      console.error("LLM cover letter error:", getErrorMessage(error))
+      return NextResponse.json(ERRORS.GENERATION_FAILED, { status: 500 })
+    } finally {
+      trackSpend(meter, access.usage)
+    }
+
+    if (paragraphs.length === 0) {
+      console.error("No paragraphs parsed from cover letter response")
+      return NextResponse.json(ERRORS.GENERATION_FAILED, { status: 500 })
+    }
+
+    // Links in the posting (e.g. the company site) may be quoted
+    const guard = createOutputGuard(
+      `${experience}\n${jobDescription}`,
+      MAX_PARAGRAPH_WORDS
+    )
+    for (const text of paragraphs) {
+      const rejected = guard({ text })
+      if (rejected) {
+        quarantine("/api/cover-letter", "output", [rejected])
+        return NextResponse.json(ERRORS.INJECTION_DETECTED, { status: 422 })
+      }
+    }
+
+    const remaining = await chargeUsage(access.usage)
+
+    const response: CoverLetterResponse = {
+      paragraphs,
+      remaining,
+      tier: access.usage.tier,
+      redactions: redactor?.redactions() ?? [],
+    }
+
+    return NextResponse.json(response, {
+      status: 200,
+      headers: {
+        "Cache-Control": "no-store",
+      },
+    })
+  } catch (error) {
+    console.error(
+      "Unexpected error in /api/cover-letter:",
+      getErrorMessage(error)
+    )
+    return NextResponse.json(ERRORS.INTERNAL_ERROR, { status: 500 })
+  }
+}
+
+/**
+ * Handle unsupported methods.
+ */
+export async function GET(): Promise<NextResponse> {
+  return NextResponse.json(
+    createErrorResponse("VALIDATION_ERROR", "Method not allowed. Use POST."),
+    { status: 405 }
+  )
+}
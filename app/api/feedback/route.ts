@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getClientIp, isRateLimited } from "@/lib/usage"
+import { getPromptTemplate, trackPromptFeedback } from "@/lib/prompt-registry"
+import {
+  validateRequest,
+  feedbackRequestSchema,
+  createErrorResponse,
+  ERRORS,
+} from "@/lib/validation"
+import { getErrorMessage } from "@/lib/utils"
+
+/**
+ * POST /api/feedback
+ *
+ * Records a thumbs up/down on a set of generated bullets against the
+ * prompt version that wrote them. Free and unmetered.
+ *
+ * Request body:
+ * - promptVersion: string (from the generate response)
+ * - rating: "up" | "down"
+ *
+ * Response:
+ * - 200: { received: true }
+ * - 400: Validation error or unknown prompt version
+ * - 429: Rate limited
+ * - 500: Server error
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const clientIp = await getClientIp()
+
+    if (isRateLimited(clientIp)) {
+      return NextResponse.json(ERRORS.RATE_LIMITED, { status: 429 })
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json(
+        createErrorResponse("VALIDATION_ERROR", "Invalid JSON in request body"),
+        { status: 400 }
+      )
+    }
+
+    const validation = validateRequest(feedbackRequestSchema, body)
+    if (!validation.success || !validation.data) {
+      return NextResponse.json(
+        createErrorResponse(
+          "VALIDATION_ERROR",
+          validation.error ?? "Invalid request"
+        ),
+        { status: 400 }
+      )
+    }
+
+    const { promptVersion, rating } = validation.data
+
+    if (!getPromptTemplate(promptVersion)) {
+      return NextResponse.json(
+        createErrorResponse("VALIDATION_ERROR", "Unknown prompt version"),
+        { status: 400 }
+      )
+    }
+
+    trackPromptFeedback(
+      promptVersion,
+      rating === "up" ? "feedback_up" : "feedback_down"
+    )
+
+    return NextResponse.json({ received: true }, { status: 200 })
+  } catch (error) {
+    console.error("Unexpected error in /api/feedback:", getErrorMessage(error))
+    return NextResponse.json(ERRORS.INTERNAL_ERROR, { status: 500 })
+  }
+}
+
+/**
+ * Handle unsupported methods.
+ */
+export async function GET(): Promise<NextResponse> {
+  return NextResponse.json(
+    createErrorResponse("VALIDATION_ERROR", "Method not allowed. Use POST."),
+    { status: 405 }
+  )
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getClientIp, isRateLimited } from "@/lib/usage"
+import { analyzeGaps } from "@/lib/gap-analysis"
+import {
+  validateRequest,
+  gapAnalysisRequestSchema,
+  createErrorResponse,
+  ERRORS,
+  type GapAnalysis,
+} from "@/lib/validation"
+import { getErrorMessage } from "@/lib/utils"
+
+/**
+ * POST /api/gap-analysis
+ *
+ * Splits the job description into must-have and nice-to-have requirements
+ * and checks each against the experience, with a suggestion for every
+ * requirement that isn't backed up. No LLM call, so it is free and
+ * unmetered.
+ *
+ * Request body:
+ * - jobDescription: string (50-8000 chars)
+ * - experience: string (20-4000 chars)
+ *
+ * Response:
+ * - 200: { requirements: RequirementGap[], score: number }
+ * - 400: Validation error
+ * - 429: Rate limited
+ * - 500: Server error
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const clientIp = await getClientIp()
+
+    if (isRateLimited(clientIp)) {
+      return NextResponse.json(ERRORS.RATE_LIMITED, { status: 429 })
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json(
+        createErrorResponse("VALIDATION_ERROR", "Invalid JSON in request body"),
+        { status: 400 }
+      )
+    }
+
+    const validation = validateRequest(gapAnalysisRequestSchema, body)
+    if (!validation.success || !validation.data) {
+      return NextResponse.json(
+        createErrorResponse(
+          "VALIDATION_ERROR",
+          validation.error ?? "Invalid request"
+        ),
+        { status: 400 }
+      )
+    }
+
+    const { jobDescription, experience } = validation.data
+    const response: GapAnalysis = analyzeGaps(jobDescription, experience)
+
+    return NextResponse.json(response, {
+      status: 200,
+      headers: {
+        "Cache-Control": "no-store",
+      },
+    })
+  } catch (error) {
+    console.error(
+      "Unexpected error in /api/gap-analysis:",
+      getErrorMessage(error)
+    )
+    return NextResponse.json(ERRORS.INTERNAL_ERROR, { status: 500 })
+  }
+}
+
+/**
+ * Handle unsupported methods.
+ */
+export async function GET(): Promise<NextResponse> {
+  return NextResponse.json(
+    createErrorResponse("VALIDATION_ERROR", "Method not allowed. Use POST."),
+    { status: 405 }
+  )
+}
@@ -0,0 +1,233 @@
+import { NextRequest, NextResponse } from "next/server"
+import { validateInput } from "@/lib/llm"
+import { generateBullets, createBulletAnnotator } from "@/lib/bullets"
+import { createRefinePrompt } from "@/lib/prompts"
+import {
+  getPromptTemplate,
+  selectPromptTemplate,
+  trackPromptFeedback,
+} from "@/lib/prompt-registry"
+import { createUsageMeter, trackSpend } from "@/lib/costs"
+import {
+  rejectInjectedInput,
+  quarantine,
+  createOutputGuard,
+} from "@/lib/prompt-guard"
+import { createRedactor } from "@/lib/pii"
+import {
+  getClientIp,
+  isRateLimited,
+  resolveUsage,
+  chargeUsage,
+} from "@/lib/usage"
+import {
+  allPhrasings,
+  validateRequest,
+  refineRequestSchema,
+  createErrorResponse,
+  ERRORS,
+  type Bullet,
+  type RefineResponse,
+} from "@/lib/validation"
+import { getErrorMessage } from "@/lib/utils"
+
+/**
+ * POST /api/generate/refine
+ *
+ * Rewrites a single bullet while keeping the others as context.
+ * Metered separately from full generations (see PAID_TIERS.refinements).
+ *
+ * Request body:
+ * - jobDescription: string (50-8000 chars)
+ * - experience: string (20-4000 chars)
+ * - bullets: string[] (all current bullets, 1-10)
+ * - index: number (bullet to rewrite)
+ * - instruction?: string (optional, e.g. "more technical", max 200 chars)
+ * - options?: { wordRange, seniority, roleFamily, metricPlaceholders,
+ *   variants } (optional)
+ * - licenseKey?: string (optional, for paid users)
+ * - redactPii?: boolean (optional, default true; replace personal details
+ *   with placeholders before calling the LLM)
+ * - promptVersion?: string (optional, version that wrote the bullets; the
+ *   rewrite uses it and is counted in its stats)
+ *
+ * Response:
+ * - 200: { bullet: Bullet, index: number, remaining: number, tier: string,
+ *   promptVersion: string }
+ * - 400: Validation error, or INJECTION_DETECTED when the input contains
+ *   instructions aimed at the model
+ * - 402: Payment required (limit reached)
+ * - 422: INJECTION_DETECTED when the output is not a bullet (not charged)
+ * - 429: Rate limited
+ * - 500: Server error
+ * - 503: Paused by the daily spend cap (BUDGET_EXCEEDED)
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const clientIp = await getClientIp()
+
+    if (isRateLimited(clientIp)) {
+      return NextResponse.json(ERRORS.RATE_LIMITED, { status: 429 })
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json(
+        createErrorResponse("VALIDATION_ERROR", "Invalid JSON in request body"),
+        { status: 400 }
+      )
+    }
+
+    const validation = validateRequest(refineRequestSchema, body)
+    if (!validation.success || !validation.data) {
+      return NextResponse.json(
+        createErrorResponse(
+          "VALIDATION_ERROR",
+          validation.error ?? "Invalid request"
+        ),
+        { status: 400 }
+      )
+    }
+
+    const {
+      jobDescription,
+      experience,
+      bullets,
+      index,
+      instruction,
+      options,
+      promptVersion,
+      redactPii,
+    } = validation.data
+
+    const inputValidation = validateInput(jobDescription, experience)
+    if (!inputValidation.isValid) {
+      return NextResponse.json(
+        createErrorResponse(
+          "VALIDATION_ERROR",
+          inputValidation.error ?? "Invalid input"
+        ),
+        { status: 400 }
+      )
+    }
+
+    // Reject text that tries to instruct the model before spending quota
+    const injection = rejectInjectedInput("/api/generate/refine", {
+      jobDescription,
+      experience,
+      bullets,
+      instruction,
+    })
+    if (injection) return injection
+
+    const access = await resolveUsage(
+      validation.data.licenseKey,
+      clientIp,
+      "refinement"
+    )
+    if (!access.ok) {
+      return NextResponse.json(access.error, { status: access.status })
+    }
+
+    // Rewrite in the style of the version that wrote the other bullets
+    const prompt =
+      (promptVersion && getPromptTemplate(promptVersion)) ||
+      selectPromptTemplate(access.usage.identifier)
+
+    const redactor = redactPii ? createRedactor() : undefined
+    redactor?.scanResume(experience)
+    for (const text of [jobDescription, ...bullets]) {
+      redactor?.scan(text)
+    }
+
+    const meter = createUsageMeter()
+    let refined: Bullet[]
+    try {
+      refined = await generateBullets(
+        [
+          { role: "system", content: prompt.systemPrompt },
+          {
+            role: "user",
+            content: createRefinePrompt(
+              jobDescription,
+              experience,
+              bullets,
+              index,
+              instruction,
+              options
+            ),
+          },
+        ],
+        1,
+        { onUsage: meter.record, redactor }
+      )
+    } catch (error) {
+      console.error("LLM refinement error:", getErrorMessage(error))
+      return NextResponse.json(ERRORS.GENERATION_FAILED, { status: 500 })
+    } finally {
+      trackSpend(meter, access.usage)
+    }
+
+    if (!refined[0]) {
+      console.error("No bullet parsed from refinement response")
+      return NextResponse.json(ERRORS.GENERATION_FAILED, { status: 500 })
+    }
+
+    const rejected = allPhrasings(refined[0])
+      .map(createOutputGuard(experience))
+      .find(Boolean)
+    if (rejected) {
+      quarantine("/api/generate/refine", "output", [rejected])
+      return NextResponse.json(ERRORS.INJECTION_DETECTED, { status: 422 })
+    }
+
+    // Check the rewrite against the bullets it sits alongside
+    const annotate = createBulletAnnotator({
+      jobDescription,
+      experience,
+      options,
+      otherBullets: bullets
+        .filter((_, i) => i !== index)
+        .map((text) => ({ verb: text.split(/\s+/)[0] ?? "" })),
+    })
+    const bullet = annotate(refined[0])
+
+    const remaining = await chargeUsage(access.usage)
+
+    // A rewrite suggests the original bullet wasn't good enough
+    if (promptVersion) trackPromptFeedback(promptVersion, "refinements")
+
+    const response: RefineResponse = {
+      bullet,
+      index,
+      remaining,
+      tier: access.usage.tier,
+      promptVersion: prompt.id,
+    }
+
+    return NextResponse.json(response, {
+      status: 200,
+      headers: {
+        "Cache-Control": "no-store",
+      },
+    })
+  } catch (error) {
+    console.error(
+      "Unexpected error in /api/generate/refine:",
+      getErrorMessage(error)
+    )
+    return NextResponse.json(ERRORS.INTERNAL_ERROR, { status: 500 })
+  }
+}
+
+/**
+ * Handle unsupported methods.
+ */
+export async function GET(): Promise<NextResponse> {
+  return NextResponse.json(
+    createErrorResponse("VALIDATION_ERROR", "Method not allowed. Use POST."),
+    { status: 405 }
+  )
+}
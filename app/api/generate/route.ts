@@ -1,84 +1,335 @@
 import { NextRequest, NextResponse } from "next/server"
-import { headers } from "next/headers"
-import { generateCompletion, validateInput } from "@/lib/openai"
 import {
-  SYSTEM_PROMPT,
-  createUserPrompt,
-  parseBulletPoints,
+  streamCompletion,
+  validateInput,
+  GENERATION_CONFIG,
+  type ChatMessage,
+} from "@/lib/llm"
+import { getProvider } from "@/lib/providers"
+import {
+  generateBullets,
+  repairBullets,
+  createBulletAnnotator,
+  fixBulletWarnings,
+  type BulletContext,
+} from "@/lib/bullets"
+import {
+  createBulletStreamParser,
+  parseBulletList,
+  MAX_BULLETS,
 } from "@/lib/prompts"
+import { selectPromptTemplate, trackPromptQuality } from "@/lib/prompt-registry"
 import {
-  getUsageCount,
-  incrementUsage,
-  trackDailyGeneration,
-  FREE_TIER,
-  PAID_TIERS,
-} from "@/lib/redis"
-import { validateLicenseKey } from "@/lib/lemonsqueezy-license"
+  getClientIp,
+  isRateLimited,
+  resolveUsage,
+  chargeUsage,
+  type UsageContext,
+} from "@/lib/usage"
 import {
+  allPhrasings,
   validateRequest,
   generateRequestSchema,
   createErrorResponse,
   ERRORS,
+  type Bullet,
   type GenerateResponse,
+  type GenerateStreamEvent,
+  type KeywordCoverage,
+  type ErrorResponse,
 } from "@/lib/validation"
+import { extractKeywords, analyzeCoverage } from "@/lib/keywords"
+import { parseJobDescription } from "@/lib/job-description"
+import { createUsageMeter, trackSpend, type UsageMeter } from "@/lib/costs"
+import {
+  hashGenerationInput,
+  getCachedGeneration,
+  cacheGeneration,
+  type CachedGeneration,
+} from "@/lib/generation-cache"
+import {
+  rejectInjectedInput,
+  quarantine,
+  createOutputGuard,
+} from "@/lib/prompt-guard"
+import { createRedactor, type Redactor } from "@/lib/pii"
+import {
+  allocateRoleBullets,
+  createRoleAssigner,
+  formatRoles,
+} from "@/lib/roles"
+import { getMaxBullets } from "@/lib/redis"
+import { encodeNdjsonLine } from "@/lib/ndjson"
 import { getErrorMessage } from "@/lib/utils"
 
 /**
- * Rate limiting: Track requests per IP to prevent abuse.
- * Simple in-memory store (resets on server restart).
- * For production scale, use Redis-based rate limiting.
+ * Everything needed to run one generation.
  */
-const rateLimitMap = new Map<string, { count: number; resetTime: number }>()
-const RATE_LIMIT = {
-  maxRequests: 10, // Max requests per window
-  windowMs: 60 * 1000, // 1 minute window
+interface GenerationJob {
+  messages: ChatMessage[]
+  usage: UsageContext
+  maxBullets: number
+  /** Output token budget, larger when each bullet has alternatives */
+  maxTokens: number
+  /** Inputs the bullets are checked against */
+  context: BulletContext
+  /** Rewrite bullets that fail the linter before responding */
+  autoFix: boolean
+  /** Collects token usage from every LLM call for cost accounting */
+  meter: UsageMeter
+  /** Builds the keyword coverage report for the final bullets */
+  report: (bullets: Bullet[]) => KeywordCoverage
+  /** Cache key the result is stored under */
+  cacheKey: string
+  /** Prompt version the bullets are generated with */
+  promptVersion: string
+  /** Returns why a bullet (or one of its alternatives) doesn't look like
+   * a bullet, or null */
+  guard: (bullet: Bullet) => string | null
+  /** Keeps personal details out of every prompt (unless opted out) */
+  redactor?: Redactor
+  /** Files bullets under their role (multi-role), null when it is full */
+  assignRole?: (bullet: Bullet) => Bullet | null
 }
 
 /**
- * Checks if the request should be rate limited.
+ * Finds the first bullet that fails the output guard.
+ *
+ * @returns The reason it failed, or null if all bullets pass
  */
-function isRateLimited(ip: string): boolean {
-  const now = Date.now()
-  const record = rateLimitMap.get(ip)
-
-  if (!record || now > record.resetTime) {
-    rateLimitMap.set(ip, { count: 1, resetTime: now + RATE_LIMIT.windowMs })
-    return false
+function findRejectedOutput(
+  bullets: Bullet[],
+  guard: GenerationJob["guard"]
+): string | null {
+  for (const bullet of bullets) {
+    const reason = guard(bullet)
+    if (reason) return reason
   }
+  return null
+}
 
-  if (record.count >= RATE_LIMIT.maxRequests) {
-    return true
-  }
+/**
+ * Files bullets under their roles in a multi-role generation, dropping
+ * any beyond a role's share. Other generations pass through unchanged.
+ */
+function assignRoles(bullets: Bullet[], job: GenerationJob): Bullet[] {
+  const { assignRole } = job
+  return assignRole ? bullets.flatMap((b) => assignRole(b) ?? []) : bullets
+}
 
-  record.count++
-  return false
+/**
+ * Applies the optional linter rewrite to a completed set of bullets.
+ *
+ * @param bullets - Annotated bullets in display order
+ * @param job - The generation the bullets belong to
+ * @returns Final annotated bullets
+ */
+async function finalizeBullets(
+  bullets: Bullet[],
+  job: GenerationJob
+): Promise<Bullet[]> {
+  if (!job.autoFix) return bullets
+
+  const fixed = await fixBulletWarnings(bullets, job.context, {
+    onUsage: job.meter.record,
+    redactor: job.redactor,
+  })
+  return fixed.map(createBulletAnnotator(job.context))
 }
 
 /**
- * Gets client IP address from request headers.
+ * Streams bullets to the client as NDJSON while the model is generating.
+ * Usage is charged only after the model finishes and at least one bullet
+ * was produced; failures and client disconnects are never charged.
  */
-async function getClientIp(): Promise<string> {
-  const headersList = await headers()
-
-  // Check common proxy headers
-  const forwardedFor = headersList.get("x-forwarded-for")
-  if (forwardedFor) {
-    // x-forwarded-for can contain multiple IPs; take the first one
-    return forwardedFor.split(",")[0]?.trim() ?? "unknown"
-  }
+function streamGeneration(job: GenerationJob): NextResponse {
+  const { messages, usage, maxBullets, report, meter } = job
+  const annotate = createBulletAnnotator(job.context)
+  let cancelled = false
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: GenerateStreamEvent) => {
+        if (!cancelled) controller.enqueue(encodeNdjsonLine(event))
+      }
+      const fail = (error: ErrorResponse) => {
+        send({ type: "error", ...error })
+        if (!cancelled) controller.close()
+      }
+
+      const generate = async () => {
+        // Role assignment happens in the parser, so bullets dropped for
+        // exceeding a role's share don't use up the bullet count
+        const parser = createBulletStreamParser(maxBullets, job.assignRole)
+        const bullets: Bullet[] = []
+        // Set by the first bullet that fails the output guard; nothing
+        // after it is sent
+        let rejected: string | null = null
+        const emit = (parsed: Bullet[]) => {
+          for (const bullet of parsed.map(annotate)) {
+            rejected ??= job.guard(bullet)
+            if (rejected) return
+            send({ type: "bullet", index: bullets.length, bullet })
+            bullets.push(bullet)
+          }
+        }
+
+        try {
+          for await (const delta of streamCompletion(messages, {
+            maxTokens: job.maxTokens,
+            onUsage: meter.record,
+            redactor: job.redactor,
+          })) {
+            if (cancelled) return
+            emit(parser.push(delta))
+            if (rejected) break
+          }
+          if (!rejected) emit(parser.flush())
+
+          const malformedLines = parser.malformedLines()
+          if (
+            malformedLines.length > 0 &&
+            bullets.length < maxBullets &&
+            !cancelled &&
+            !rejected
+          ) {
+            emit(
+              assignRoles(
+                await repairBullets(
+                  malformedLines,
+                  bullets.length,
+                  maxBullets,
+                  { onUsage: meter.record, redactor: job.redactor }
+                ),
+                job
+              )
+            )
+          }
+        } catch (error) {
+          console.error("LLM generation error:", getErrorMessage(error))
+          return fail(ERRORS.GENERATION_FAILED)
+        }
+
+        if (rejected) {
+          quarantine("/api/generate", "output", [rejected])
+          return fail(ERRORS.INJECTION_DETECTED)
+        }
+
+        if (bullets.length === 0) {
+          console.error("No bullets parsed from streamed response")
+          return fail(ERRORS.GENERATION_FAILED)
+        }
+
+        if (cancelled) return
 
-  const realIp = headersList.get("x-real-ip")
-  if (realIp) {
-    return realIp
+        // Fixed bullets replace the streamed ones in the "done" event
+        const finalBullets = await finalizeBullets(bullets, job)
+        if (cancelled) return
+
+        const rejectedFix = findRejectedOutput(finalBullets, job.guard)
+        if (rejectedFix) {
+          quarantine("/api/generate", "output", [rejectedFix])
+          return fail(ERRORS.INJECTION_DETECTED)
+        }
+
+        let remaining: number
+        try {
+          remaining = await chargeUsage(usage)
+        } catch (error) {
+          console.error("Failed to record usage:", getErrorMessage(error))
+          return fail(ERRORS.INTERNAL_ERROR)
+        }
+
+        const coverage = report(finalBullets)
+        cacheGeneration(job.cacheKey, { bullets: finalBullets, coverage })
+        trackPromptQuality(job.promptVersion, finalBullets, coverage)
+
+        send({
+          type: "done",
+          bullets: finalBullets,
+          coverage,
+          remaining,
+          tier: usage.tier,
+          promptVersion: job.promptVersion,
+          redactions: job.redactor?.redactions() ?? [],
+        })
+        if (!cancelled) controller.close()
+      }
+
+      // Tokens are spent whether or not the generation succeeds
+      try {
+        await generate()
+      } finally {
+        trackSpend(meter, usage)
+      }
+    },
+    cancel() {
+      cancelled = true
+    },
+  })
+
+  return new NextResponse(body, {
+    status: 200,
+    headers: {
+      "Content-Type": "application/x-ndjson; charset=utf-8",
+      "Cache-Control": "no-store", // Never cache generation responses
+    },
+  })
+}
+
+/**
+ * Replays a cached result. Nothing is charged, so "remaining" is the
+ * quota before this request.
+ *
+ * @param cached - Stored bullets and coverage report
+ * @param usage - Tier and quota of the caller
+ * @param details - Prompt version and redactions for this request
+ * @param stream - Whether to answer with NDJSON events
+ */
+function replayCached(
+  cached: CachedGeneration,
+  usage: UsageContext,
+  details: Pick<GenerateResponse, "promptVersion" | "redactions">,
+  stream: boolean
+): NextResponse {
+  const response: GenerateResponse = {
+    ...cached,
+    ...details,
+    remaining: usage.remaining,
+    tier: usage.tier,
+    cached: true,
   }
 
-  // Vercel-specific header
-  const vercelForwardedFor = headersList.get("x-vercel-forwarded-for")
-  if (vercelForwardedFor) {
-    return vercelForwardedFor
+  if (!stream) {
+    return NextResponse.json(response, {
+      status: 200,
+      headers: { "Cache-Control": "no-store" },
+    })
   }
 
-  return "unknown"
+  const events: GenerateStreamEvent[] = [
+    ...cached.bullets.map((bullet, index) => ({
+      type: "bullet" as const,
+      index,
+      bullet,
+    })),
+    { type: "done", ...response },
+  ]
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const event of events) controller.enqueue(encodeNdjsonLine(event))
+      controller.close()
+    },
+  })
+
+  return new NextResponse(body, {
+    status: 200,
+    headers: {
+      "Content-Type": "application/x-ndjson; charset=utf-8",
+      "Cache-Control": "no-store",
+    },
+  })
 }
 
 /**
@@ -88,15 +339,42 @@ async function getClientIp(): Promise<string> {
  *
  * Request body:
  * - jobDescription: string (50-8000 chars)
- * - experience: string (20-4000 chars)
+ * - experience?: string (20-4000 chars)
+ * - roles?: { company, title, dates?, notes }[] (1-5 positions, instead of
+ *   experience; the bullet count is split across them by relevance, and
+ *   each bullet carries the number of its `role`)
  * - licenseKey?: string (optional, for paid users)
+ * - options?: { bulletCount, wordRange, seniority, roleFamily,
+ *   metricPlaceholders, variants } (optional; the tier limits
+ *   bulletCount)
+ * - stream?: boolean (optional, stream bullets as NDJSON)
+ * - autoFix?: boolean (optional, rewrite bullets that fail the linter)
+ * - fresh?: boolean (optional, skip the cache and generate new variations)
+ * - redactPii?: boolean (optional, default true; replace personal details
+ *   with placeholders before calling the LLM)
+ * - mode?: "generate" | "rewrite" (optional; in rewrite mode `experience`
+ *   holds the user's current bullets, one per line, and each returned
+ *   bullet carries its `original` and a `rationale`. The bullet count is
+ *   the number of lines pasted)
+ *
+ * The prompt version is picked per caller by the experiment split in
+ * lib/prompt-registry. Identical requests within 24 hours are answered
+ * from the cache with cached: true and are not charged.
  *
  * Response:
- * - 200: { bullets: string[], remaining: number, tier: string }
- * - 400: Validation error
+ * - 200: { bullets: Bullet[], coverage: KeywordCoverage, remaining: number,
+ *   tier: string, promptVersion: string, cached?: boolean,
+ *   redactions: Redaction[] }
+ * - 200 (stream): NDJSON lines of GenerateStreamEvent ("bullet"..., then
+ *   "done" or "error")
+ * - 400: Validation error, or INJECTION_DETECTED when the input contains
+ *   instructions aimed at the model
  * - 402: Payment required (limit reached)
  * - 429: Rate limited
+ * - 422: INJECTION_DETECTED when the output stopped looking like bullets
+ *   (not charged)
  * - 500: Server error
+ * - 503: Paused by the daily spend cap (BUDGET_EXCEEDED)
  */
 export async function POST(request: NextRequest): Promise<NextResponse> {
   try {
@@ -130,10 +408,80 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       )
     }
 
-    const { jobDescription, experience, licenseKey } = validation.data
+    const {
+      jobDescription,
+      experience: experienceInput,
+      roles,
+      licenseKey,
+      options: requestedOptions,
+      stream,
+      autoFix,
+      fresh,
+      redactPii,
+      mode,
+    } = validation.data
+
+    if (roles && experienceInput) {
+      return NextResponse.json(
+        createErrorResponse(
+          "VALIDATION_ERROR",
+          "Send either experience or roles, not both"
+        ),
+        { status: 400 }
+      )
+    }
+    if (roles && mode === "rewrite") {
+      return NextResponse.json(
+        createErrorResponse(
+          "VALIDATION_ERROR",
+          "Rewrite mode takes your bullets in experience, not roles"
+        ),
+        { status: 400 }
+      )
+    }
+    const experience = roles ? formatRoles(roles) : experienceInput
+    if (!experience) {
+      return NextResponse.json(
+        createErrorResponse(
+          "VALIDATION_ERROR",
+          "Experience must be at least 20 characters"
+        ),
+        { status: 400 }
+      )
+    }
+
+    // In rewrite mode every pasted bullet gets exactly one rewrite
+    const originals =
+      mode === "rewrite" ? parseBulletList(experience) : undefined
+    if (originals && originals.length > MAX_BULLETS) {
+      return NextResponse.json(
+        createErrorResponse(
+          "VALIDATION_ERROR",
+          `Paste at most ${MAX_BULLETS} bullets to rewrite at a time`
+        ),
+        { status: 400 }
+      )
+    }
+    const options = originals
+      ? { ...requestedOptions, bulletCount: originals.length }
+      : requestedOptions
+
+    if (roles && options.bulletCount < roles.length) {
+      return NextResponse.json(
+        createErrorResponse(
+          "VALIDATION_ERROR",
+          `Choose at least one bullet per role (${roles.length} roles)`
+        ),
+        { status: 400 }
+      )
+    }
 
-    // Additional input validation (length checks beyond Zod)
-    const inputValidation = validateInput(jobDescription, experience)
+    // Additional input validation (length checks beyond Zod); role
+    // headings don't count towards the experience length
+    const inputValidation = validateInput(
+      jobDescription,
+      roles ? roles.map((role) => role.notes).join("\n\n") : experience
+    )
     if (!inputValidation.isValid) {
       return NextResponse.json(
         createErrorResponse(
@@ -144,111 +492,175 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       )
     }
 
-    // Determine user tier and check limits
-    let tier: "free" | "basic" | "lifetime" = "free"
-    let remaining: number
-    let identifier = clientIp
+    // Reject text that tries to instruct the model before spending quota
+    const injection = rejectInjectedInput("/api/generate", {
+      jobDescription,
+      experience: experienceInput,
+      roles: roles?.flatMap((role) => [
+        role.company,
+        role.title,
+        role.dates ?? "",
+        role.notes,
+      ]),
+    })
+    if (injection) return injection
 
-    if (licenseKey) {
-      // Paid user: validate license with LemonSqueezy
-      const licenseStatus = await validateLicenseKey(licenseKey)
+    // Determine user tier and check limits
+    const access = await resolveUsage(licenseKey, clientIp)
+    if (!access.ok) {
+      return NextResponse.json(access.error, { status: access.status })
+    }
+    const { usage } = access
 
-      if (!licenseStatus.isValid || !licenseStatus.tier) {
-        return NextResponse.json(ERRORS.INVALID_LICENSE, { status: 402 })
-      }
+    // Larger bullet sets are a paid feature
+    const maxBullets = getMaxBullets(usage.tier)
+    if (options.bulletCount > maxBullets) {
+      return NextResponse.json(
+        createErrorResponse(
+          "LIMIT_REACHED",
+          `Your plan allows up to ${maxBullets} bullets per generation. Upgrade for more.`
+        ),
+        { status: 402 }
+      )
+    }
 
-      // Check if license is in a usable state
-      const invalidStatuses = ["expired", "disabled", "revoked"]
-      if (invalidStatuses.includes(licenseStatus.status.toLowerCase())) {
-        return NextResponse.json(
-          createErrorResponse(
-            "INVALID_LICENSE",
-            `License is ${licenseStatus.status}`
-          ),
-          { status: 402 }
+    // Sticky per caller so an experiment doesn't mix versions for one user
+    const prompt = selectPromptTemplate(usage.identifier)
+
+    // Personal details are found up front so the list is complete even
+    // when the result comes from the cache
+    const redactor = redactPii ? createRedactor() : undefined
+    redactor?.scan(jobDescription)
+    redactor?.scanResume(experience)
+
+    // Identical requests reuse the earlier result unless fresh is set;
+    // fresh results still replace the cached one
+    const cacheKey = hashGenerationInput({
+      jobDescription,
+      experience,
+      roles,
+      options,
+      autoFix,
+      redactPii,
+      mode,
+      promptVersion: prompt.id,
+      model: getProvider().defaultModel,
+    })
+    if (!fresh) {
+      const cached = await getCachedGeneration(cacheKey)
+      if (cached) {
+        return replayCached(
+          cached,
+          usage,
+          {
+            promptVersion: prompt.id,
+            redactions: redactor?.redactions() ?? [],
+          },
+          stream
         )
       }
-
-      tier = licenseStatus.tier
-      identifier = licenseKey
-
-      // Get usage from Redis for basic tier
-      if (tier === "basic") {
-        const used = await getUsageCount(licenseKey)
-        const maxGenerations = PAID_TIERS.basic.generations
-        remaining = Math.max(0, maxGenerations - used)
-
-        if (remaining <= 0) {
-          return NextResponse.json(
-            createErrorResponse(
-              "LIMIT_REACHED",
-              "You've used all 50 generations. Upgrade to Lifetime for unlimited access."
-            ),
-            { status: 402 }
-          )
-        }
-      } else {
-        remaining = 999 // Lifetime
-      }
-    } else {
-      // Free user: check usage limit
-      const usageCount = await getUsageCount(clientIp)
-
-      if (usageCount >= FREE_TIER.maxGenerations) {
-        return NextResponse.json(ERRORS.LIMIT_REACHED, { status: 402 })
-      }
-
-      remaining = FREE_TIER.maxGenerations - usageCount - 1 // -1 for current request
     }
 
-    // Generate bullet points using OpenAI
-    const messages = [
-      { role: "system" as const, content: SYSTEM_PROMPT },
+    // The best-matching roles get the most bullets
+    const roleCounts =
+      roles && allocateRoleBullets(roles, jobDescription, options.bulletCount)
+
+    // Generate bullet points with the configured LLM provider
+    const messages: ChatMessage[] = [
+      { role: "system", content: prompt.systemPrompt },
       {
-        role: "user" as const,
-        content: createUserPrompt(jobDescription, experience),
+        role: "user",
+        content: originals
+          ? prompt.createRewritePrompt(jobDescription, originals, options)
+          : roles && roleCounts
+            ? prompt.createRolesPrompt(
+                jobDescription,
+                roles,
+                roleCounts,
+                options
+              )
+            : prompt.createUserPrompt(
+                jobDescription,
+                experience,
+                options,
+                parseJobDescription(jobDescription)
+              ),
       },
     ]
 
-    let generatedContent: string
+    const keywords = extractKeywords(jobDescription)
+    const checkOutput = createOutputGuard(experience)
+    const job: GenerationJob = {
+      messages,
+      usage,
+      maxBullets: options.bulletCount,
+      maxTokens: GENERATION_CONFIG.maxTokens * (options.variants ?? 1),
+      context: {
+        jobDescription,
+        experience,
+        options,
+        systemPrompt: prompt.systemPrompt,
+        originals,
+      },
+      autoFix,
+      meter: createUsageMeter(),
+      report: (bullets) => analyzeCoverage(keywords, bullets, experience),
+      cacheKey,
+      promptVersion: prompt.id,
+      guard: (bullet) =>
+        allPhrasings(bullet).map(checkOutput).find(Boolean) ?? null,
+      redactor,
+      assignRole: roleCounts && createRoleAssigner(roleCounts),
+    }
+
+    if (stream) {
+      return streamGeneration(job)
+    }
+
+    let bullets: Bullet[]
     try {
-      generatedContent = await generateCompletion(messages)
+      const generated = await generateBullets(
+        messages,
+        job.maxBullets,
+        { maxTokens: job.maxTokens, onUsage: job.meter.record, redactor },
+        job.assignRole
+      )
+      bullets = await finalizeBullets(
+        generated.map(createBulletAnnotator(job.context)),
+        job
+      )
     } catch (error) {
-      console.error("OpenAI generation error:", getErrorMessage(error))
+      console.error("LLM generation error:", getErrorMessage(error))
       return NextResponse.json(ERRORS.GENERATION_FAILED, { status: 500 })
+    } finally {
+      // Tokens are spent whether or not the generation succeeds
+      trackSpend(job.meter, usage)
     }
 
-    // Parse the generated content into bullet points
-    const bullets = parseBulletPoints(generatedContent)
-
     if (bullets.length === 0) {
-      console.error("No bullets parsed from response:", generatedContent)
+      console.error("No bullets parsed from response")
       return NextResponse.json(ERRORS.GENERATION_FAILED, { status: 500 })
     }
 
-    // Update usage tracking
-    if (licenseKey && tier !== "free") {
-      // For paid users, track by license key
-      await incrementUsage(licenseKey, true) // true = no expiry
-      // Recalculate remaining for paid users
-      if (tier === "lifetime") {
-        remaining = 999
-      } else {
-        remaining = Math.max(0, remaining - 1)
-      }
-    } else {
-      // For free users, track by IP
-      await incrementUsage(identifier, false)
+    const rejected = findRejectedOutput(bullets, job.guard)
+    if (rejected) {
+      quarantine("/api/generate", "output", [rejected])
+      return NextResponse.json(ERRORS.INJECTION_DETECTED, { status: 422 })
     }
 
-    // Track daily stats (fire and forget)
-    trackDailyGeneration().catch(console.error)
+    const remaining = await chargeUsage(usage)
+    const coverage = job.report(bullets)
+    cacheGeneration(cacheKey, { bullets, coverage })
+    trackPromptQuality(prompt.id, bullets, coverage)
 
     // Build response
     const response: GenerateResponse = {
       bullets,
-      remaining: tier === "lifetime" ? 999 : remaining, // Use 999 for "unlimited" in JSON
-      tier,
+      coverage,
+      remaining,
+      tier: usage.tier,
+      promptVersion: prompt.id,
+      redactions: redactor?.redactions() ?? [],
     }
 
     return NextResponse.json(response, {
@@ -0,0 +1,194 @@
+import { NextRequest, NextResponse } from "next/server"
+import { generateProfile, type LinkedInProfile } from "@/lib/profile"
+import { selectPromptTemplate } from "@/lib/prompt-registry"
+import { createUsageMeter, trackSpend } from "@/lib/costs"
+import {
+  rejectInjectedInput,
+  quarantine,
+  createOutputGuard,
+} from "@/lib/prompt-guard"
+import { createRedactor } from "@/lib/pii"
+import {
+  getClientIp,
+  isRateLimited,
+  resolveUsage,
+  chargeUsage,
+} from "@/lib/usage"
+import {
+  validateRequest,
+  profileRequestSchema,
+  createErrorResponse,
+  ERRORS,
+  type ProfileResponse,
+} from "@/lib/validation"
+import { getErrorMessage } from "@/lib/utils"
+
+/**
+ * Checks every headline and About paragraph with the output guard.
+ * Lengths are already capped to LinkedIn's field sizes by the parser.
+ *
+ * @returns The first reason the profile was rejected, or null
+ */
+function checkProfile(
+  { headlines, about }: LinkedInProfile,
+  allowedText: string
+): string | null {
+  const guard = createOutputGuard(allowedText, Infinity)
+  for (const text of [...headlines, ...about.split("\n\n")]) {
+    const rejected = guard({ text })
+    if (rejected) return rejected
+  }
+  return null
+}
+
+/**
+ * POST /api/profile
+ *
+ * Writes LinkedIn headline options and an About section from the user's
+ * experience. No job description is needed. Metered separately (see
+ * PAID_TIERS.profiles).
+ *
+ * Request body:
+ * - experience: string (20-4000 chars)
+ * - targetRole?: string (optional, role to be found for, max 100 chars)
+ * - jobDescription?: string (optional, 50-8000 chars, a posting to aim at)
+ * - licenseKey?: string (optional, for paid users)
+ * - redactPii?: boolean (optional, default true; replace personal details
+ *   with placeholders before calling the LLM)
+ *
+ * Response:
+ * - 200: { headlines: string[], about: string, remaining: number,
+ *   tier: string, promptVersion: string, redactions: Redaction[] }
+ * - 400: Validation error, or INJECTION_DETECTED when the input contains
+ *   instructions aimed at the model
+ * - 402: Payment required (limit reached)
+ * - 422: INJECTION_DETECTED when the output is not a profile (not charged)
+ * - 429: Rate limited
+ * - 500: Server error
+ * - 503: Paused by the daily spend cap (BUDGET_EXCEEDED)
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const clientIp = await getClientIp()
+
+    if (isRateLimited(clientIp)) {
+      return NextResponse.json(ERRORS.RATE_LIMITED, { status: 429 })
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json(
+        createErrorResponse("VALIDATION_ERROR", "Invalid JSON in request body"),
+        { status: 400 }
+      )
+    }
+
+    const validation = validateRequest(profileRequestSchema, body)
+    if (!validation.success || !validation.data) {
+      return NextResponse.json(
+        createErrorResponse(
+          "VALIDATION_ERROR",
+          validation.error ?? "Invalid request"
+        ),
+        { status: 400 }
+      )
+    }
+
+    const { experience, targetRole, jobDescription, redactPii } =
+      validation.data
+
+    // Reject text that tries to instruct the model before spending quota
+    const injection = rejectInjectedInput("/api/profile", {
+      experience,
+      targetRole,
+      jobDescription,
+    })
+    if (injection) return injection
+
+    const access = await resolveUsage(
+      validation.data.licenseKey,
+      clientIp,
+      "profile"
+    )
+    if (!access.ok) {
+      return NextResponse.json(access.error, { status: access.status })
+    }
+
+    const redactor = redactPii ? createRedactor() : undefined
+    redactor?.scanResume(experience)
+    for (const text of [targetRole, jobDescription]) {
+      if (text) redactor?.scan(text)
+    }
+
+    const prompt = selectPromptTemplate(access.usage.identifier)
+    const meter = createUsageMeter()
+    let profile: LinkedInProfile | null
+    try {
+      profile = await generateProfile(
+        [
+          { role: "system", content: prompt.profileSystemPrompt },
+          {
+            role: "user",
+            content: prompt.createProfilePrompt(experience, {
+              targetRole,
+              jobDescription,
+            }),
+          },
+        ],
+        { onUsage: meter.record, redactor }
+      )
+    } catch (error) {
+      console.error("LLM profile error:", getErrorMessage(error))
+      return NextResponse.json(ERRORS.GENERATION_FAILED, { status: 500 })
+    } finally {
+      trackSpend(meter, access.usage)
+    }
+
+    if (!profile) {
+      console.error("No profile parsed from LLM response")
+      return NextResponse.json(ERRORS.GENERATION_FAILED, { status: 500 })
+    }
+
+    // Links in the posting (e.g. the company site) may be quoted
+    const rejected = checkProfile(
+      profile,
+      `${experience}\n${jobDescription ?? ""}`
+    )
+    if (rejected) {
+      quarantine("/api/profile", "output", [rejected])
+      return NextResponse.json(ERRORS.INJECTION_DETECTED, { status: 422 })
+    }
+
+    const remaining = await chargeUsage(access.usage)
+
+    const response: ProfileResponse = {
+      ...profile,
+      remaining,
+      tier: access.usage.tier,
+      promptVersion: prompt.id,
+      redactions: redactor?.redactions() ?? [],
+    }
+
+    return NextResponse.json(response, {
+      status: 200,
+      headers: {
+        "Cache-Control": "no-store",
+      },
+    })
+  } catch (error) {
+    console.error("Unexpected error in /api/profile:", getErrorMessage(error))
+    return NextResponse.json(ERRORS.INTERNAL_ERROR, { status: 500 })
+  }
+}
+
+/**
+ * Handle unsupported methods.
+ */
+export async function GET(): Promise<NextResponse> {
+  return NextResponse.json(
+    createErrorResponse("VALIDATION_ERROR", "Method not allowed. Use POST."),
+    { status: 405 }
+  )
+}
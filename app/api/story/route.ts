@@ -0,0 +1,210 @@
+import { NextRequest, NextResponse } from "next/server"
+import {
+  generateStory,
+  MAX_SECTION_WORDS,
+  type InterviewStory,
+} from "@/lib/story"
+import { STORY_SYSTEM_PROMPT, createStoryPrompt } from "@/lib/prompts"
+import { createMetricVerifier } from "@/lib/metric-verifier"
+import { createUsageMeter, trackSpend } from "@/lib/costs"
+import {
+  rejectInjectedInput,
+  quarantine,
+  createOutputGuard,
+} from "@/lib/prompt-guard"
+import { createRedactor } from "@/lib/pii"
+import {
+  getClientIp,
+  isRateLimited,
+  resolveUsage,
+  chargeUsage,
+} from "@/lib/usage"
+import {
+  validateRequest,
+  storyRequestSchema,
+  createErrorResponse,
+  ERRORS,
+  STAR_SECTIONS,
+  type StoryResponse,
+} from "@/lib/validation"
+import { getErrorMessage } from "@/lib/utils"
+
+/**
+ * Checks every story section and follow-up question with the output guard.
+ *
+ * @returns The first reason the story was rejected, or null
+ */
+function checkStory(
+  { story, followUps }: InterviewStory,
+  allowedText: string
+): string | null {
+  const sectionGuard = createOutputGuard(allowedText, MAX_SECTION_WORDS)
+  const questionGuard = createOutputGuard(allowedText)
+
+  for (const section of STAR_SECTIONS) {
+    const rejected = sectionGuard({ text: story[section] })
+    if (rejected) return rejected
+  }
+  for (const text of followUps) {
+    const rejected = questionGuard({ text })
+    if (rejected) return rejected
+  }
+  return null
+}
+
+/**
+ * POST /api/story
+ *
+ * Expands a resume bullet into a Situation/Task/Action/Result story for
+ * interview prep, with likely follow-up questions. The story is grounded
+ * only in the experience text. Metered separately (see PAID_TIERS.stories).
+ *
+ * Request body:
+ * - experience: string (20-4000 chars, the only source of facts)
+ * - bullet: string (the bullet to expand, max 500 chars)
+ * - jobDescription?: string (optional, 50-8000 chars, shapes the
+ *   follow-up questions)
+ * - licenseKey?: string (optional, for paid users)
+ * - redactPii?: boolean (optional, default true; replace personal details
+ *   with placeholders before calling the LLM)
+ *
+ * Response:
+ * - 200: { story: { situation, task, action, result }, followUps: string[],
+ *   unsupportedMetrics: string[], remaining: number, tier: string,
+ *   redactions: Redaction[] }
+ * - 400: Validation error, or INJECTION_DETECTED when the input contains
+ *   instructions aimed at the model
+ * - 402: Payment required (limit reached)
+ * - 422: INJECTION_DETECTED when the output is not a story (not charged)
+ * - 429: Rate limited
+ * - 500: Server error
+ * - 503: Paused by the daily spend cap (BUDGET_EXCEEDED)
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const clientIp = await getClientIp()
+
+    if (isRateLimited(clientIp)) {
+      return NextResponse.json(ERRORS.RATE_LIMITED, { status: 429 })
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json(
+        createErrorResponse("VALIDATION_ERROR", "Invalid JSON in request body"),
+        { status: 400 }
+      )
+    }
+
+    const validation = validateRequest(storyRequestSchema, body)
+    if (!validation.success || !validation.data) {
+      return NextResponse.json(
+        createErrorResponse(
+          "VALIDATION_ERROR",
+          validation.error ?? "Invalid request"
+        ),
+        { status: 400 }
+      )
+    }
+
+    const { experience, bullet, jobDescription, redactPii } = validation.data
+
+    // Reject text that tries to instruct the model before spending quota
+    const injection = rejectInjectedInput("/api/story", {
+      experience,
+      bullet,
+      jobDescription,
+    })
+    if (injection) return injection
+
+    const access = await resolveUsage(
+      validation.data.licenseKey,
+      clientIp,
+      "story"
+    )
+    if (!access.ok) {
+      return NextResponse.json(access.error, { status: access.status })
+    }
+
+    const redactor = redactPii ? createRedactor() : undefined
+    redactor?.scanResume(experience)
+    for (const text of [bullet, jobDescription]) {
+      if (text) redactor?.scan(text)
+    }
+
+    const meter = createUsageMeter()
+    let result: InterviewStory | null
+    try {
+      result = await generateStory(
+        [
+          { role: "system", content: STORY_SYSTEM_PROMPT },
+          {
+            role: "user",
+            content: createStoryPrompt(experience, bullet, jobDescription),
+          },
+        ],
+        { onUsage: meter.record, redactor }
+      )
+    } catch (error) {
+      console.error("LLM story error:", getErrorMessage(error))
+      return NextResponse.json(ERRORS.GENERATION_FAILED, { status: 500 })
+    } finally {
+      trackSpend(meter, access.usage)
+    }
+
+    if (!result) {
+      console.error("No story parsed from LLM response")
+      return NextResponse.json(ERRORS.GENERATION_FAILED, { status: 500 })
+    }
+
+    // Links in the posting (e.g. the company site) may be quoted
+    const rejected = checkStory(
+      result,
+      `${experience}\n${jobDescription ?? ""}`
+    )
+    if (rejected) {
+      quarantine("/api/story", "output", [rejected])
+      return NextResponse.json(ERRORS.INJECTION_DETECTED, { status: 422 })
+    }
+
+    // Figures must come from the experience, not from the bullet
+    const verify = createMetricVerifier(experience)
+    const unsupportedMetrics = [
+      ...new Set(
+        STAR_SECTIONS.flatMap((section) => verify(result.story[section]))
+      ),
+    ]
+
+    const remaining = await chargeUsage(access.usage)
+
+    const response: StoryResponse = {
+      ...result,
+      unsupportedMetrics,
+      remaining,
+      tier: access.usage.tier,
+      redactions: redactor?.redactions() ?? [],
+    }
+
+    return NextResponse.json(response, {
+      status: 200,
+      headers: {
+        "Cache-Control": "no-store",
+      },
+    })
+  } catch (error) {
+    console.error("Unexpected error in /api/story:", getErrorMessage(error))
+    return NextResponse.json(ERRORS.INTERNAL_ERROR, { status: 500 })
+  }
+}
+
+/**
+ * Handle unsupported methods.
+ */
+export async function GET(): Promise<NextResponse> {
+  return NextResponse.json(
+    createErrorResponse("VALIDATION_ERROR", "Method not allowed. Use POST."),
+    { status: 405 }
+  )
+}
@@ -16,7 +16,7 @@ export const metadata: Metadata = {
     template: "%s | Resume Bullets Generator",
   },
   description:
-    "Generate tailored, quantified resume bullet points in seconds. Paste your job description and experience — get 10 powerful STAR-format bullets instantly.",
+    "Generate tailored, quantified resume bullet points in seconds. Paste your job description and experience — get up to 10 powerful STAR-format bullets instantly.",
   keywords: [
     "resume generator",
     "AI resume writer",
@@ -45,7 +45,7 @@ export const metadata: Metadata = {
     siteName: "Resume Bullets Generator",
     title: "Resume Bullet Generator | AI-Powered Resume Writer",
     description:
-      "Generate tailored, quantified resume bullet points in seconds. Paste your job description and experience — get 10 powerful STAR-format bullets instantly.",
+      "Generate tailored, quantified resume bullet points in seconds. Paste your job description and experience — get up to 10 powerful STAR-format bullets instantly.",
   },
   twitter: {
     card: "summary_large_image",
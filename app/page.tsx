@@ -13,8 +13,24 @@ import {
   PaywallModal,
   LicenseKeyInput,
   ErrorAlert,
+  KeywordCoveragePanel,
+  GapAnalysisPanel,
+  CoverLetterPanel,
+  ProfileGenerator,
+  PrivacyPanel,
+  type GenerationInputs,
 } from "@/components"
 import { FREE_TIER } from "@/lib/redis"
+import { cn } from "@/lib/utils"
+import type {
+  Bullet,
+  FeedbackRating,
+  GapAnalysis,
+  GenerateResponse,
+  JobKeyword,
+  Redaction,
+  StoryResponse,
+} from "@/lib/validation"
 
 /**
  * User state interface.
@@ -51,7 +67,31 @@ export default function HomePage() {
   const [user, setUser] = useState<UserState>(INITIAL_USER_STATE)
 
   // Generated bullets
-  const [bullets, setBullets] = useState<string[]>([])
+  const [bullets, setBullets] = useState<Bullet[]>([])
+
+  // Bullets received so far while a generation is streaming
+  const [streamingBullets, setStreamingBullets] = useState<Bullet[] | null>(
+    null
+  )
+
+  // Inputs the current bullets were generated from (needed for refinement)
+  const [lastInputs, setLastInputs] = useState<GenerationInputs | null>(null)
+
+  // Whether the current bullets were served from the cache (not charged)
+  const [isCached, setIsCached] = useState(false)
+
+  // Prompt version that wrote the current bullets, and the user's rating
+  const [promptVersion, setPromptVersion] = useState<string | null>(null)
+  const [feedback, setFeedback] = useState<FeedbackRating | null>(null)
+
+  // Personal details kept from the LLM provider for the current bullets
+  const [redactions, setRedactions] = useState<Redaction[]>([])
+
+  // Job description keywords the bullets are scored against
+  const [keywords, setKeywords] = useState<JobKeyword[]>([])
+
+  // Job requirements checked against the experience, before generating
+  const [gapAnalysis, setGapAnalysis] = useState<GapAnalysis | null>(null)
 
   // Error state
   const [error, setError] = useState<ErrorState | null>(null)
@@ -102,22 +142,78 @@ export default function HomePage() {
   }, [])
 
   /**
-   * Handle successful generation.
+   * Handle bullets arriving while generation is still streaming.
    */
-  const handleGenerate = useCallback((newBullets: string[]) => {
-    setBullets(newBullets)
+  const handleProgress = useCallback((partialBullets: Bullet[]) => {
+    setStreamingBullets(partialBullets)
     setError(null)
 
-    // Update remaining count
-    setUser((prev) => ({
-      ...prev,
-      remaining:
-        prev.tier === "lifetime" ? 999 : Math.max(0, prev.remaining - 1),
-    }))
+    // Scroll to results once the first bullet appears
+    if (partialBullets.length === 1) {
+      setTimeout(() => {
+        document
+          .getElementById("results")
+          ?.scrollIntoView({ behavior: "smooth" })
+      }, 100)
+    }
+  }, [])
+
+  /**
+   * Handle successful generation.
+   */
+  const handleGenerate = useCallback(
+    (
+      {
+        bullets: newBullets,
+        coverage,
+        promptVersion: version,
+        cached = false,
+        redactions: redacted,
+      }: GenerateResponse,
+      inputs: GenerationInputs
+    ) => {
+      setBullets(newBullets)
+      setIsCached(cached)
+      setPromptVersion(version)
+      setFeedback(null)
+      setRedactions(redacted)
+      setLastInputs(inputs)
+      setKeywords([
+        ...coverage.covered,
+        ...coverage.missedInBullets,
+        ...coverage.missing,
+      ])
+      setStreamingBullets(null)
+      setError(null)
+
+      // Update remaining count (cached results are free)
+      if (!cached) {
+        setUser((prev) => ({
+          ...prev,
+          remaining:
+            prev.tier === "lifetime" ? 999 : Math.max(0, prev.remaining - 1),
+        }))
+      }
+
+      // Scroll to results
+      setTimeout(() => {
+        document
+          .getElementById("results")
+          ?.scrollIntoView({ behavior: "smooth" })
+      }, 100)
+    },
+    []
+  )
+
+  /**
+   * Show the requirements check above the results.
+   */
+  const handleAnalyze = useCallback((analysis: GapAnalysis) => {
+    setGapAnalysis(analysis)
+    setError(null)
 
-    // Scroll to results
     setTimeout(() => {
-      document.getElementById("results")?.scrollIntoView({ behavior: "smooth" })
+      document.getElementById("gaps")?.scrollIntoView({ behavior: "smooth" })
     }, 100)
   }, [])
 
@@ -127,12 +223,147 @@ export default function HomePage() {
   const handleError = useCallback((message: string, code?: string) => {
     setError({ message, code })
 
+    // Discard partially streamed bullets; the generation was not charged
+    setStreamingBullets(null)
+
     // Show paywall for limit errors
     if (code === "LIMIT_REACHED") {
       setShowPaywall(true)
     }
   }, [])
 
+  /**
+   * Rewrite a single bullet, keeping the others as context. Texts are the
+   * phrasing picked for each bullet, so the rewrite starts from those.
+   */
+  const handleRefine = useCallback(
+    async (index: number, texts: string[], instruction?: string) => {
+      if (!lastInputs) return
+
+      // A bullet written for one role is checked against that role's notes
+      const { roles, ...inputs } = lastInputs
+      const role = bullets[index]?.role
+      const roleNotes = role ? roles?.[role - 1]?.notes : undefined
+
+      try {
+        const response = await fetch("/api/generate/refine", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            ...inputs,
+            experience: roleNotes ?? inputs.experience,
+            bullets: texts,
+            index,
+            ...(instruction && { instruction }),
+            ...(user.licenseKey && { licenseKey: user.licenseKey }),
+            ...(promptVersion && { promptVersion }),
+          }),
+        })
+
+        const data = await response.json()
+
+        if (!response.ok) {
+          handleError(
+            data.message || "Failed to rewrite bullet. Please try again.",
+            data.code
+          )
+          return
+        }
+
+        setBullets((prev) =>
+          prev.map((b, i) =>
+            // A regenerated bullet keeps its original and role
+            i === data.index
+              ? { ...data.bullet, original: b.original, role: b.role }
+              : b
+          )
+        )
+        setError(null)
+      } catch (err) {
+        console.error("Refinement error:", err)
+        handleError(
+          "Network error. Please check your connection and try again."
+        )
+      }
+    },
+    [lastInputs, bullets, user.licenseKey, promptVersion, handleError]
+  )
+
+  /**
+   * Expand a bullet into an interview story.
+   * Resolves to null (after showing the error) when the request fails.
+   */
+  const handleExpandStory = useCallback(
+    async (index: number, text: string): Promise<StoryResponse | null> => {
+      const bullet = bullets[index]
+      if (!lastInputs || !bullet) return null
+
+      // A bullet written for one role is grounded in that role's notes
+      const roleNotes = bullet.role
+        ? lastInputs.roles?.[bullet.role - 1]?.notes
+        : undefined
+
+      try {
+        const response = await fetch("/api/story", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            experience: roleNotes ?? lastInputs.experience,
+            bullet: text,
+            jobDescription: lastInputs.jobDescription,
+            redactPii: lastInputs.redactPii,
+            ...(user.licenseKey && { licenseKey: user.licenseKey }),
+          }),
+        })
+
+        const data = await response.json()
+
+        if (!response.ok) {
+          handleError(
+            data.message || "Failed to write the story. Please try again.",
+            data.code
+          )
+          return null
+        }
+
+        setError(null)
+        return data as StoryResponse
+      } catch (err) {
+        console.error("Story error:", err)
+        handleError(
+          "Network error. Please check your connection and try again."
+        )
+        return null
+      }
+    },
+    [lastInputs, bullets, user.licenseKey, handleError]
+  )
+
+  /**
+   * Handle a LinkedIn profile being written (metered separately).
+   */
+  const handleProfile = useCallback(() => {
+    setError(null)
+  }, [])
+
+  /**
+   * Send a thumbs up/down for the current bullets.
+   * Feedback is best-effort; failures are only logged.
+   */
+  const handleFeedback = useCallback(
+    (rating: FeedbackRating) => {
+      if (!promptVersion) return
+      setFeedback(rating)
+
+      fetch("/api/feedback", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ promptVersion, rating }),
+      }).catch((err) => console.error("Feedback error:", err))
+    },
+    [promptVersion]
+  )
+
   /**
    * Handle license verification success.
    */
@@ -174,6 +405,13 @@ export default function HomePage() {
     setError(null)
   }, [])
 
+  // Show streamed bullets until the generation completes
+  const visibleBullets = streamingBullets ?? bullets
+
+  // Coverage is only meaningful for a completed set of bullets
+  const showCoverage =
+    lastInputs !== null && streamingBullets === null && keywords.length > 0
+
   // Calculate if user is at their limit
   const isAtLimit =
     user.tier === "free" && user.remaining <= 0 && bullets.length === 0
@@ -216,7 +454,9 @@ export default function HomePage() {
             {!isInitializing && (
               <GeneratorForm
                 onGenerate={handleGenerate}
+                onProgress={handleProgress}
                 onError={handleError}
+                onAnalyze={handleAnalyze}
                 licenseKey={user.licenseKey}
                 remaining={user.remaining}
                 tier={user.tier}
@@ -233,13 +473,84 @@ export default function HomePage() {
           </Card>
         </section>
 
+        {/* Requirements Checklist */}
+        {gapAnalysis && (
+          <section id="gaps" className="py-8 scroll-mt-20">
+            <div className="max-w-3xl mx-auto">
+              <GapAnalysisPanel
+                analysis={gapAnalysis}
+                onDismiss={() => setGapAnalysis(null)}
+              />
+            </div>
+          </section>
+        )}
+
         {/* Results Section */}
-        {bullets.length > 0 && (
+        {visibleBullets.length > 0 && (
           <section id="results" className="py-8 scroll-mt-20">
+            <div
+              className={cn(
+                "mx-auto",
+                showCoverage
+                  ? "max-w-5xl grid gap-6 items-start lg:grid-cols-[minmax(0,1fr)_18rem]"
+                  : "max-w-3xl"
+              )}
+            >
+              <div className="min-w-0">
+                <BulletResults
+                  bullets={visibleBullets}
+                  // Grouped once complete; streamed bullets are listed flat
+                  roles={
+                    streamingBullets === null ? lastInputs?.roles : undefined
+                  }
+                  isStreaming={streamingBullets !== null}
+                  isCached={isCached && streamingBullets === null}
+                  onGenerateNew={handleGenerateNew}
+                  onRefine={lastInputs ? handleRefine : undefined}
+                  onExpandStory={lastInputs ? handleExpandStory : undefined}
+                  feedback={feedback}
+                  onFeedback={promptVersion ? handleFeedback : undefined}
+                />
+                {streamingBullets === null && (
+                  <div className="mt-4">
+                    <PrivacyPanel redactions={redactions} />
+                  </div>
+                )}
+                {streamingBullets === null && lastInputs && (
+                  <div id="cover-letter" className="mt-6 scroll-mt-20">
+                    <CoverLetterPanel
+                      jobDescription={lastInputs.jobDescription}
+                      experience={lastInputs.experience}
+                      bullets={bullets.map((b) => b.text)}
+                      redactPii={lastInputs.redactPii}
+                      licenseKey={user.licenseKey}
+                      onError={handleError}
+                    />
+                  </div>
+                )}
+              </div>
+
+              {/* Keyword coverage, recomputed as bullets are regenerated */}
+              {showCoverage && lastInputs && (
+                <KeywordCoveragePanel
+                  keywords={keywords}
+                  bullets={bullets}
+                  experience={lastInputs.experience}
+                />
+              )}
+            </div>
+          </section>
+        )}
+
+        {/* LinkedIn Profile Section */}
+        {!isInitializing && (
+          <section id="profile" className="py-8 scroll-mt-20">
             <div className="max-w-3xl mx-auto">
-              <BulletResults
-                bullets={bullets}
-                onGenerateNew={handleGenerateNew}
+              <ProfileGenerator
+                suggestedExperience={lastInputs?.experience}
+                licenseKey={user.licenseKey}
+                onGenerate={handleProfile}
+                onError={handleError}
               />
             </div>
           </section>
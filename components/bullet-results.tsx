@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useCallback } from "react"
+import { useState, useCallback, useTransition } from "react"
 import {
   Button,
   Card,
@@ -8,7 +8,26 @@ import {
   CopyIcon,
   CheckIcon,
   DownloadIcon,
+  RefreshIcon,
+  MessageIcon,
+  SkeletonBullet,
 } from "@/components/ui"
+import { describeRole } from "@/lib/roles"
+import {
+  countPlaceholders,
+  fillPlaceholders,
+  splitPlaceholders,
+  type MetricPlaceholder,
+} from "@/lib/metric-placeholders"
+import {
+  STAR_SECTIONS,
+  allPhrasings,
+  type Bullet,
+  type FeedbackRating,
+  type Role,
+  type StarSection,
+  type StoryResponse,
+} from "@/lib/validation"
 import { cn } from "@/lib/utils"
 
 /**
@@ -16,34 +35,411 @@ import { cn } from "@/lib/utils"
  */
 export interface BulletResultsProps {
   /** Array of generated bullet points */
-  bullets: string[]
+  bullets: Bullet[]
+  /** Positions the bullets were written for; bullets are grouped by role */
+  roles?: Role[]
+  /** Whether more bullets are still streaming in */
+  isStreaming?: boolean
+  /** Whether the bullets are a saved result from an identical request */
+  isCached?: boolean
   /** Callback to generate new bullets */
   onGenerateNew: () => void
+  /** Callback to rewrite a single bullet, given the phrasing shown for
+   * every bullet (hidden when not provided) */
+  onRefine?: (
+    index: number,
+    texts: string[],
+    instruction?: string
+  ) => Promise<void>
+  /** Callback to expand a bullet into an interview story, given the
+   * phrasing shown (hidden when not provided); resolves to null when the
+   * request failed */
+  onExpandStory?: (index: number, text: string) => Promise<StoryResponse | null>
+  /** Rating already given for these bullets */
+  feedback?: FeedbackRating | null
+  /** Callback to rate the bullets (hidden when not provided) */
+  onFeedback?: (rating: FeedbackRating) => void
 }
 
 /**
  * Props for individual bullet item.
  */
 interface BulletItemProps {
-  bullet: string
+  bullet: Bullet
   index: number
+  /** Selected phrasing: 0 for the main one, then the alternatives */
+  choice?: number
+  onChoose: (text: string, choice: number) => void
+  /** Figures entered for the bullet's placeholders, by position */
+  values?: string[]
+  onFill: (text: string, position: number, value: string) => void
+  onRefine?: (index: number, instruction?: string) => Promise<void>
+  onExpandStory?: BulletResultsProps["onExpandStory"]
+}
+
+/**
+ * Headings for the parts of an interview story.
+ */
+const STAR_LABELS: Record<StarSection, string> = {
+  situation: "Situation",
+  task: "Task",
+  action: "Action",
+  result: "Result",
+}
+
+/**
+ * Quick instructions offered when regenerating a bullet.
+ */
+const REFINE_PRESETS = ["More technical", "Shorter", "More impact-focused"]
+
+/**
+ * Figures entered for metric placeholders, keyed by bullet text so they
+ * don't carry over to a regenerated bullet.
+ */
+type PlaceholderFills = Record<string, string[]>
+
+/**
+ * Selected phrasing per bullet, keyed by the main phrasing's text.
+ */
+type PhrasingChoices = Record<string, number>
+
+/**
+ * Bullets written for one role, with their positions in the full list.
+ */
+interface BulletGroupData {
+  heading: string
+  items: { bullet: Bullet; index: number }[]
+}
+
+/**
+ * Shows the selected phrasing of a bullet in place of the main one.
+ */
+function choosePhrasing(bullet: Bullet, choice = 0): Bullet {
+  const phrasing = allPhrasings(bullet)[choice]
+  return phrasing ? { ...bullet, ...phrasing } : bullet
+}
+
+/**
+ * Swaps in the selected phrasing of each bullet, then fills in its
+ * placeholders: the text that is copied and downloaded.
+ */
+function finalizeForExport(
+  bullets: Bullet[],
+  choices: PhrasingChoices,
+  fills: PlaceholderFills
+): Bullet[] {
+  return applyFills(
+    bullets.map((bullet) => choosePhrasing(bullet, choices[bullet.text])),
+    fills
+  )
+}
+
+/**
+ * Replaces each bullet's placeholders with the figures entered for it.
+ */
+function applyFills(bullets: Bullet[], fills: PlaceholderFills): Bullet[] {
+  return bullets.map((bullet) => ({
+    ...bullet,
+    text: fillPlaceholders(bullet.text, fills[bullet.text]),
+  }))
+}
+
+/**
+ * Formats bullets as a plain-text list for copying and downloading.
+ */
+function formatBullets(bullets: Bullet[]): string {
+  return bullets.map((b) => `• ${b.text}`).join("\n\n")
+}
+
+/**
+ * Formats role groups as plain text, each list under its role heading.
+ */
+function formatGroups(groups: BulletGroupData[]): string {
+  return groups
+    .map(
+      ({ heading, items }) =>
+        `${heading}\n\n${formatBullets(items.map(({ bullet }) => bullet))}`
+    )
+    .join("\n\n\n")
 }
 
 /**
- * Individual bullet point with copy functionality.
+ * Formats the full result, under role headings when grouped by role.
  */
-function BulletItem({ bullet, index }: BulletItemProps) {
+function formatAll(bullets: Bullet[], roles: Role[] | undefined): string {
+  const groups = groupByRole(bullets, roles)
+  return groups ? formatGroups(groups) : formatBullets(bullets)
+}
+
+/**
+ * Saves text as a file through a temporary download link.
+ */
+function downloadText(text: string, filename: string): void {
+  const blob = new Blob([text], { type: "text/plain" })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement("a")
+  a.href = url
+  a.download = filename
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Groups bullets under the roles they were written for, in role order.
+ * Returns null when the bullets aren't from a multi-role generation.
+ */
+function groupByRole(
+  bullets: Bullet[],
+  roles: Role[] | undefined
+): BulletGroupData[] | null {
+  if (!roles || !bullets.some((bullet) => bullet.role)) return null
+
+  return roles.map((role, i) => ({
+    heading: describeRole(role),
+    items: bullets
+      .map((bullet, index) => ({ bullet, index }))
+      .filter(({ bullet }) => bullet.role === i + 1),
+  }))
+}
+
+/**
+ * Formats a story and its follow-up questions as plain text.
+ */
+function formatStory({ story, followUps }: StoryResponse): string {
+  const sections = STAR_SECTIONS.map(
+    (section) => `${STAR_LABELS[section]}: ${story[section]}`
+  )
+  const questions = followUps.map((question) => `- ${question}`)
+  return [
+    ...sections,
+    ...(questions.length > 0 ? ["", "Likely follow-ups:", ...questions] : []),
+  ].join("\n")
+}
+
+/**
+ * Interview story for a bullet: STAR sections, unverified figures and
+ * follow-up questions.
+ */
+function StoryPanel({ data }: { data: StoryResponse }) {
   const [copied, setCopied] = useState(false)
 
-  const handleCopy = useCallback(async () => {
+  const handleCopy = async () => {
     try {
-      await navigator.clipboard.writeText(bullet)
+      await navigator.clipboard.writeText(formatStory(data))
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (error) {
+      console.error("Failed to copy story:", error)
+    }
+  }
+
+  return (
+    <div className="mt-3 space-y-3 rounded-lg bg-gray-50 p-3 text-sm dark:bg-gray-800/50">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs font-medium uppercase tracking-wide text-brand-600 dark:text-brand-400">
+          Interview story
+        </p>
+        <Button variant="ghost" size="sm" onClick={handleCopy}>
+          {copied ? <CheckIcon size={16} /> : <CopyIcon size={16} />}
+          {copied ? "Copied!" : "Copy"}
+        </Button>
+      </div>
+
+      <dl className="space-y-2">
+        {STAR_SECTIONS.map((section) => (
+          <div key={section}>
+            <dt className="font-medium text-gray-900 dark:text-gray-100">
+              {STAR_LABELS[section]}
+            </dt>
+            <dd className="text-gray-700 dark:text-gray-300 leading-relaxed">
+              {data.story[section]}
+            </dd>
+          </div>
+        ))}
+      </dl>
+
+      {data.unsupportedMetrics.length > 0 && (
+        <p className="text-xs text-amber-700 dark:text-amber-400">
+          Not in your experience: {data.unsupportedMetrics.join(", ")}. Check
+          these before you tell this story.
+        </p>
+      )}
+
+      {data.followUps.length > 0 && (
+        <div>
+          <p className="font-medium text-gray-900 dark:text-gray-100">
+            Likely follow-ups
+          </p>
+          <ul className="mt-1 list-disc space-y-0.5 pl-5 text-gray-700 dark:text-gray-300">
+            {data.followUps.map((question, i) => (
+              <li key={i}>{question}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Splits bullet text so unsupported figures can be highlighted.
+ *
+ * @param text - Bullet text
+ * @param figures - Figures to highlight, as written in the text
+ * @returns Text segments, flagged when they are an unsupported figure
+ */
+function splitOnFigures(
+  text: string,
+  figures: string[]
+): { text: string; flagged: boolean }[] {
+  if (figures.length === 0) return [{ text, flagged: false }]
+
+  const escaped = figures.map((f) => f.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+  const pattern = new RegExp(`(${escaped.join("|")})`, "g")
+
+  return text
+    .split(pattern)
+    .filter(Boolean)
+    .map((part) => ({ text: part, flagged: figures.includes(part) }))
+}
+
+/**
+ * Bullet text with unsupported figures highlighted.
+ */
+function FlaggedText({ text, figures }: { text: string; figures: string[] }) {
+  return splitOnFigures(text, figures).map((part, i) =>
+    part.flagged ? (
+      <mark
+        key={i}
+        title="Not found in your experience"
+        className="rounded px-0.5 bg-amber-100 text-amber-900 dark:bg-amber-500/30 dark:text-amber-100"
+      >
+        {part.text}
+      </mark>
+    ) : (
+      part.text
+    )
+  )
+}
+
+/**
+ * Inline input for a metric placeholder: "[X% reduction]" is shown as an
+ * input for X followed by "% reduction".
+ */
+function PlaceholderInput({
+  placeholder,
+  value,
+  onChange,
+}: {
+  placeholder: MetricPlaceholder
+  value: string
+  onChange: (value: string) => void
+}) {
+  return (
+    <span
+      className={cn(
+        "inline-flex items-baseline rounded px-1",
+        value
+          ? "bg-green-50 dark:bg-green-500/10"
+          : "bg-brand-50 dark:bg-brand-900/30"
+      )}
+    >
+      {placeholder.prefix}
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder.variable}
+        size={Math.max(value.length, 2)}
+        maxLength={20}
+        aria-label={`Figure for ${placeholder.raw}`}
+        className={cn(
+          "mx-0.5 border-b border-dashed bg-transparent px-0.5 text-center",
+          "border-brand-400 dark:border-brand-500",
+          "focus:outline-none focus:border-solid"
+        )}
+      />
+      {placeholder.suffix}
+    </span>
+  )
+}
+
+/**
+ * Individual bullet point with copy functionality and metadata.
+ */
+function BulletItem({
+  bullet: slot,
+  index,
+  choice = 0,
+  onChoose,
+  values = [],
+  onFill,
+  onRefine,
+  onExpandStory,
+}: BulletItemProps) {
+  // Everything below shows the selected phrasing
+  const phrasings = allPhrasings(slot)
+  const bullet = choosePhrasing(slot, choice)
+  const [copied, setCopied] = useState(false)
+  const [isRefineOpen, setIsRefineOpen] = useState(false)
+  const [instruction, setInstruction] = useState("")
+  const [isRefining, startRefining] = useTransition()
+  // Story and the bullet text it was written for (stale once regenerated)
+  const [story, setStory] = useState<{
+    text: string
+    data: StoryResponse
+  } | null>(null)
+  const [isStoryOpen, setIsStoryOpen] = useState(false)
+  const [isExpanding, startExpanding] = useTransition()
+  const currentStory = story?.text === bullet.text ? story.data : null
+  const unsupported = bullet.unsupportedMetrics ?? []
+  const warnings = bullet.warnings ?? []
+  const placeholderCount = countPlaceholders(bullet.text)
+  const unfilled =
+    placeholderCount - values.filter((value) => value?.trim()).length
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(fillPlaceholders(bullet.text, values))
       setCopied(true)
       setTimeout(() => setCopied(false), 2000)
     } catch (error) {
       console.error("Failed to copy:", error)
     }
-  }, [bullet])
+  }
+
+  /**
+   * Rewrites this bullet with an optional instruction.
+   */
+  const handleRefine = (refineInstruction?: string) => {
+    if (!onRefine) return
+
+    startRefining(async () => {
+      await onRefine(index, refineInstruction?.trim() || undefined)
+      setIsRefineOpen(false)
+      setInstruction("")
+    })
+  }
+
+  /**
+   * Shows this bullet's interview story, writing it on first use.
+   */
+  const handleStory = () => {
+    if (currentStory || !onExpandStory) {
+      setIsStoryOpen((open) => !open)
+      return
+    }
+
+    const text = bullet.text
+    startExpanding(async () => {
+      const data = await onExpandStory(index, text)
+      if (!data) return
+      setStory({ text, data })
+      setIsStoryOpen(true)
+    })
+  }
 
   return (
     <div
@@ -52,8 +448,10 @@ function BulletItem({ bullet, index }: BulletItemProps) {
         "border border-gray-200 dark:border-gray-700",
         "bg-white dark:bg-gray-900",
         "hover:border-brand-300 dark:hover:border-brand-700",
-        "transition-colors duration-150"
+        "transition-colors duration-150",
+        isRefining && "opacity-60"
       )}
+      aria-busy={isRefining}
     >
       {/* Bullet number */}
       <span
@@ -67,29 +465,348 @@ function BulletItem({ bullet, index }: BulletItemProps) {
         {index + 1}
       </span>
 
-      {/* Bullet text */}
-      <p className="flex-1 text-gray-700 dark:text-gray-300 leading-relaxed pr-10">
-        {bullet}
-      </p>
+      <div className="flex-1 min-w-0 pr-28">
+        {/* Rewrite mode: the user's bullet this one replaces */}
+        {bullet.original && (
+          <div className="mb-3">
+            <p className="text-xs font-medium uppercase tracking-wide text-gray-400 dark:text-gray-500">
+              Before
+            </p>
+            <p className="text-sm text-gray-500 dark:text-gray-400 leading-relaxed">
+              {bullet.original}
+            </p>
+            <p className="mt-2 text-xs font-medium uppercase tracking-wide text-brand-600 dark:text-brand-400">
+              After
+            </p>
+          </div>
+        )}
+
+        {/* Bullet text, with inputs for any metric placeholders */}
+        <p className="text-gray-700 dark:text-gray-300 leading-relaxed">
+          {placeholderCount > 0 ? (
+            splitPlaceholders(bullet.text).map((segment, i, segments) => {
+              if (typeof segment === "string") {
+                return (
+                  <FlaggedText key={i} text={segment} figures={unsupported} />
+                )
+              }
+              const position = segments
+                .slice(0, i)
+                .filter((s) => typeof s !== "string").length
+              return (
+                <PlaceholderInput
+                  key={i}
+                  placeholder={segment}
+                  value={values[position] ?? ""}
+                  onChange={(value) => onFill(bullet.text, position, value)}
+                />
+              )
+            })
+          ) : (
+            <FlaggedText text={bullet.text} figures={unsupported} />
+          )}
+        </p>
 
-      {/* Copy button */}
-      <button
-        onClick={handleCopy}
+        {/* Alternative phrasings to choose from (variants option) */}
+        {phrasings.length > 1 && (
+          <fieldset className="mt-3 space-y-1">
+            <legend className="mb-1 text-xs font-medium uppercase tracking-wide text-gray-400 dark:text-gray-500">
+              Choose a phrasing
+            </legend>
+            {phrasings.map((phrasing, i) => (
+              <label
+                key={i}
+                className={cn(
+                  "flex cursor-pointer items-start gap-2 rounded-md p-2 text-sm",
+                  i === choice
+                    ? "bg-brand-50 text-gray-900 dark:bg-brand-900/30 dark:text-gray-100"
+                    : "text-gray-500 hover:bg-gray-50 dark:text-gray-400 dark:hover:bg-gray-800"
+                )}
+              >
+                <input
+                  type="radio"
+                  name={`phrasing-${index}`}
+                  checked={i === choice}
+                  onChange={() => onChoose(slot.text, i)}
+                  className="mt-0.5 h-4 w-4 border-gray-300 text-brand-600 focus:ring-brand-500"
+                />
+                <span>{phrasing.text}</span>
+              </label>
+            ))}
+          </fieldset>
+        )}
+
+        {/* Why the rewrite is stronger */}
+        {bullet.rationale && (
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+            <span className="font-medium">Why:</span> {bullet.rationale}
+          </p>
+        )}
+
+        {/* Metadata: metric indicator and targeted keywords */}
+        <div className="mt-2 flex flex-wrap items-center gap-1.5">
+          {placeholderCount > 0 ? (
+            <Badge
+              variant={unfilled > 0 ? "warning" : "success"}
+              size="sm"
+              title="Type your real figures into the highlighted placeholders. Unfilled placeholders are copied as written."
+            >
+              {unfilled > 0 ? `${unfilled} to fill in` : "Figures filled in"}
+            </Badge>
+          ) : (
+            <Badge variant={bullet.hasMetric ? "success" : "warning"} size="sm">
+              {bullet.hasMetric ? "Quantified" : "No metric"}
+            </Badge>
+          )}
+          {unsupported.length > 0 && (
+            <Badge
+              variant="error"
+              size="sm"
+              title="These figures don't appear in your experience. Verify or remove them before using this bullet."
+            >
+              {unsupported.length} unverified{" "}
+              {unsupported.length === 1 ? "figure" : "figures"}
+            </Badge>
+          )}
+          {warnings.length > 0 && (
+            <Badge variant="warning" size="sm">
+              {warnings.length} style{" "}
+              {warnings.length === 1 ? "issue" : "issues"}
+            </Badge>
+          )}
+          {bullet.keywords.map((keyword) => (
+            <Badge key={keyword} size="sm">
+              {keyword}
+            </Badge>
+          ))}
+        </div>
+
+        {/* Linter warnings */}
+        {warnings.length > 0 && (
+          <ul className="mt-2 space-y-0.5 text-xs text-amber-700 dark:text-amber-400">
+            {warnings.map((warning, i) => (
+              <li key={i}>{warning.message}</li>
+            ))}
+          </ul>
+        )}
+
+        {/* Interview story */}
+        {isStoryOpen && currentStory && <StoryPanel data={currentStory} />}
+
+        {/* Regenerate panel */}
+        {isRefineOpen && (
+          <div className="mt-3 space-y-2">
+            <div className="flex flex-wrap gap-2">
+              {REFINE_PRESETS.map((preset) => (
+                <Button
+                  key={preset}
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRefine(preset)}
+                  disabled={isRefining}
+                >
+                  {preset}
+                </Button>
+              ))}
+            </div>
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault()
+                handleRefine(instruction)
+              }}
+            >
+              <input
+                type="text"
+                value={instruction}
+                onChange={(e) => setInstruction(e.target.value)}
+                placeholder="Optional instruction, e.g. mention Kubernetes"
+                maxLength={200}
+                disabled={isRefining}
+                className={cn(
+                  "flex-1 min-w-0 rounded-lg border px-3 py-1.5 text-sm",
+                  "border-gray-300 dark:border-gray-600",
+                  "dark:bg-gray-900 dark:text-gray-100",
+                  "focus:outline-none focus:ring-2 focus:border-brand-500 focus:ring-brand-500/20"
+                )}
+              />
+              <Button
+                type="submit"
+                size="sm"
+                isLoading={isRefining}
+                loadingText="Rewriting..."
+              >
+                Regenerate
+              </Button>
+            </form>
+          </div>
+        )}
+      </div>
+
+      {/* Action buttons */}
+      <div
         className={cn(
-          "absolute right-3 top-3",
-          "p-2 rounded-md",
-          "text-gray-400 hover:text-gray-600",
-          "dark:text-gray-500 dark:hover:text-gray-300",
-          "hover:bg-gray-100 dark:hover:bg-gray-800",
-          "opacity-0 group-hover:opacity-100 focus:opacity-100",
+          "absolute right-3 top-3 flex items-center gap-1",
+          "opacity-0 group-hover:opacity-100 focus-within:opacity-100",
           "transition-all duration-150",
-          copied && "text-green-600 dark:text-green-400"
+          (isRefineOpen || isExpanding) && "opacity-100"
         )}
-        title={copied ? "Copied!" : "Copy to clipboard"}
-        aria-label={copied ? "Copied to clipboard" : "Copy bullet point"}
       >
-        {copied ? <CheckIcon size={18} /> : <CopyIcon size={18} />}
-      </button>
+        {onExpandStory && (
+          <button
+            onClick={handleStory}
+            disabled={isExpanding}
+            className={cn(
+              "p-2 rounded-md",
+              "text-gray-400 hover:text-gray-600",
+              "dark:text-gray-500 dark:hover:text-gray-300",
+              "hover:bg-gray-100 dark:hover:bg-gray-800",
+              isStoryOpen &&
+                currentStory &&
+                "text-brand-600 dark:text-brand-400",
+              isExpanding && "animate-pulse"
+            )}
+            title={
+              currentStory
+                ? "Show the interview story"
+                : "Expand into an interview story"
+            }
+            aria-label="Expand bullet into an interview story"
+            aria-expanded={isStoryOpen && currentStory !== null}
+          >
+            <MessageIcon size={18} />
+          </button>
+        )}
+
+        {onRefine && (
+          <button
+            onClick={() => setIsRefineOpen((open) => !open)}
+            disabled={isRefining}
+            className={cn(
+              "p-2 rounded-md",
+              "text-gray-400 hover:text-gray-600",
+              "dark:text-gray-500 dark:hover:text-gray-300",
+              "hover:bg-gray-100 dark:hover:bg-gray-800",
+              isRefineOpen && "text-brand-600 dark:text-brand-400"
+            )}
+            title="Regenerate this bullet"
+            aria-label="Regenerate bullet point"
+            aria-expanded={isRefineOpen}
+          >
+            <RefreshIcon
+              size={18}
+              className={cn(isRefining && "animate-spin")}
+            />
+          </button>
+        )}
+
+        <button
+          onClick={handleCopy}
+          className={cn(
+            "p-2 rounded-md",
+            "text-gray-400 hover:text-gray-600",
+            "dark:text-gray-500 dark:hover:text-gray-300",
+            "hover:bg-gray-100 dark:hover:bg-gray-800",
+            copied && "text-green-600 dark:text-green-400"
+          )}
+          title={copied ? "Copied!" : "Copy to clipboard"}
+          aria-label={copied ? "Copied to clipboard" : "Copy bullet point"}
+        >
+          {copied ? <CheckIcon size={18} /> : <CopyIcon size={18} />}
+        </button>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Props for a role's group of bullets.
+ */
+interface BulletGroupProps {
+  group: BulletGroupData
+  choices: PhrasingChoices
+  onChoose: BulletItemProps["onChoose"]
+  fills: PlaceholderFills
+  onFill: BulletItemProps["onFill"]
+  onRefine?: (index: number, instruction?: string) => Promise<void>
+  onExpandStory?: BulletResultsProps["onExpandStory"]
+}
+
+/**
+ * One role's heading and bullets, with copy and download for the role.
+ */
+function BulletGroup({
+  group,
+  choices,
+  onChoose,
+  fills,
+  onFill,
+  onRefine,
+  onExpandStory,
+}: BulletGroupProps) {
+  const [copied, setCopied] = useState(false)
+  const bullets = finalizeForExport(
+    group.items.map(({ bullet }) => bullet),
+    choices,
+    fills
+  )
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(formatBullets(bullets))
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (error) {
+      console.error("Failed to copy role:", error)
+    }
+  }
+
+  const handleDownload = () => {
+    const slug = group.heading
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "")
+    downloadText(formatBullets(bullets), `resume-bullets-${slug}.txt`)
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+          {group.heading}
+        </h3>
+        {bullets.length > 0 && (
+          <div className="flex items-center gap-1">
+            <Button variant="ghost" size="sm" onClick={handleCopy}>
+              {copied ? <CheckIcon size={16} /> : <CopyIcon size={16} />}
+              {copied ? "Copied!" : "Copy"}
+            </Button>
+            <Button variant="ghost" size="sm" onClick={handleDownload}>
+              <DownloadIcon size={16} />
+              Download
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {group.items.map(({ bullet, index }) => (
+        <BulletItem
+          key={index}
+          bullet={bullet}
+          index={index}
+          choice={choices[bullet.text]}
+          onChoose={onChoose}
+          values={fills[choosePhrasing(bullet, choices[bullet.text]).text]}
+          onFill={onFill}
+          onRefine={onRefine}
+          onExpandStory={onExpandStory}
+        />
+      ))}
+      {bullets.length === 0 && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          No bullets were written for this role.
+        </p>
+      )}
     </div>
   )
 }
@@ -97,54 +814,118 @@ function BulletItem({ bullet, index }: BulletItemProps) {
 /**
  * Displays generated bullet points with copy and export functionality.
  */
-export function BulletResults({ bullets, onGenerateNew }: BulletResultsProps) {
+export function BulletResults({
+  bullets,
+  roles,
+  isStreaming = false,
+  isCached = false,
+  onGenerateNew,
+  onRefine,
+  onExpandStory,
+  feedback = null,
+  onFeedback,
+}: BulletResultsProps) {
   const [allCopied, setAllCopied] = useState(false)
+  const [choices, setChoices] = useState<PhrasingChoices>({})
+  const [fills, setFills] = useState<PlaceholderFills>({})
+  const groups = groupByRole(bullets, roles)
+  const hasUnfilled = finalizeForExport(bullets, choices, fills).some(
+    (bullet) => countPlaceholders(bullet.text) > 0
+  )
+
+  /**
+   * Records which phrasing of a bullet the user picked.
+   */
+  const handleChoose = useCallback((text: string, choice: number) => {
+    setChoices((prev) => ({ ...prev, [text]: choice }))
+  }, [])
+
+  /**
+   * Records a figure typed into one of a bullet's placeholders.
+   */
+  const handleFill = useCallback(
+    (text: string, position: number, value: string) => {
+      setFills((prev) => {
+        const values = [...(prev[text] ?? [])]
+        values[position] = value
+        return { ...prev, [text]: values }
+      })
+    },
+    []
+  )
+
+  /**
+   * Rewrites a bullet starting from the phrasings the user picked.
+   */
+  const handleRefine = useCallback(
+    async (index: number, instruction?: string) => {
+      await onRefine?.(
+        index,
+        bullets.map(
+          (bullet) => choosePhrasing(bullet, choices[bullet.text]).text
+        ),
+        instruction
+      )
+    },
+    [onRefine, bullets, choices]
+  )
 
   /**
    * Copies all bullets to clipboard as a formatted list.
    */
   const handleCopyAll = useCallback(async () => {
     try {
-      const formattedBullets = bullets.map((b) => `• ${b}`).join("\n\n")
-      await navigator.clipboard.writeText(formattedBullets)
+      await navigator.clipboard.writeText(
+        formatAll(finalizeForExport(bullets, choices, fills), roles)
+      )
       setAllCopied(true)
       setTimeout(() => setAllCopied(false), 2000)
     } catch (error) {
       console.error("Failed to copy all:", error)
     }
-  }, [bullets])
+  }, [bullets, choices, fills, roles])
 
   /**
    * Downloads bullets as a text file.
    */
   const handleDownload = useCallback(() => {
-    const formattedBullets = bullets.map((b) => `• ${b}`).join("\n\n")
-    const blob = new Blob([formattedBullets], { type: "text/plain" })
-    const url = URL.createObjectURL(blob)
-    const a = document.createElement("a")
-    a.href = url
-    a.download = "resume-bullets.txt"
-    document.body.appendChild(a)
-    a.click()
-    document.body.removeChild(a)
-    URL.revokeObjectURL(url)
-  }, [bullets])
+    downloadText(
+      formatAll(finalizeForExport(bullets, choices, fills), roles),
+      "resume-bullets.txt"
+    )
+  }, [bullets, choices, fills, roles])
 
   if (bullets.length === 0) {
     return null
   }
 
+  const isRewrite = bullets.some((bullet) => bullet.original)
+
   return (
     <Card padded={false} className="overflow-hidden">
       {/* Header */}
       <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
         <div className="flex items-center gap-3">
           <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
-            Generated Bullets
+            {isRewrite ? "Rewritten Bullets" : "Generated Bullets"}
           </h2>
-          <Badge variant="success" size="sm">
-            {bullets.length} results
-          </Badge>
+          {isStreaming ? (
+            <Badge variant="primary" size="sm">
+              Generating...
+            </Badge>
+          ) : (
+            <Badge variant="success" size="sm">
+              {bullets.length} results
+            </Badge>
+          )}
+          {isCached && (
+            <Badge
+              size="sm"
+              title="Same inputs as an earlier request, so no generation was used. Check “Generate fresh variations” for new bullets."
+            >
+              Saved result
+            </Badge>
+          )}
         </div>
 
         {/* Action buttons */}
@@ -153,6 +934,7 @@ export function BulletResults({ bullets, onGenerateNew }: BulletResultsProps) {
             variant="ghost"
             size="sm"
             onClick={handleCopyAll}
+            disabled={isStreaming}
             className="hidden sm:inline-flex"
           >
             {allCopied ? (
@@ -172,6 +954,7 @@ export function BulletResults({ bullets, onGenerateNew }: BulletResultsProps) {
             variant="ghost"
             size="sm"
             onClick={handleDownload}
+            disabled={isStreaming}
             className="hidden sm:inline-flex"
           >
             <DownloadIcon size={16} />
@@ -180,13 +963,70 @@ export function BulletResults({ bullets, onGenerateNew }: BulletResultsProps) {
         </div>
       </div>
 
-      {/* Bullets list */}
-      <div className="p-4 space-y-3">
-        {bullets.map((bullet, index) => (
-          <BulletItem key={index} bullet={bullet} index={index} />
-        ))}
+      {/* Bullets list, grouped by role for multi-role generations */}
+      <div className={cn("p-4", groups ? "space-y-6" : "space-y-3")}>
+        {groups
+          ? groups.map((group, i) => (
+              <BulletGroup
+                key={i}
+                group={group}
+                choices={choices}
+                onChoose={handleChoose}
+                fills={fills}
+                onFill={handleFill}
+                onRefine={isStreaming || !onRefine ? undefined : handleRefine}
+                onExpandStory={isStreaming ? undefined : onExpandStory}
+              />
+            ))
+          : bullets.map((bullet, index) => (
+              <BulletItem
+                key={index}
+                bullet={bullet}
+                index={index}
+                choice={choices[bullet.text]}
+                onChoose={handleChoose}
+                values={
+                  fills[choosePhrasing(bullet, choices[bullet.text]).text]
+                }
+                onFill={handleFill}
+                onRefine={isStreaming || !onRefine ? undefined : handleRefine}
+                onExpandStory={isStreaming ? undefined : onExpandStory}
+              />
+            ))}
+
+        {/* Placeholder for the bullet currently being written */}
+        {isStreaming && <SkeletonBullet />}
       </div>
 
+      {/* Feedback */}
+      {onFeedback && !isStreaming && (
+        <div className="flex items-center justify-end gap-2 px-4 pb-3 text-sm text-gray-500 dark:text-gray-400">
+          {feedback ? (
+            <span>Thanks for the feedback!</span>
+          ) : (
+            <>
+              <span>Were these helpful?</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onFeedback("up")}
+                aria-label="Helpful"
+              >
+                👍
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onFeedback("down")}
+                aria-label="Not helpful"
+              >
+                👎
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+
       {/* Footer */}
       <div className="p-4 border-t border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/50">
         <div className="flex flex-col sm:flex-row items-center justify-between gap-4">
@@ -196,6 +1036,7 @@ export function BulletResults({ bullets, onGenerateNew }: BulletResultsProps) {
               variant="outline"
               size="sm"
               onClick={handleCopyAll}
+              disabled={isStreaming}
               className="flex-1"
             >
               {allCopied ? (
@@ -215,6 +1056,7 @@ export function BulletResults({ bullets, onGenerateNew }: BulletResultsProps) {
               variant="outline"
               size="sm"
               onClick={handleDownload}
+              disabled={isStreaming}
               className="flex-1"
             >
               <DownloadIcon size={16} />
@@ -224,12 +1066,18 @@ export function BulletResults({ bullets, onGenerateNew }: BulletResultsProps) {
 
           {/* Tips */}
           <p className="text-sm text-gray-500 dark:text-gray-400">
-            💡 Tip: Customize these bullets with your specific metrics and
-            achievements
+            {hasUnfilled
+              ? "💡 Tip: Fill in the highlighted placeholders with your real figures before copying"
+              : "💡 Tip: Customize these bullets with your specific metrics and achievements"}
           </p>
 
           {/* Generate new button */}
-          <Button variant="secondary" size="sm" onClick={onGenerateNew}>
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={onGenerateNew}
+            disabled={isStreaming}
+          >
             Generate New
           </Button>
         </div>
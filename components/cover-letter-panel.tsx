@@ -0,0 +1,387 @@
+"use client"
+
+import { useState, useTransition } from "react"
+import {
+  Button,
+  Card,
+  Badge,
+  Select,
+  CopyIcon,
+  CheckIcon,
+  DownloadIcon,
+  RefreshIcon,
+} from "@/components/ui"
+import { PrivacyPanel } from "@/components/privacy-panel"
+import {
+  COVER_LETTER_LENGTH_LABELS,
+  COVER_LETTER_TONE_LABELS,
+} from "@/lib/prompts"
+import {
+  COVER_LETTER_LENGTHS,
+  COVER_LETTER_TONES,
+  type CoverLetterLength,
+  type CoverLetterParagraphResponse,
+  type CoverLetterResponse,
+  type CoverLetterTone,
+  type Redaction,
+} from "@/lib/validation"
+import { cn } from "@/lib/utils"
+
+/**
+ * Props for the CoverLetterPanel component.
+ */
+export interface CoverLetterPanelProps {
+  /** Job description the bullets were generated for */
+  jobDescription: string
+  /** Experience text the bullets were generated from */
+  experience: string
+  /** Generated bullet texts, offered as extra material for the letter */
+  bullets: string[]
+  /** Replace personal details with placeholders before calling the LLM */
+  redactPii: boolean
+  /** Current license key (if any) */
+  licenseKey?: string
+  /** Callback when a request fails */
+  onError: (error: string, code?: string) => void
+}
+
+/**
+ * Props for a single cover letter paragraph.
+ */
+interface ParagraphItemProps {
+  text: string
+  index: number
+  onRegenerate: (index: number, instruction?: string) => Promise<void>
+}
+
+/**
+ * Shared request body for both cover letter routes.
+ */
+type LetterInputs = Pick<
+  CoverLetterPanelProps,
+  "jobDescription" | "experience" | "redactPii" | "licenseKey"
+> & { length: CoverLetterLength; tone: CoverLetterTone }
+
+/**
+ * Posts to a cover letter route, reporting failures through `onError`.
+ *
+ * @returns Parsed response, or null when the request failed
+ */
+async function postLetterRequest<T>(
+  url: string,
+  body: object,
+  onError: CoverLetterPanelProps["onError"]
+): Promise<T | null> {
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    })
+
+    const data = await response.json()
+
+    if (!response.ok) {
+      onError(
+        data.message || "Failed to write cover letter. Please try again.",
+        data.code
+      )
+      return null
+    }
+
+    return data as T
+  } catch (err) {
+    console.error("Cover letter error:", err)
+    onError("Network error. Please check your connection and try again.")
+    return null
+  }
+}
+
+/**
+ * One paragraph of the letter with its regenerate controls.
+ */
+function ParagraphItem({ text, index, onRegenerate }: ParagraphItemProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [instruction, setInstruction] = useState("")
+  const [isRegenerating, startRegenerating] = useTransition()
+
+  const handleRegenerate = () => {
+    startRegenerating(async () => {
+      await onRegenerate(index, instruction.trim() || undefined)
+      setIsOpen(false)
+      setInstruction("")
+    })
+  }
+
+  return (
+    <div
+      className={cn(
+        "group relative rounded-lg p-4 pr-12",
+        "border border-gray-200 dark:border-gray-700",
+        "hover:border-brand-300 dark:hover:border-brand-700",
+        "transition-colors duration-150",
+        isRegenerating && "opacity-60"
+      )}
+      aria-busy={isRegenerating}
+    >
+      <p className="text-gray-700 dark:text-gray-300 leading-relaxed">{text}</p>
+
+      {isOpen && (
+        <form
+          className="mt-3 flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault()
+            handleRegenerate()
+          }}
+        >
+          <input
+            type="text"
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            placeholder="Optional instruction, e.g. mention the mentoring work"
+            maxLength={200}
+            disabled={isRegenerating}
+            className={cn(
+              "flex-1 min-w-0 rounded-lg border px-3 py-1.5 text-sm",
+              "border-gray-300 dark:border-gray-600",
+              "dark:bg-gray-900 dark:text-gray-100",
+              "focus:outline-none focus:ring-2 focus:border-brand-500 focus:ring-brand-500/20"
+            )}
+          />
+          <Button
+            type="submit"
+            size="sm"
+            isLoading={isRegenerating}
+            loadingText="Rewriting..."
+          >
+            Regenerate
+          </Button>
+        </form>
+      )}
+
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        disabled={isRegenerating}
+        className={cn(
+          "absolute right-2 top-2 p-2 rounded-md",
+          "text-gray-400 hover:text-gray-600",
+          "dark:text-gray-500 dark:hover:text-gray-300",
+          "hover:bg-gray-100 dark:hover:bg-gray-800",
+          "opacity-0 group-hover:opacity-100 focus:opacity-100",
+          isOpen && "opacity-100 text-brand-600 dark:text-brand-400"
+        )}
+        title="Regenerate this paragraph"
+        aria-label={`Regenerate paragraph ${index + 1}`}
+        aria-expanded={isOpen}
+      >
+        <RefreshIcon
+          size={18}
+          className={cn(isRegenerating && "animate-spin")}
+        />
+      </button>
+    </div>
+  )
+}
+
+/**
+ * Writes a cover letter from the same inputs as the bullets, with length
+ * and tone presets and per-paragraph regeneration.
+ */
+export function CoverLetterPanel({
+  jobDescription,
+  experience,
+  bullets,
+  redactPii,
+  licenseKey,
+  onError,
+}: CoverLetterPanelProps) {
+  const [length, setLength] = useState<CoverLetterLength>("standard")
+  const [tone, setTone] = useState<CoverLetterTone>("professional")
+  const [useBullets, setUseBullets] = useState(true)
+  const [paragraphs, setParagraphs] = useState<string[]>([])
+  const [redactions, setRedactions] = useState<Redaction[]>([])
+  const [remaining, setRemaining] = useState<number | null>(null)
+  // Presets the current letter was written with, reused for regeneration
+  const [letterInputs, setLetterInputs] = useState<LetterInputs | null>(null)
+  const [copied, setCopied] = useState(false)
+  const [isPending, startTransition] = useTransition()
+
+  const handleGenerate = () => {
+    const inputs: LetterInputs = {
+      jobDescription,
+      experience,
+      redactPii,
+      licenseKey,
+      length,
+      tone,
+    }
+
+    startTransition(async () => {
+      const data = await postLetterRequest<CoverLetterResponse>(
+        "/api/cover-letter",
+        { ...inputs, bullets: useBullets ? bullets : [] },
+        onError
+      )
+      if (!data) return
+
+      setParagraphs(data.paragraphs)
+      setRedactions(data.redactions)
+      setRemaining(data.remaining)
+      setLetterInputs(inputs)
+    })
+  }
+
+  /**
+   * Rewrites one paragraph, keeping the others as context.
+   */
+  const handleRegenerate = async (index: number, instruction?: string) => {
+    if (!letterInputs) return
+
+    const data = await postLetterRequest<CoverLetterParagraphResponse>(
+      "/api/cover-letter/paragraph",
+      {
+        ...letterInputs,
+        paragraphs,
+        index,
+        ...(instruction && { instruction }),
+      },
+      onError
+    )
+    if (!data) return
+
+    setParagraphs((prev) =>
+      prev.map((p, i) => (i === data.index ? data.paragraph : p))
+    )
+  }
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(paragraphs.join("\n\n"))
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (error) {
+      console.error("Failed to copy cover letter:", error)
+    }
+  }
+
+  const handleDownload = () => {
+    const blob = new Blob([paragraphs.join("\n\n")], { type: "text/plain" })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement("a")
+    a.href = url
+    a.download = "cover-letter.txt"
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <Card padded={false} className="overflow-hidden">
+      {/* Header */}
+      <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+        <div className="flex items-center gap-3">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+            Cover Letter
+          </h2>
+          {remaining !== null && (
+            <Badge size="sm">
+              {remaining >= 999 ? "Unlimited" : `${remaining} left`}
+            </Badge>
+          )}
+        </div>
+
+        {paragraphs.length > 0 && (
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="sm" onClick={handleCopy}>
+              {copied ? <CheckIcon size={16} /> : <CopyIcon size={16} />}
+              {copied ? "Copied!" : "Copy"}
+            </Button>
+            <Button variant="ghost" size="sm" onClick={handleDownload}>
+              <DownloadIcon size={16} />
+              Download
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="p-4 space-y-4">
+        {/* Presets */}
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <Select
+            label="Length"
+            value={length}
+            onChange={(e) => setLength(e.target.value as CoverLetterLength)}
+            disabled={isPending}
+          >
+            {COVER_LETTER_LENGTHS.map((value) => (
+              <option key={value} value={value}>
+                {COVER_LETTER_LENGTH_LABELS[value].label}
+              </option>
+            ))}
+          </Select>
+
+          <Select
+            label="Tone"
+            value={tone}
+            onChange={(e) => setTone(e.target.value as CoverLetterTone)}
+            disabled={isPending}
+          >
+            {COVER_LETTER_TONES.map((value) => (
+              <option key={value} value={value}>
+                {COVER_LETTER_TONE_LABELS[value].label}
+              </option>
+            ))}
+          </Select>
+        </div>
+
+        {bullets.length > 0 && (
+          <label className="flex items-start gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={useBullets}
+              onChange={(e) => setUseBullets(e.target.checked)}
+              disabled={isPending}
+              className="mt-0.5 h-4 w-4 rounded border-gray-300 text-brand-600 focus:ring-brand-500"
+            />
+            <span>
+              Use my generated bullets
+              <span className="block text-xs text-gray-500 dark:text-gray-400">
+                Draws on the achievements in your bullets as well as your
+                experience
+              </span>
+            </span>
+          </label>
+        )}
+
+        <Button
+          onClick={handleGenerate}
+          isLoading={isPending}
+          loadingText="Writing..."
+          variant={paragraphs.length > 0 ? "outline" : "primary"}
+        >
+          {paragraphs.length > 0 ? "Write a new letter" : "Write cover letter"}
+        </Button>
+
+        {/* Letter body, one card per paragraph */}
+        {paragraphs.length > 0 && (
+          <div className={cn("space-y-3", isPending && "opacity-60")}>
+            {paragraphs.map((text, index) => (
+              <ParagraphItem
+                key={index}
+                text={text}
+                index={index}
+                onRegenerate={handleRegenerate}
+              />
+            ))}
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Add your greeting and sign-off before sending. Regenerating a
+              paragraph does not use up a cover letter.
+            </p>
+            <PrivacyPanel redactions={redactions} />
+          </div>
+        )}
+      </div>
+    </Card>
+  )
+}
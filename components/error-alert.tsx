@@ -19,6 +19,39 @@ export interface ErrorAlertProps {
   onUpgrade?: () => void
 }
 
+/**
+ * Alert colors per kind of error.
+ * - limit: quota reached (upgrade prompt)
+ * - maintenance: service paused by the spend cap, not the user's fault
+ * - error: everything else
+ */
+const TONES = {
+  limit: {
+    container:
+      "bg-amber-50 border-amber-200 dark:bg-amber-900/20 dark:border-amber-800",
+    icon: "text-amber-600 dark:text-amber-400",
+    text: "text-amber-800 dark:text-amber-200",
+    dismiss:
+      "text-amber-500 hover:text-amber-700 hover:bg-amber-100 dark:hover:bg-amber-900/40",
+  },
+  maintenance: {
+    container:
+      "bg-gray-50 border-gray-200 dark:bg-gray-800/50 dark:border-gray-700",
+    icon: "text-gray-500 dark:text-gray-400",
+    text: "text-gray-700 dark:text-gray-200",
+    dismiss:
+      "text-gray-400 hover:text-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700",
+  },
+  error: {
+    container:
+      "bg-red-50 border-red-200 dark:bg-red-900/20 dark:border-red-800",
+    icon: "text-red-600 dark:text-red-400",
+    text: "text-red-800 dark:text-red-200",
+    dismiss:
+      "text-red-500 hover:text-red-700 hover:bg-red-100 dark:hover:bg-red-900/40",
+  },
+} as const
+
 /**
  * Error alert component for displaying error messages.
  */
@@ -30,6 +63,9 @@ export function ErrorAlert({
   onUpgrade,
 }: ErrorAlertProps) {
   const isLimitError = code === "LIMIT_REACHED"
+  const isMaintenance = code === "BUDGET_EXCEEDED"
+  const tone =
+    TONES[isLimitError ? "limit" : isMaintenance ? "maintenance" : "error"]
 
   return (
     <div
@@ -37,31 +73,21 @@ export function ErrorAlert({
       className={cn(
         "relative flex items-start gap-3 p-4 rounded-lg",
         "border",
-        isLimitError
-          ? "bg-amber-50 border-amber-200 dark:bg-amber-900/20 dark:border-amber-800"
-          : "bg-red-50 border-red-200 dark:bg-red-900/20 dark:border-red-800"
+        tone.container
       )}
     >
       {/* Icon */}
-      <AlertCircleIcon
-        size={20}
-        className={cn(
-          "shrink-0 mt-0.5",
-          isLimitError
-            ? "text-amber-600 dark:text-amber-400"
-            : "text-red-600 dark:text-red-400"
-        )}
-      />
+      <AlertCircleIcon size={20} className={cn("shrink-0 mt-0.5", tone.icon)} />
 
       {/* Content */}
       <div className="flex-1 min-w-0">
+        {isMaintenance && (
+          <p className={cn("text-sm font-semibold mb-1", tone.text)}>
+            Temporarily unavailable
+          </p>
+        )}
         <p
-          className={cn(
-            "text-sm font-medium",
-            isLimitError
-              ? "text-amber-800 dark:text-amber-200"
-              : "text-red-800 dark:text-red-200"
-          )}
+          className={cn("text-sm", !isMaintenance && "font-medium", tone.text)}
         >
           {message}
         </p>
@@ -89,9 +115,7 @@ export function ErrorAlert({
           className={cn(
             "shrink-0 p-1 rounded-md",
             "transition-colors",
-            isLimitError
-              ? "text-amber-500 hover:text-amber-700 hover:bg-amber-100 dark:hover:bg-amber-900/40"
-              : "text-red-500 hover:text-red-700 hover:bg-red-100 dark:hover:bg-red-900/40"
+            tone.dismiss
           )}
           aria-label="Dismiss error"
         >
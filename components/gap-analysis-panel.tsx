@@ -0,0 +1,162 @@
+"use client"
+
+import { Card, Badge, CheckIcon, AlertCircleIcon, XIcon } from "@/components/ui"
+import type {
+  GapAnalysis,
+  GapStatus,
+  RequirementGap,
+  RequirementPriority,
+} from "@/lib/validation"
+import { cn } from "@/lib/utils"
+
+/**
+ * Props for the GapAnalysisPanel component.
+ */
+export interface GapAnalysisPanelProps {
+  /** Requirements checked against the experience */
+  analysis: GapAnalysis
+  /** Callback to hide the checklist */
+  onDismiss?: () => void
+}
+
+/**
+ * Headings for each requirement group.
+ */
+const PRIORITY_LABELS: Record<RequirementPriority, string> = {
+  "must-have": "Must-have",
+  "nice-to-have": "Nice-to-have",
+}
+
+/**
+ * Icon, colour and screen reader label for each status.
+ */
+const STATUS_STYLES: Record<
+  GapStatus,
+  { icon: typeof CheckIcon; className: string; label: string }
+> = {
+  supported: {
+    icon: CheckIcon,
+    className: "text-green-600 dark:text-green-400",
+    label: "Backed up",
+  },
+  partial: {
+    icon: AlertCircleIcon,
+    className: "text-amber-600 dark:text-amber-400",
+    label: "Partly backed up",
+  },
+  missing: {
+    icon: XIcon,
+    className: "text-red-600 dark:text-red-400",
+    label: "Not backed up",
+  },
+}
+
+/**
+ * One requirement with its evidence or suggestion.
+ */
+function RequirementItem({ item }: { item: RequirementGap }) {
+  const { icon: Icon, className, label } = STATUS_STYLES[item.status]
+
+  return (
+    <li className="flex items-start gap-3">
+      <span className={cn("mt-0.5", className)} title={label}>
+        <Icon size={18} />
+        <span className="sr-only">{label}:</span>
+      </span>
+      <div className="min-w-0 space-y-0.5">
+        <p className="text-sm text-gray-900 dark:text-gray-100">
+          {item.requirement}
+        </p>
+        {item.evidence && (
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            From your experience: “{item.evidence}”
+          </p>
+        )}
+        {item.suggestion && (
+          <p className="text-xs text-brand-700 dark:text-brand-300">
+            {item.suggestion}
+          </p>
+        )}
+      </div>
+    </li>
+  )
+}
+
+/**
+ * Checklist of the job's requirements, showing which ones the experience
+ * backs up and what to add for the rest.
+ */
+export function GapAnalysisPanel({
+  analysis,
+  onDismiss,
+}: GapAnalysisPanelProps) {
+  const groups = (["must-have", "nice-to-have"] as const)
+    .map((priority) => ({
+      priority,
+      items: analysis.requirements.filter((r) => r.priority === priority),
+    }))
+    .filter(({ items }) => items.length > 0)
+
+  const supported = analysis.requirements.filter(
+    (r) => r.status === "supported"
+  ).length
+
+  return (
+    <Card className="space-y-5">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+            Requirements Check
+          </h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {analysis.requirements.length > 0
+              ? `${supported} of ${analysis.requirements.length} requirements are backed up by your experience`
+              : "No requirement list found in this job description"}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {analysis.requirements.length > 0 && (
+            <Badge
+              variant={
+                analysis.score >= 70
+                  ? "success"
+                  : analysis.score >= 40
+                    ? "warning"
+                    : "error"
+              }
+              title="Share of must-haves backed up, partial matches counting half"
+            >
+              {analysis.score}% fit
+            </Badge>
+          )}
+          {onDismiss && (
+            <button
+              type="button"
+              onClick={onDismiss}
+              className="p-1 rounded-md text-gray-400 hover:text-gray-600 hover:bg-gray-100 dark:hover:bg-gray-800"
+              aria-label="Hide requirements check"
+            >
+              <XIcon size={16} />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {groups.map(({ priority, items }) => (
+        <div key={priority}>
+          <h3 className="mb-2 text-sm font-medium text-gray-900 dark:text-gray-100">
+            {PRIORITY_LABELS[priority]}{" "}
+            <span className="text-gray-400 dark:text-gray-500">
+              ({items.length})
+            </span>
+          </h3>
+          <ul className="space-y-3">
+            {items.map((item, i) => (
+              <RequirementItem key={i} item={item} />
+            ))}
+          </ul>
+        </div>
+      ))}
+    </Card>
+  )
+}
@@ -1,21 +1,66 @@
 "use client"
 
-import { useState, useCallback, useTransition } from "react"
-import { Button, Textarea, SparklesIcon } from "@/components/ui"
+import { useState, useCallback, useMemo, useTransition } from "react"
+import { Button, Textarea, Select, SparklesIcon } from "@/components/ui"
+import { RolesInput, EMPTY_ROLE } from "@/components/roles-input"
 import {
   JOB_DESCRIPTION_PLACEHOLDER,
   EXPERIENCE_PLACEHOLDER,
+  EXISTING_BULLETS_PLACEHOLDER,
+  SENIORITY_LABELS,
+  ROLE_FAMILY_LABELS,
+  MAX_BULLETS,
+  parseBulletList,
 } from "@/lib/prompts"
+import { getMaxBullets } from "@/lib/redis"
+import { formatRoles } from "@/lib/roles"
+import { readNdjson } from "@/lib/ndjson"
+import { parseJobDescription } from "@/lib/job-description"
+import {
+  DEFAULT_BULLET_OPTIONS,
+  GENERATION_MODES,
+  MAX_VARIANTS,
+  SENIORITY_LEVELS,
+  ROLE_FAMILIES,
+  type Bullet,
+  type BulletOptions,
+  type GapAnalysis,
+  type GenerateResponse,
+  type GenerationMode,
+  type Role,
+  type GenerateStreamEvent,
+  type RoleFamily,
+  type SeniorityLevel,
+  type WorkplaceType,
+} from "@/lib/validation"
 import { cn } from "@/lib/utils"
 
+/**
+ * Inputs a set of bullets was generated from.
+ */
+export interface GenerationInputs {
+  jobDescription: string
+  /** Experience text (all roles joined, when given per role) */
+  experience: string
+  /** Positions the bullets were written for (multi-role) */
+  roles?: Role[]
+  options: BulletOptions
+  /** Replace personal details with placeholders before calling the LLM */
+  redactPii: boolean
+}
+
 /**
  * Props for the GeneratorForm component.
  */
 export interface GeneratorFormProps {
   /** Callback when generation is successful */
-  onGenerate: (bullets: string[]) => void
+  onGenerate: (result: GenerateResponse, inputs: GenerationInputs) => void
+  /** Callback as bullets stream in (receives all bullets so far) */
+  onProgress?: (bullets: Bullet[]) => void
   /** Callback when an error occurs */
   onError: (error: string, code?: string) => void
+  /** Callback with the requirements check (button hidden when not provided) */
+  onAnalyze?: (analysis: GapAnalysis) => void
   /** Current license key (if any) */
   licenseKey?: string
   /** Remaining generations */
@@ -40,13 +85,98 @@ const LIMITS = {
   },
 } as const
 
+/**
+ * Bullet length presets (words per bullet).
+ */
+const LENGTH_PRESETS = {
+  concise: { label: "Concise (10–16 words)", range: { min: 10, max: 16 } },
+  standard: {
+    label: "Standard (14–22 words)",
+    range: DEFAULT_BULLET_OPTIONS.wordRange,
+  },
+  detailed: { label: "Detailed (20–30 words)", range: { min: 20, max: 30 } },
+} as const
+
+type LengthPreset = keyof typeof LENGTH_PRESETS
+
+/**
+ * Display names for where a job is done.
+ */
+const WORKPLACE_LABELS: Record<WorkplaceType, string> = {
+  remote: "Remote",
+  hybrid: "Hybrid",
+  "on-site": "On-site",
+}
+
+/**
+ * Wording of the form in each generation mode.
+ */
+const MODE_COPY: Record<
+  GenerationMode,
+  {
+    label: string
+    experienceLabel: string
+    experienceHelp: string
+    placeholder: string
+    submit: string
+    loading: string
+  }
+> = {
+  generate: {
+    label: "Write new bullets",
+    experienceLabel: "Your Experience",
+    experienceHelp: "Describe your relevant skills, projects, and achievements",
+    placeholder: EXPERIENCE_PLACEHOLDER,
+    submit: "Generate Bullet Points",
+    loading: "Generating...",
+  },
+  rewrite: {
+    label: "Improve my existing bullets",
+    experienceLabel: "Your Current Bullets",
+    experienceHelp: "One bullet per line; each one is rewritten for this job",
+    placeholder: EXISTING_BULLETS_PLACEHOLDER,
+    submit: "Rewrite My Bullets",
+    loading: "Rewriting...",
+  },
+}
+
+/**
+ * Checks the positions in a multi-role request.
+ *
+ * @returns The first problem found, or null if the roles can be sent
+ */
+function validateRoles(roles: Role[], bulletCount: number): string | null {
+  const incomplete = roles.findIndex(
+    (role) =>
+      !role.company.trim() ||
+      !role.title.trim() ||
+      role.notes.trim().length < LIMITS.experience.min
+  )
+  if (incomplete !== -1) {
+    return `Role ${incomplete + 1} needs a title, a company and at least ${LIMITS.experience.min} characters of notes`
+  }
+
+  const notesLength = roles.reduce((n, role) => n + role.notes.length, 0)
+  if (notesLength > LIMITS.experience.max) {
+    return `Role notes must be less than ${LIMITS.experience.max.toLocaleString()} characters in total`
+  }
+
+  if (bulletCount < roles.length) {
+    return `Choose at least ${roles.length} bullets, one per role`
+  }
+
+  return null
+}
+
 /**
  * Main form for generating resume bullet points.
  * Handles input validation, API calls, and loading states.
  */
 export function GeneratorForm({
   onGenerate,
+  onProgress,
   onError,
+  onAnalyze,
   licenseKey,
   remaining,
   tier,
@@ -56,14 +186,43 @@ export function GeneratorForm({
   const [jobDescription, setJobDescription] = useState("")
   const [experience, setExperience] = useState("")
 
+  // Bullet options ("" means let the model infer from the inputs)
+  const [bulletCount, setBulletCount] = useState<number>(
+    DEFAULT_BULLET_OPTIONS.bulletCount
+  )
+  const [lengthPreset, setLengthPreset] = useState<LengthPreset>("standard")
+  const [seniority, setSeniority] = useState<SeniorityLevel | "">("")
+  const [roleFamily, setRoleFamily] = useState<RoleFamily | "">("")
+  const [autoFix, setAutoFix] = useState(false)
+  const [metricPlaceholders, setMetricPlaceholders] = useState(false)
+  // Phrasings per bullet; 1 means no alternatives
+  const [variants, setVariants] = useState(1)
+  const [fresh, setFresh] = useState(false)
+  const [redactPii, setRedactPii] = useState(true)
+  const [mode, setMode] = useState<GenerationMode>("generate")
+  const [splitByRole, setSplitByRole] = useState(false)
+  const [roles, setRoles] = useState<Role[]>([EMPTY_ROLE])
+
+  // Larger bullet sets are limited by tier
+  const maxBullets = getMaxBullets(tier)
+
+  // In rewrite mode the bullet count is the number of pasted bullets
+  const existingBullets = mode === "rewrite" ? parseBulletList(experience) : []
+  const copy = MODE_COPY[mode]
+
+  // Positions are only used when writing new bullets
+  const useRoles = splitByRole && mode === "generate"
+
   // Validation state
   const [errors, setErrors] = useState<{
     jobDescription?: string
     experience?: string
+    roles?: string
   }>({})
 
   // Loading state using React 19 useTransition for better UX
   const [isPending, startTransition] = useTransition()
+  const [isAnalyzing, startAnalyzing] = useTransition()
 
   /**
    * Validates the form inputs.
@@ -79,16 +238,32 @@ export function GeneratorForm({
       newErrors.jobDescription = `Job description must be less than ${LIMITS.jobDescription.max.toLocaleString()} characters`
     }
 
-    // Validate experience
-    if (experience.trim().length < LIMITS.experience.min) {
+    // Validate experience, given as text or per role
+    if (useRoles) {
+      const roleError = validateRoles(roles, Math.min(bulletCount, maxBullets))
+      if (roleError) newErrors.roles = roleError
+    } else if (experience.trim().length < LIMITS.experience.min) {
       newErrors.experience = `Experience must be at least ${LIMITS.experience.min} characters`
     } else if (experience.length > LIMITS.experience.max) {
       newErrors.experience = `Experience must be less than ${LIMITS.experience.max.toLocaleString()} characters`
+    } else if (existingBullets.length > Math.min(maxBullets, MAX_BULLETS)) {
+      newErrors.experience =
+        maxBullets < MAX_BULLETS
+          ? `Your plan rewrites up to ${maxBullets} bullets at a time. Upgrade for more.`
+          : `Paste at most ${MAX_BULLETS} bullets at a time`
     }
 
     setErrors(newErrors)
     return Object.keys(newErrors).length === 0
-  }, [jobDescription, experience])
+  }, [
+    jobDescription,
+    experience,
+    existingBullets.length,
+    maxBullets,
+    useRoles,
+    roles,
+    bulletCount,
+  ])
 
   /**
    * Handles form submission.
@@ -113,6 +288,33 @@ export function GeneratorForm({
     // Clear previous errors
     setErrors({})
 
+    const trimmedRoles = useRoles
+      ? roles.map((role) => ({
+          company: role.company.trim(),
+          title: role.title.trim(),
+          notes: role.notes.trim(),
+          ...(role.dates?.trim() && { dates: role.dates.trim() }),
+        }))
+      : undefined
+
+    const inputs: GenerationInputs = {
+      jobDescription: jobDescription.trim(),
+      experience: trimmedRoles ? formatRoles(trimmedRoles) : experience.trim(),
+      ...(trimmedRoles && { roles: trimmedRoles }),
+      options: {
+        bulletCount:
+          mode === "rewrite"
+            ? existingBullets.length
+            : Math.min(bulletCount, maxBullets),
+        wordRange: LENGTH_PRESETS[lengthPreset].range,
+        ...(seniority && { seniority }),
+        ...(roleFamily && { roleFamily }),
+        ...(metricPlaceholders && { metricPlaceholders }),
+        ...(variants > 1 && { variants }),
+      },
+      redactPii,
+    }
+
     // Use transition for better loading UX
     startTransition(async () => {
       try {
@@ -122,16 +324,21 @@ export function GeneratorForm({
             "Content-Type": "application/json",
           },
           body: JSON.stringify({
-            jobDescription: jobDescription.trim(),
-            experience: experience.trim(),
+            ...inputs,
+            // Roles replace the experience text, which is kept in inputs
+            // for refinement and the coverage report
+            experience: inputs.roles ? undefined : inputs.experience,
             ...(licenseKey && { licenseKey }),
+            stream: true,
+            autoFix,
+            fresh,
+            mode,
           }),
         })
 
-        const data = await response.json()
-
-        if (!response.ok) {
-          // Handle specific error codes
+        if (!response.ok || !response.body) {
+          // Errors before streaming starts are plain JSON
+          const data = await response.json()
           const errorCode = data.code || "UNKNOWN_ERROR"
           const errorMessage =
             data.message || "An error occurred. Please try again."
@@ -139,12 +346,26 @@ export function GeneratorForm({
           return
         }
 
-        // Success - pass bullets to parent
-        if (data.bullets && Array.isArray(data.bullets)) {
-          onGenerate(data.bullets)
-        } else {
-          onError("Invalid response from server. Please try again.")
+        // Render bullets as they arrive; the final event confirms the set
+        const streamed: Bullet[] = []
+        for await (const event of readNdjson<GenerateStreamEvent>(
+          response.body
+        )) {
+          switch (event.type) {
+            case "bullet":
+              streamed[event.index] = event.bullet
+              onProgress?.([...streamed])
+              break
+            case "done":
+              onGenerate(event, inputs)
+              return
+            case "error":
+              onError(event.message, event.code)
+              return
+          }
         }
+
+        onError("Invalid response from server. Please try again.")
       } catch (error) {
         console.error("Generation error:", error)
         onError("Network error. Please check your connection and try again.")
@@ -152,12 +373,49 @@ export function GeneratorForm({
     })
   }
 
+  /**
+   * Checks the job's requirements against the experience. Free, so it
+   * works at the usage limit too.
+   */
+  const handleAnalyze = () => {
+    if (!onAnalyze || !validateForm()) return
+
+    startAnalyzing(async () => {
+      try {
+        const response = await fetch("/api/gap-analysis", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            jobDescription: jobDescription.trim(),
+            experience: useRoles ? formatRoles(roles) : experience.trim(),
+          }),
+        })
+
+        const data = await response.json()
+
+        if (!response.ok) {
+          onError(
+            data.message || "Failed to check requirements. Please try again.",
+            data.code
+          )
+          return
+        }
+
+        onAnalyze(data as GapAnalysis)
+      } catch (error) {
+        console.error("Gap analysis error:", error)
+        onError("Network error. Please check your connection and try again.")
+      }
+    })
+  }
+
   /**
    * Clears the form.
    */
   const handleClear = () => {
     setJobDescription("")
     setExperience("")
+    setRoles([EMPTY_ROLE])
     setErrors({})
   }
 
@@ -165,13 +423,60 @@ export function GeneratorForm({
   const isJobDescValid =
     jobDescription.trim().length >= LIMITS.jobDescription.min &&
     jobDescription.length <= LIMITS.jobDescription.max
+
+  // What the parser found in the posting, shown so the user can check it
+  const posting = useMemo(
+    () => (isJobDescValid ? parseJobDescription(jobDescription) : null),
+    [isJobDescValid, jobDescription]
+  )
+  const postingSummary = posting
+    ? [
+        posting.title,
+        posting.company,
+        posting.workplace && WORKPLACE_LABELS[posting.workplace],
+        posting.yearsRequired !== undefined &&
+          `${posting.yearsRequired}+ years`,
+      ]
+        .filter(Boolean)
+        .join(" · ")
+    : ""
   const isExpValid =
     experience.trim().length >= LIMITS.experience.min &&
     experience.length <= LIMITS.experience.max
-  const canSubmit = isJobDescValid && isExpValid && !isAtLimit && !isPending
+  const canSubmit =
+    isJobDescValid &&
+    (useRoles
+      ? validateRoles(roles, Math.min(bulletCount, maxBullets)) === null
+      : isExpValid) &&
+    !isAtLimit &&
+    !isPending
 
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
+      {/* Mode */}
+      <div
+        className="grid grid-cols-2 gap-2"
+        role="group"
+        aria-label="Generation mode"
+      >
+        {GENERATION_MODES.map((value) => (
+          <Button
+            key={value}
+            type="button"
+            variant={mode === value ? "primary" : "outline"}
+            size="sm"
+            onClick={() => {
+              setMode(value)
+              setErrors((prev) => ({ ...prev, experience: undefined }))
+            }}
+            aria-pressed={mode === value}
+            disabled={isPending}
+          >
+            {MODE_COPY[value].label}
+          </Button>
+        ))}
+      </div>
+
       {/* Job Description Input */}
       <Textarea
         label="Job Description"
@@ -188,31 +493,218 @@ export function GeneratorForm({
         maxLength={LIMITS.jobDescription.max}
         showCount
         currentLength={jobDescription.length}
-        helperText="Paste the full job posting or key requirements"
+        helperText={
+          postingSummary
+            ? `Detected: ${postingSummary}`
+            : "Paste the full job posting or key requirements"
+        }
         className="min-h-[180px]"
         disabled={isPending}
       />
 
       {/* Experience Input */}
-      <Textarea
-        label="Your Experience"
-        placeholder={EXPERIENCE_PLACEHOLDER}
-        value={experience}
-        onChange={(e) => {
-          setExperience(e.target.value)
-          // Clear error when user starts typing
-          if (errors.experience) {
-            setErrors((prev) => ({ ...prev, experience: undefined }))
+      {useRoles ? (
+        <RolesInput
+          roles={roles}
+          onChange={(next) => {
+            setRoles(next)
+            if (errors.roles) {
+              setErrors((prev) => ({ ...prev, roles: undefined }))
+            }
+          }}
+          error={errors.roles}
+          disabled={isPending}
+        />
+      ) : (
+        <Textarea
+          label={copy.experienceLabel}
+          placeholder={copy.placeholder}
+          value={experience}
+          onChange={(e) => {
+            setExperience(e.target.value)
+            // Clear error when user starts typing
+            if (errors.experience) {
+              setErrors((prev) => ({ ...prev, experience: undefined }))
+            }
+          }}
+          error={errors.experience}
+          maxLength={LIMITS.experience.max}
+          showCount
+          currentLength={experience.length}
+          helperText={
+            mode === "rewrite" && existingBullets.length > 0
+              ? `${existingBullets.length} bullet${existingBullets.length === 1 ? "" : "s"} found. ${copy.experienceHelp}`
+              : copy.experienceHelp
           }
-        }}
-        error={errors.experience}
-        maxLength={LIMITS.experience.max}
-        showCount
-        currentLength={experience.length}
-        helperText="Describe your relevant skills, projects, and achievements"
-        className="min-h-37.5"
-        disabled={isPending}
-      />
+          className="min-h-37.5"
+          disabled={isPending}
+        />
+      )}
+
+      {mode === "generate" && (
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={splitByRole}
+            onChange={(e) => setSplitByRole(e.target.checked)}
+            disabled={isPending}
+            className="h-4 w-4 rounded border-gray-300 text-brand-600 focus:ring-brand-500"
+          />
+          Enter my experience role by role
+        </label>
+      )}
+
+      {/* Bullet Options */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <Select
+          label={useRoles ? "Total Bullets" : "Number of Bullets"}
+          value={
+            mode === "rewrite"
+              ? Math.min(existingBullets.length, MAX_BULLETS) || 1
+              : Math.min(bulletCount, maxBullets)
+          }
+          onChange={(e) => setBulletCount(Number(e.target.value))}
+          disabled={isPending || mode === "rewrite"}
+        >
+          {Array.from({ length: MAX_BULLETS }, (_, i) => i + 1).map((count) => (
+            <option key={count} value={count} disabled={count > maxBullets}>
+              {count}
+              {count > maxBullets ? " (upgrade)" : ""}
+            </option>
+          ))}
+        </Select>
+
+        <Select
+          label="Bullet Length"
+          value={lengthPreset}
+          onChange={(e) => setLengthPreset(e.target.value as LengthPreset)}
+          disabled={isPending}
+        >
+          {Object.entries(LENGTH_PRESETS).map(([value, { label }]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </Select>
+
+        <Select
+          label="Seniority"
+          value={seniority}
+          onChange={(e) => setSeniority(e.target.value as SeniorityLevel | "")}
+          disabled={isPending}
+        >
+          <option value="">
+            Match the job description
+            {posting?.seniority &&
+              ` (${SENIORITY_LABELS[posting.seniority].label})`}
+          </option>
+          {SENIORITY_LEVELS.map((level) => (
+            <option key={level} value={level}>
+              {SENIORITY_LABELS[level].label}
+            </option>
+          ))}
+        </Select>
+
+        <Select
+          label="Role Family"
+          value={roleFamily}
+          onChange={(e) => setRoleFamily(e.target.value as RoleFamily | "")}
+          disabled={isPending}
+        >
+          <option value="">Match the job description</option>
+          {ROLE_FAMILIES.map((family) => (
+            <option key={family} value={family}>
+              {ROLE_FAMILY_LABELS[family]}
+            </option>
+          ))}
+        </Select>
+
+        <Select
+          label="Phrasings per Bullet"
+          value={variants}
+          onChange={(e) => setVariants(Number(e.target.value))}
+          helperText="Pick your favorite of each; still one generation"
+          disabled={isPending}
+        >
+          <option value={1}>One</option>
+          {Array.from({ length: MAX_VARIANTS - 1 }, (_, i) => i + 2).map(
+            (count) => (
+              <option key={count} value={count}>
+                {count} to choose from
+              </option>
+            )
+          )}
+        </Select>
+      </div>
+
+      <label className="flex items-start gap-2 text-sm text-gray-700 dark:text-gray-300">
+        <input
+          type="checkbox"
+          checked={autoFix}
+          onChange={(e) => setAutoFix(e.target.checked)}
+          disabled={isPending}
+          className="mt-0.5 h-4 w-4 rounded border-gray-300 text-brand-600 focus:ring-brand-500"
+        />
+        <span>
+          Auto-fix style issues
+          <span className="block text-xs text-gray-500 dark:text-gray-400">
+            Rewrites bullets with clichés, weak verbs, passive voice or the
+            wrong length before showing them
+          </span>
+        </span>
+      </label>
+
+      <label className="flex items-start gap-2 text-sm text-gray-700 dark:text-gray-300">
+        <input
+          type="checkbox"
+          checked={metricPlaceholders}
+          onChange={(e) => setMetricPlaceholders(e.target.checked)}
+          disabled={isPending}
+          className="mt-0.5 h-4 w-4 rounded border-gray-300 text-brand-600 focus:ring-brand-500"
+        />
+        <span>
+          Leave blanks for numbers I&apos;ll fill in
+          <span className="block text-xs text-gray-500 dark:text-gray-400">
+            Writes placeholders like [X% reduction] instead of guessing figures
+            your experience doesn&apos;t give; fill them in before copying
+          </span>
+        </span>
+      </label>
+
+      <label className="flex items-start gap-2 text-sm text-gray-700 dark:text-gray-300">
+        <input
+          type="checkbox"
+          checked={fresh}
+          onChange={(e) => setFresh(e.target.checked)}
+          disabled={isPending}
+          className="mt-0.5 h-4 w-4 rounded border-gray-300 text-brand-600 focus:ring-brand-500"
+        />
+        <span>
+          Generate fresh variations
+          <span className="block text-xs text-gray-500 dark:text-gray-400">
+            Repeating a request normally returns your saved bullets for free;
+            check this to write new ones (uses a generation)
+          </span>
+        </span>
+      </label>
+
+      <label className="flex items-start gap-2 text-sm text-gray-700 dark:text-gray-300">
+        <input
+          type="checkbox"
+          checked={redactPii}
+          onChange={(e) => setRedactPii(e.target.checked)}
+          disabled={isPending}
+          className="mt-0.5 h-4 w-4 rounded border-gray-300 text-brand-600 focus:ring-brand-500"
+        />
+        <span>
+          Hide personal details from the AI provider
+          <span className="block text-xs text-gray-500 dark:text-gray-400">
+            Names, emails, phone numbers, profile links, addresses and salary
+            figures are replaced with placeholders before your text is sent,
+            then restored in your bullets
+          </span>
+        </span>
+      </label>
 
       {/* Action Buttons */}
       <div className="flex flex-col sm:flex-row gap-3">
@@ -221,18 +713,42 @@ export function GeneratorForm({
           size="lg"
           disabled={!canSubmit}
           isLoading={isPending}
-          loadingText="Generating..."
+          loadingText={copy.loading}
           className="flex-1"
         >
           <SparklesIcon size={20} />
-          Generate Bullet Points
+          {copy.submit}
         </Button>
 
-        {(jobDescription || experience) && !isPending && (
-          <Button type="button" variant="ghost" size="lg" onClick={handleClear}>
-            Clear
+        {onAnalyze && (
+          <Button
+            type="button"
+            variant="outline"
+            size="lg"
+            onClick={handleAnalyze}
+            disabled={
+              !isJobDescValid ||
+              (useRoles ? roles.every((r) => !r.notes.trim()) : !isExpValid) ||
+              isPending
+            }
+            isLoading={isAnalyzing}
+            loadingText="Checking..."
+          >
+            Check requirements
           </Button>
         )}
+
+        {(jobDescription || experience || roles.some((r) => r.notes)) &&
+          !isPending && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="lg"
+              onClick={handleClear}
+            >
+              Clear
+            </Button>
+          )}
       </div>
 
       {/* Remaining generations indicator */}
@@ -34,7 +34,7 @@ export function HeroSection() {
           "max-w-2xl mx-auto text-balance"
         )}
       >
-        Paste any job description and your experience. Get 10 tailored,
+        Paste any job description and your experience. Get up to 10 tailored,
         quantified bullet points that pass ATS scans and catch recruiters&apos;
         attention.
       </p>
@@ -20,7 +20,7 @@ const STEPS = [
     number: 3,
     title: "Get Tailored Bullets",
     description:
-      "Receive 10 powerful, quantified bullet points optimized for the specific role. Copy directly to your resume.",
+      "Receive up to 10 powerful, quantified bullet points optimized for the specific role. Copy directly to your resume.",
   },
 ] as const
 
@@ -2,7 +2,13 @@
 // Import from "@/components" instead of individual files
 
 export * from "./generator-form"
+export * from "./roles-input"
 export * from "./bullet-results"
+export * from "./keyword-coverage-panel"
+export * from "./gap-analysis-panel"
+export * from "./cover-letter-panel"
+export * from "./profile-generator"
+export * from "./privacy-panel"
 export * from "./paywall-modal"
 export * from "./license-key-input"
 export * from "./header"
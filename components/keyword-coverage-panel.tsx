@@ -0,0 +1,131 @@
+"use client"
+
+import { useMemo } from "react"
+import { Card, Badge, type BadgeProps } from "@/components/ui"
+import { analyzeCoverage } from "@/lib/keywords"
+import type { Bullet, JobKeyword } from "@/lib/validation"
+import { cn } from "@/lib/utils"
+
+/**
+ * Props for the KeywordCoveragePanel component.
+ */
+export interface KeywordCoveragePanelProps {
+  /** All keywords extracted from the job description */
+  keywords: JobKeyword[]
+  /** Current bullets (the score updates as they change) */
+  bullets: Bullet[]
+  /** Experience text the bullets were generated from */
+  experience: string
+}
+
+/**
+ * Props for a group of keywords with the same coverage status.
+ */
+interface KeywordGroupProps {
+  title: string
+  description: string
+  keywords: JobKeyword[]
+  variant: BadgeProps["variant"]
+}
+
+/**
+ * List of keywords with a heading.
+ */
+function KeywordGroup({
+  title,
+  description,
+  keywords,
+  variant,
+}: KeywordGroupProps) {
+  if (keywords.length === 0) return null
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-gray-900 dark:text-gray-100">
+        {title}{" "}
+        <span className="text-gray-400 dark:text-gray-500">
+          ({keywords.length})
+        </span>
+      </h3>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+        {description}
+      </p>
+      <div className="flex flex-wrap gap-1.5">
+        {keywords.map((keyword) => (
+          <Badge
+            key={`${keyword.category}:${keyword.term}`}
+            variant={variant}
+            size="sm"
+            title={keyword.category}
+          >
+            {keyword.term}
+          </Badge>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * ATS keyword coverage for the current bullets: a match score plus the
+ * job description keywords that are covered, missed, or missing entirely.
+ */
+export function KeywordCoveragePanel({
+  keywords,
+  bullets,
+  experience,
+}: KeywordCoveragePanelProps) {
+  const coverage = useMemo(
+    () => analyzeCoverage(keywords, bullets, experience),
+    [keywords, bullets, experience]
+  )
+
+  const scoreColor =
+    coverage.score >= 70
+      ? "text-green-600 dark:text-green-400"
+      : coverage.score >= 40
+        ? "text-amber-600 dark:text-amber-400"
+        : "text-red-600 dark:text-red-400"
+
+  return (
+    <Card className="space-y-5 lg:sticky lg:top-24">
+      {/* Score */}
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+          Keyword Match
+        </h2>
+        <p className="mt-1 flex items-baseline gap-1">
+          <span className={cn("text-4xl font-bold", scoreColor)}>
+            {coverage.score}
+          </span>
+          <span className="text-sm text-gray-500 dark:text-gray-400">
+            / 100
+          </span>
+        </p>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {coverage.covered.length} of {keywords.length} job description
+          keywords appear in your bullets
+        </p>
+      </div>
+
+      <KeywordGroup
+        title="Covered"
+        description="Used in at least one bullet."
+        keywords={coverage.covered}
+        variant="success"
+      />
+      <KeywordGroup
+        title="Missed"
+        description="In your experience but not in any bullet. Try regenerating a bullet to include them."
+        keywords={coverage.missedInBullets}
+        variant="warning"
+      />
+      <KeywordGroup
+        title="Not in your experience"
+        description="Only add these if they genuinely apply to you."
+        keywords={coverage.missing}
+        variant="default"
+      />
+    </Card>
+  )
+}
@@ -14,6 +14,9 @@ const TIERS = [
     description: "Try it out",
     features: [
       "3 generations per day",
+      "1 cover letter per day",
+      "3 interview stories per day",
+      "1 LinkedIn profile per day",
       "All job industries",
       "STAR format optimization",
       "ATS-friendly output",
@@ -31,6 +34,9 @@ const TIERS = [
     description: "For a single job search",
     features: [
       "50 bullet generations",
+      "20 cover letters",
+      "100 interview stories",
+      "20 LinkedIn profiles",
       "All job industries",
       "STAR format optimization",
       "ATS-friendly output",
@@ -49,6 +55,9 @@ const TIERS = [
     description: "Unlimited forever",
     features: [
       "Unlimited generations",
+      "Unlimited cover letters",
+      "Unlimited interview stories",
+      "Unlimited LinkedIn profiles",
       "All job industries",
       "STAR format optimization",
       "ATS-friendly output",
@@ -181,8 +190,8 @@ export function PricingSection({ currentTier = "free" }: PricingSectionProps) {
                   isCurrentTier
                     ? "secondary"
                     : tier.popular
-                    ? "primary"
-                    : "outline"
+                      ? "primary"
+                      : "outline"
                 }
                 fullWidth
                 disabled={
@@ -0,0 +1,75 @@
+"use client"
+
+import { useState } from "react"
+import { Card, Badge } from "@/components/ui"
+import type { PiiKind, Redaction } from "@/lib/validation"
+
+/**
+ * Props for the PrivacyPanel component.
+ */
+export interface PrivacyPanelProps {
+  /** Values replaced before the inputs were sent to the LLM provider */
+  redactions: Redaction[]
+}
+
+/**
+ * Display labels for redacted kinds.
+ */
+const KIND_LABELS: Record<PiiKind, string> = {
+  email: "Email",
+  phone: "Phone",
+  url: "Profile link",
+  address: "Address",
+  salary: "Salary",
+  name: "Name",
+}
+
+/**
+ * Shows which personal details were kept from the LLM provider and the
+ * placeholder it saw instead of each one.
+ */
+export function PrivacyPanel({ redactions }: PrivacyPanelProps) {
+  const [isOpen, setIsOpen] = useState(false)
+
+  if (redactions.length === 0) return null
+
+  return (
+    <Card className="space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-sm text-gray-700 dark:text-gray-300">
+          🔒 {redactions.length} personal detail
+          {redactions.length === 1 ? " was" : "s were"} replaced before your
+          text was sent to the AI provider.
+        </p>
+        <button
+          type="button"
+          onClick={() => setIsOpen((open) => !open)}
+          className="shrink-0 text-sm font-medium text-brand-600 hover:text-brand-700 dark:text-brand-400"
+          aria-expanded={isOpen}
+        >
+          {isOpen ? "Hide" : "Show what was redacted"}
+        </button>
+      </div>
+
+      {isOpen && (
+        <ul className="space-y-1.5 text-sm">
+          {redactions.map((redaction) => (
+            <li
+              key={redaction.placeholder}
+              className="flex flex-wrap items-center gap-2"
+            >
+              <Badge size="sm">{KIND_LABELS[redaction.kind]}</Badge>
+              <span className="text-gray-900 dark:text-gray-100">
+                {redaction.value}
+              </span>
+              <span className="text-gray-400">→</span>
+              <code className="text-xs text-gray-500 dark:text-gray-400">
+                {redaction.placeholder}
+              </code>
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,284 @@
+"use client"
+
+import { useState, useTransition } from "react"
+import {
+  Button,
+  Card,
+  Badge,
+  Textarea,
+  CopyIcon,
+  CheckIcon,
+  SparklesIcon,
+} from "@/components/ui"
+import { PrivacyPanel } from "@/components/privacy-panel"
+import { EXPERIENCE_PLACEHOLDER } from "@/lib/prompts"
+import {
+  LINKEDIN_LIMITS,
+  type ProfileResponse,
+  type Redaction,
+} from "@/lib/validation"
+import { cn } from "@/lib/utils"
+
+/**
+ * Props for the ProfileGenerator component.
+ */
+export interface ProfileGeneratorProps {
+  /** Experience entered in the bullet generator, offered as a shortcut */
+  suggestedExperience?: string
+  /** Current license key (if any) */
+  licenseKey?: string
+  /** Callback after a profile is written */
+  onGenerate: () => void
+  /** Callback when a request fails */
+  onError: (error: string, code?: string) => void
+}
+
+/**
+ * Generated profile fields shown to the user.
+ */
+type Profile = Pick<ProfileResponse, "headlines" | "about">
+
+/**
+ * Copy button with a brief "copied" state.
+ */
+function CopyButton({ text, label }: { text: string; label: string }) {
+  const [copied, setCopied] = useState(false)
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (error) {
+      console.error("Failed to copy:", error)
+    }
+  }
+
+  return (
+    <button
+      onClick={handleCopy}
+      className={cn(
+        "flex-shrink-0 p-2 rounded-md",
+        "text-gray-400 hover:text-gray-600",
+        "dark:text-gray-500 dark:hover:text-gray-300",
+        "hover:bg-gray-100 dark:hover:bg-gray-800",
+        copied && "text-green-600 dark:text-green-400"
+      )}
+      title={copied ? "Copied!" : "Copy to clipboard"}
+      aria-label={copied ? "Copied to clipboard" : label}
+    >
+      {copied ? <CheckIcon size={18} /> : <CopyIcon size={18} />}
+    </button>
+  )
+}
+
+/**
+ * Character count against a LinkedIn field size.
+ */
+function CharCount({ length, limit }: { length: number; limit: number }) {
+  return (
+    <span className="text-xs tabular-nums text-gray-400 dark:text-gray-500">
+      {length.toLocaleString()}/{limit.toLocaleString()}
+    </span>
+  )
+}
+
+/**
+ * LinkedIn profile mode: writes headline options and an About section
+ * from the user's experience, without needing a job description.
+ */
+export function ProfileGenerator({
+  suggestedExperience,
+  licenseKey,
+  onGenerate,
+  onError,
+}: ProfileGeneratorProps) {
+  const [experience, setExperience] = useState("")
+  const [targetRole, setTargetRole] = useState("")
+  const [profile, setProfile] = useState<Profile | null>(null)
+  const [redactions, setRedactions] = useState<Redaction[]>([])
+  const [remaining, setRemaining] = useState<number | null>(null)
+  const [error, setError] = useState<string | undefined>()
+  const [isPending, startTransition] = useTransition()
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (experience.trim().length < 20) {
+      setError("Please describe your experience (at least 20 characters)")
+      return
+    }
+
+    startTransition(async () => {
+      try {
+        const response = await fetch("/api/profile", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            experience,
+            ...(targetRole.trim() && { targetRole }),
+            ...(licenseKey && { licenseKey }),
+          }),
+        })
+
+        const data = await response.json()
+
+        if (!response.ok) {
+          onError(
+            data.message || "Failed to write profile. Please try again.",
+            data.code
+          )
+          return
+        }
+
+        const result = data as ProfileResponse
+        setProfile({ headlines: result.headlines, about: result.about })
+        setRedactions(result.redactions)
+        setRemaining(result.remaining)
+        onGenerate()
+      } catch (err) {
+        console.error("Profile error:", err)
+        onError("Network error. Please check your connection and try again.")
+      }
+    })
+  }
+
+  return (
+    <Card className="space-y-6">
+      <div>
+        <div className="flex items-center gap-3">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+            LinkedIn Profile
+          </h2>
+          {remaining !== null && (
+            <Badge size="sm">
+              {remaining >= 999 ? "Unlimited" : `${remaining} left`}
+            </Badge>
+          )}
+        </div>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Headline options and an About section, sized to fit LinkedIn.
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <Textarea
+          label="Your Experience"
+          placeholder={EXPERIENCE_PLACEHOLDER}
+          value={experience}
+          onChange={(e) => {
+            setExperience(e.target.value)
+            setError(undefined)
+          }}
+          error={error}
+          maxLength={4000}
+          showCount
+          currentLength={experience.length}
+          className="min-h-[160px]"
+          disabled={isPending}
+        />
+        {suggestedExperience && experience !== suggestedExperience && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setExperience(suggestedExperience)
+              setError(undefined)
+            }}
+            disabled={isPending}
+          >
+            Use the experience entered above
+          </Button>
+        )}
+
+        <div>
+          <label
+            htmlFor="profile-target-role"
+            className="block text-sm font-medium mb-1.5 text-gray-700 dark:text-gray-300"
+          >
+            Target Role (optional)
+          </label>
+          <input
+            id="profile-target-role"
+            type="text"
+            value={targetRole}
+            onChange={(e) => setTargetRole(e.target.value)}
+            placeholder="e.g. Senior Data Engineer"
+            maxLength={100}
+            disabled={isPending}
+            className={cn(
+              "w-full rounded-lg border px-3 py-2 text-sm",
+              "border-gray-300 dark:border-gray-600",
+              "bg-white dark:bg-gray-900 dark:text-gray-100",
+              "focus:outline-none focus:ring-2 focus:border-brand-500 focus:ring-brand-500/20"
+            )}
+          />
+        </div>
+
+        <Button
+          type="submit"
+          isLoading={isPending}
+          loadingText="Writing..."
+          variant={profile ? "outline" : "primary"}
+        >
+          <SparklesIcon size={18} />
+          {profile ? "Write again" : "Write my profile"}
+        </Button>
+      </form>
+
+      {profile && (
+        <div className={cn("space-y-6", isPending && "opacity-60")}>
+          {/* Headline options */}
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+                Headline options
+              </h3>
+              <Badge size="sm">{profile.headlines.length}</Badge>
+            </div>
+            {profile.headlines.map((headline, index) => (
+              <div
+                key={index}
+                className="flex items-center gap-3 rounded-lg border border-gray-200 p-3 dark:border-gray-700"
+              >
+                <p className="flex-1 min-w-0 text-gray-700 dark:text-gray-300">
+                  {headline}
+                </p>
+                <CharCount
+                  length={headline.length}
+                  limit={LINKEDIN_LIMITS.headline}
+                />
+                <CopyButton
+                  text={headline}
+                  label={`Copy headline ${index + 1}`}
+                />
+              </div>
+            ))}
+          </div>
+
+          {/* About section */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+                About
+              </h3>
+              <div className="flex items-center gap-2">
+                <CharCount
+                  length={profile.about.length}
+                  limit={LINKEDIN_LIMITS.about}
+                />
+                <CopyButton text={profile.about} label="Copy About section" />
+              </div>
+            </div>
+            <p className="whitespace-pre-line rounded-lg border border-gray-200 p-4 leading-relaxed text-gray-700 dark:border-gray-700 dark:text-gray-300">
+              {profile.about}
+            </p>
+          </div>
+
+          <PrivacyPanel redactions={redactions} />
+        </div>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,148 @@
+"use client"
+
+import { Button, Textarea, XIcon } from "@/components/ui"
+import { MAX_ROLES, type Role } from "@/lib/validation"
+import { cn } from "@/lib/utils"
+
+/**
+ * Props for the RolesInput component.
+ */
+export interface RolesInputProps {
+  /** Positions entered so far, most recent first */
+  roles: Role[]
+  /** Callback with the updated list */
+  onChange: (roles: Role[]) => void
+  /** Validation message for the whole list */
+  error?: string
+  disabled?: boolean
+}
+
+/**
+ * A blank position for the "Add role" button.
+ */
+export const EMPTY_ROLE: Role = { company: "", title: "", dates: "", notes: "" }
+
+/**
+ * Shared styles for the single-line role fields.
+ */
+const fieldClassName = cn(
+  "w-full min-w-0 px-3 py-2 rounded-lg text-sm",
+  "border border-gray-300 dark:border-gray-600",
+  "bg-white dark:bg-gray-900",
+  "text-gray-900 dark:text-gray-100",
+  "placeholder-gray-400 dark:placeholder-gray-500",
+  "focus:outline-none focus:ring-2 focus:ring-brand-500/20 focus:border-brand-500"
+)
+
+/**
+ * Editor for the positions on a resume: company, title, dates and notes
+ * for each, up to MAX_ROLES.
+ */
+export function RolesInput({
+  roles,
+  onChange,
+  error,
+  disabled = false,
+}: RolesInputProps) {
+  const update = (index: number, changes: Partial<Role>) =>
+    onChange(
+      roles.map((role, i) => (i === index ? { ...role, ...changes } : role))
+    )
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <p className="text-sm font-medium text-gray-700 dark:text-gray-300">
+          Your Roles
+        </p>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Most recent first. Roles that match the job best get the most bullets.
+        </p>
+      </div>
+
+      {roles.map((role, index) => (
+        <div
+          key={index}
+          className="space-y-2 rounded-lg border border-gray-200 p-3 dark:border-gray-700"
+        >
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-medium uppercase tracking-wide text-gray-500 dark:text-gray-400">
+              Role {index + 1}
+            </span>
+            {roles.length > 1 && (
+              <button
+                type="button"
+                onClick={() => onChange(roles.filter((_, i) => i !== index))}
+                disabled={disabled}
+                className="p-1 rounded-md text-gray-400 hover:text-gray-600 hover:bg-gray-100 dark:hover:bg-gray-800"
+                aria-label={`Remove role ${index + 1}`}
+              >
+                <XIcon size={16} />
+              </button>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            <input
+              type="text"
+              value={role.title}
+              onChange={(e) => update(index, { title: e.target.value })}
+              placeholder="Job title"
+              maxLength={100}
+              disabled={disabled}
+              aria-label={`Role ${index + 1} job title`}
+              className={fieldClassName}
+            />
+            <input
+              type="text"
+              value={role.company}
+              onChange={(e) => update(index, { company: e.target.value })}
+              placeholder="Company"
+              maxLength={100}
+              disabled={disabled}
+              aria-label={`Role ${index + 1} company`}
+              className={fieldClassName}
+            />
+            <input
+              type="text"
+              value={role.dates ?? ""}
+              onChange={(e) => update(index, { dates: e.target.value })}
+              placeholder="Dates, e.g. 2021 – present"
+              maxLength={50}
+              disabled={disabled}
+              aria-label={`Role ${index + 1} dates`}
+              className={fieldClassName}
+            />
+          </div>
+
+          <Textarea
+            value={role.notes}
+            onChange={(e) => update(index, { notes: e.target.value })}
+            placeholder="What you did and achieved in this role..."
+            aria-label={`Role ${index + 1} notes`}
+            className="min-h-24"
+            disabled={disabled}
+          />
+        </div>
+      ))}
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400" role="alert">
+          {error}
+        </p>
+      )}
+
+      {roles.length < MAX_ROLES && (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...roles, EMPTY_ROLE])}
+          disabled={disabled}
+        >
+          Add role
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -200,3 +200,27 @@ export function ExternalLinkIcon(props: IconProps) {
     </IconBase>
   )
 }
+
+/**
+ * Refresh icon - for regenerating content.
+ */
+export function RefreshIcon(props: IconProps) {
+  return (
+    <IconBase {...props}>
+      <polyline points="23 4 23 10 17 10" />
+      <polyline points="1 20 1 14 7 14" />
+      <path d="M3.51 9a9 9 0 0114.85-3.36L23 10M1 14l4.64 4.36A9 9 0 0020.49 15" />
+    </IconBase>
+  )
+}
+
+/**
+ * Message icon - for interview prep.
+ */
+export function MessageIcon(props: IconProps) {
+  return (
+    <IconBase {...props}>
+      <path d="M21 15a2 2 0 01-2 2H7l-4 4V5a2 2 0 012-2h14a2 2 0 012 2z" />
+    </IconBase>
+  )
+}
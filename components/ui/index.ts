@@ -3,6 +3,7 @@
 
 export * from "./button"
 export * from "./textarea"
+export * from "./select"
 export * from "./card"
 export * from "./badge"
 export * from "./skeleton"
@@ -0,0 +1,85 @@
+import { forwardRef, type SelectHTMLAttributes, useId } from "react"
+import { cn } from "@/lib/utils"
+
+/**
+ * Select component props.
+ */
+export interface SelectProps extends SelectHTMLAttributes<HTMLSelectElement> {
+  /** Label text displayed above the select */
+  label?: string
+  /** Helper text displayed below the select */
+  helperText?: string
+}
+
+/**
+ * Native select with label and helper text, styled to match Textarea.
+ *
+ * @example
+ * <Select label="Seniority" value={level} onChange={handleChange}>
+ *   <option value="mid">Mid level</option>
+ *   <option value="senior">Senior</option>
+ * </Select>
+ */
+export const Select = forwardRef<HTMLSelectElement, SelectProps>(
+  (
+    { className, label, helperText, id: providedId, children, ...props },
+    ref
+  ) => {
+    // Generate a unique ID if not provided
+    const generatedId = useId()
+    const id = providedId ?? generatedId
+
+    return (
+      <div className="w-full">
+        {/* Label */}
+        {label && (
+          <label
+            htmlFor={id}
+            className="block text-sm font-medium mb-1.5 text-gray-700 dark:text-gray-300"
+          >
+            {label}
+          </label>
+        )}
+
+        {/* Select */}
+        <select
+          ref={ref}
+          id={id}
+          aria-describedby={helperText ? `${id}-helper` : undefined}
+          className={cn(
+            // Base styles
+            "block w-full rounded-lg border px-3 py-2",
+            "text-sm text-gray-900 bg-white",
+            "border-gray-300 dark:border-gray-600",
+            "transition-colors duration-150",
+            // Focus styles
+            "focus:outline-none focus:ring-2 focus:ring-offset-0",
+            "focus:border-brand-500 focus:ring-brand-500/20",
+            // Dark mode
+            "dark:bg-gray-900 dark:text-gray-100 dark:focus:border-brand-400",
+            // Disabled
+            "disabled:bg-gray-50 disabled:text-gray-500 disabled:cursor-not-allowed",
+            "dark:disabled:bg-gray-800 dark:disabled:text-gray-500",
+            // Custom classes
+            className
+          )}
+          {...props}
+        >
+          {children}
+        </select>
+
+        {/* Helper text */}
+        {helperText && (
+          <p
+            id={`${id}-helper`}
+            className="mt-1.5 text-sm text-gray-500 dark:text-gray-400"
+          >
+            {helperText}
+          </p>
+        )}
+      </div>
+    )
+  }
+)
+
+Select.displayName = "Select"
@@ -0,0 +1,67 @@
+/**
+ * Live prompt version report.
+ *
+ * Usage:
+ *   npm run prompt-stats -- [version...]
+ *
+ * Reads the per-version counters that production traffic records in Redis
+ * (see `trackPromptQuality` and `trackPromptFeedback`) and prints them as
+ * a Markdown table, divided by generations so versions with different
+ * traffic can be compared. Without arguments, every registered version is
+ * listed. Needs the Upstash variables exported.
+ */
+
+import { getPromptStats } from "@/lib/redis"
+import { PROMPT_TEMPLATES, getPromptTemplate } from "@/lib/prompt-registry"
+
+/**
+ * Rows of the report: stats hash field, label, and whether the count is
+ * divided by generations.
+ */
+const STAT_ROWS = [
+  { field: "generations", label: "Generations", perGeneration: false },
+  { field: "bullets", label: "Bullets", perGeneration: true },
+  { field: "lint_warnings", label: "Lint warnings", perGeneration: true },
+  {
+    field: "unsupported_metrics",
+    label: "Unsupported metrics",
+    perGeneration: true,
+  },
+  { field: "coverage_total", label: "Keyword coverage", perGeneration: true },
+  { field: "refinements", label: "Refinements", perGeneration: true },
+  { field: "feedback_up", label: "Thumbs up", perGeneration: true },
+  { field: "feedback_down", label: "Thumbs down", perGeneration: true },
+] as const
+
+async function main(): Promise<void> {
+  const versions = process.argv.slice(2)
+  const selected =
+    versions.length > 0 ? versions : Object.keys(PROMPT_TEMPLATES)
+  const unknown = selected.filter((version) => !getPromptTemplate(version))
+  if (unknown.length > 0) {
+    throw new Error(`Unknown prompt version: ${unknown.join(", ")}`)
+  }
+
+  const stats = await Promise.all(selected.map(getPromptStats))
+  const header = ["Per generation", ...selected]
+  const rows = STAT_ROWS.map(({ field, label, perGeneration }) => [
+    label,
+    ...stats.map((counts) => {
+      const value = Number(counts[field] ?? 0)
+      const generations = Number(counts.generations ?? 0)
+      if (!perGeneration) return String(value)
+      return generations > 0 ? (value / generations).toFixed(2) : "-"
+    }),
+  ])
+
+  console.log(
+    [header, header.map(() => "---"), ...rows]
+      .map((cells) => `| ${cells.join(" | ")} |`)
+      .join("\n")
+  )
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exit(1)
+})
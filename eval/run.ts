@@ -0,0 +1,84 @@
+/**
+ * Offline evaluation command.
+ *
+ * Usage:
+ *   npm run eval -- [baseline] [candidate] [--dataset <file>] [--out <file>]
+ *
+ * Variants are a prompt version, optionally pinned to a model:
+ *   npm run eval -- v1 v1@gpt-4.1-mini
+ *
+ * The provider comes from the usual LLM_* variables (LLM_PROVIDER=fake
+ * runs fully offline). Prints a Markdown comparison to stdout; --out also
+ * writes every case result as JSON.
+ */
+
+import { readFile, writeFile } from "fs/promises"
+import { parseArgs } from "util"
+import type { EvalCase, EvalRun, EvalVariant } from "@/lib/evaluation"
+
+/**
+ * Parses "v1" or "v1@model".
+ */
+function parseVariant(spec: string): EvalVariant {
+  const [promptVersion = "", model] = spec.split("@")
+  return model ? { promptVersion, model } : { promptVersion }
+}
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      dataset: { type: "string", default: "eval/dataset.json" },
+      out: { type: "string" },
+    },
+  })
+
+  // Keep evaluation traffic out of production analytics
+  delete process.env.UPSTASH_REDIS_REST_URL
+  delete process.env.UPSTASH_REDIS_REST_TOKEN
+
+  // Imported after the environment is adjusted
+  const { runEvaluation, formatReport, formatVariant } =
+    await import("@/lib/evaluation")
+  const { DEFAULT_PROMPT_VERSION } = await import("@/lib/prompt-registry")
+
+  const dataset = JSON.parse(
+    await readFile(values.dataset, "utf8")
+  ) as EvalCase[]
+  const variants = (
+    positionals.length > 0 ? positionals : [DEFAULT_PROMPT_VERSION]
+  ).map(parseVariant)
+
+  if (variants.length > 2) {
+    throw new Error("Pass at most two variants (baseline and candidate)")
+  }
+
+  const runs: EvalRun[] = []
+  for (const variant of variants) {
+    console.error(
+      `Running ${formatVariant(variant)} on ${dataset.length} cases`
+    )
+    runs.push(
+      await runEvaluation(dataset, variant, (result) => {
+        console.error(
+          `  ${result.id}: ${result.error ? `failed (${result.error})` : "ok"} in ${result.latencyMs}ms`
+        )
+      })
+    )
+  }
+
+  const [baseline, candidate] = runs
+  if (!baseline) return
+
+  console.log(formatReport(baseline, candidate))
+
+  if (values.out) {
+    await writeFile(values.out, JSON.stringify(runs, null, 2))
+    console.error(`Wrote case results to ${values.out}`)
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exit(1)
+})
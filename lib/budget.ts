@@ -0,0 +1,182 @@
+/**
+ * Global daily spend cap.
+ *
+ * Reads today's spend (recorded by `lib/costs`) and degrades service in
+ * steps as it approaches the cap, so a scripted abuser can't run up an
+ * unbounded bill:
+ * - normal: everything allowed
+ * - free-paused: free tier paused, paid tiers unaffected
+ * - paid-throttled: free tier paused, paid users limited per hour
+ * - stopped: cap reached or kill switch on, nothing allowed
+ */
+
+import { redis, REDIS_KEYS } from "@/lib/redis"
+import type { UsageContext } from "@/lib/usage"
+import {
+  createErrorResponse,
+  ERRORS,
+  type ErrorResponse,
+} from "@/lib/validation"
+
+/**
+ * Service level for the current spend.
+ */
+export type BudgetLevel =
+  "normal" | "free-paused" | "paid-throttled" | "stopped"
+
+/**
+ * Budget thresholds. DAILY_SPEND_CAP_USD and PAID_THROTTLE_PER_HOUR
+ * override the defaults; LLM_KILL_SWITCH=true stops all generation.
+ */
+export const BUDGET_CONFIG = {
+  dailyCapUsd: parseFloat(process.env.DAILY_SPEND_CAP_USD ?? "") || 25,
+  freePauseRatio: 0.7, // Pause free tier at 70% of the cap
+  paidThrottleRatio: 0.9, // Throttle paid tiers at 90% of the cap
+  paidThrottlePerHour:
+    parseInt(process.env.PAID_THROTTLE_PER_HOUR ?? "", 10) || 5,
+  killSwitch: process.env.LLM_KILL_SWITCH === "true",
+} as const
+
+/**
+ * Today's spend and the resulting service level.
+ */
+export interface BudgetStatus {
+  level: BudgetLevel
+  spentUsd: number
+  capUsd: number
+}
+
+/**
+ * Service level for a day's spend.
+ *
+ * @param spentUsd - Spend so far today
+ * @param killSwitch - Whether the kill switch is on in Redis
+ * @returns Service level
+ */
+export function getBudgetLevel(
+  spentUsd: number,
+  killSwitch: boolean
+): BudgetLevel {
+  const ratio = spentUsd / BUDGET_CONFIG.dailyCapUsd
+
+  if (BUDGET_CONFIG.killSwitch || killSwitch || ratio >= 1) return "stopped"
+  if (ratio >= BUDGET_CONFIG.paidThrottleRatio) return "paid-throttled"
+  if (ratio >= BUDGET_CONFIG.freePauseRatio) return "free-paused"
+  return "normal"
+}
+
+/**
+ * Reads today's spend and the kill switch.
+ *
+ * @param date - Date string in YYYY-MM-DD format
+ * @returns Current spend and service level
+ */
+export async function getBudgetStatus(
+  date: string = new Date().toISOString().split("T")[0]!
+): Promise<BudgetStatus> {
+  const [spentMicros, killSwitch] = await Promise.all([
+    redis.hget<number>(REDIS_KEYS.dailyCost(date), "cost_micros"),
+    redis.get(REDIS_KEYS.killSwitch()),
+  ])
+
+  const spentUsd = (spentMicros ?? 0) / 1_000_000
+  return {
+    level: getBudgetLevel(spentUsd, killSwitch !== null),
+    spentUsd,
+    capUsd: BUDGET_CONFIG.dailyCapUsd,
+  }
+}
+
+/**
+ * Key of a paid user's request count for the current hour.
+ */
+function throttleKey(identifier: string): string {
+  const hour = new Date().toISOString().slice(0, 13)
+  return REDIS_KEYS.budgetThrottle(identifier, hour)
+}
+
+/**
+ * Checks a paid user's charged requests this hour against the throttle.
+ *
+ * @returns Whether the user has used up the hourly limit
+ */
+async function isThrottled(identifier: string): Promise<boolean> {
+  const count = await redis.get<number>(throttleKey(identifier))
+  return (count ?? 0) >= BUDGET_CONFIG.paidThrottlePerHour
+}
+
+/**
+ * Counts a paid request toward the hourly throttle. Called when the
+ * request is charged, so rejected and failed requests don't use up the
+ * allowance.
+ *
+ * @param usage - Tier and identifier of the caller
+ */
+export async function countPaidRequest(
+  usage: Pick<UsageContext, "tier" | "identifier">
+): Promise<void> {
+  if (usage.tier === "free") return
+
+  const key = throttleKey(usage.identifier)
+  const count = await redis.incr(key)
+  if (count === 1) {
+    await redis.expire(key, 3600)
+  }
+}
+
+/**
+ * Error for a request at a service level.
+ *
+ * @param level - Current service level
+ * @param tier - Caller's tier
+ * @param throttled - Whether a paid caller has used up the hourly limit
+ * @returns null if allowed, otherwise a BUDGET_EXCEEDED error
+ */
+export function getBudgetError(
+  level: BudgetLevel,
+  tier: UsageContext["tier"],
+  throttled: boolean
+): ErrorResponse | null {
+  if (level === "normal") return null
+
+  if (level === "stopped") {
+    console.warn("Spend cap reached or kill switch on; generation stopped")
+    return ERRORS.BUDGET_EXCEEDED
+  }
+
+  if (tier === "free") {
+    return createErrorResponse(
+      "BUDGET_EXCEEDED",
+      "Free usage is paused for now due to high demand. Please try again later."
+    )
+  }
+
+  if (level === "paid-throttled" && throttled) {
+    return createErrorResponse(
+      "BUDGET_EXCEEDED",
+      `Due to high demand, requests are limited to ${BUDGET_CONFIG.paidThrottlePerHour} per hour right now. Please try again shortly.`
+    )
+  }
+
+  return null
+}
+
+/**
+ * Checks whether a request fits in today's budget.
+ *
+ * @param usage - Tier and identifier of the caller
+ * @returns null if allowed, otherwise a BUDGET_EXCEEDED error (HTTP 503)
+ */
+export async function checkBudget(
+  usage: Pick<UsageContext, "tier" | "identifier">
+): Promise<ErrorResponse | null> {
+  const { level } = await getBudgetStatus()
+
+  // The hourly count is only read when it can matter
+  const throttled =
+    level === "paid-throttled" &&
+    usage.tier !== "free" &&
+    (await isThrottled(usage.identifier))
+
+  return getBudgetError(level, usage.tier, throttled)
+}
@@ -0,0 +1,192 @@
+import {
+  DEFAULT_BULLET_OPTIONS,
+  type Bullet,
+  type BulletOptions,
+  type LintWarning,
+} from "@/lib/validation"
+
+/**
+ * Bullet quality linter.
+ *
+ * Deterministic checks for the writing rules in SYSTEM_PROMPT, which the
+ * model treats as suggestions. Keep the phrase lists below in sync with
+ * the prompt.
+ */
+
+/**
+ * Clichés the system prompt bans, plus common relatives.
+ */
+export const BANNED_PHRASES = [
+  "results-driven",
+  "fast-paced",
+  "team player",
+  "dynamic environment",
+  "various tasks",
+  "detail-oriented",
+  "self-starter",
+  "go-getter",
+  "hard-working",
+  "proven track record",
+  "think outside the box",
+  "best-in-class",
+  "synergy",
+  "synergies",
+  "wide range of",
+]
+
+/**
+ * Openings the system prompt calls out as generic.
+ */
+const RESPONSIBLE_FOR_PATTERN =
+  /^(?:responsible for|tasked with|duties included|in charge of)\b/i
+
+/**
+ * Opening verbs that say little about what was actually done.
+ */
+const WEAK_VERBS = new Set([
+  "worked",
+  "helped",
+  "assisted",
+  "handled",
+  "did",
+  "made",
+  "got",
+  "was",
+  "were",
+  "participated",
+  "involved",
+  "utilized",
+  "used",
+  "tried",
+  "contributed",
+])
+
+/**
+ * A form of "to be" followed by a past participle ("was migrated").
+ */
+const PASSIVE_PATTERN =
+  /\b(?:was|were|been|being|is|are)\s+(?:\w+ly\s+)?(?:\w+ed|built|led|made|done|run|given|taken|written|chosen|known|seen|shown|grown|brought|sold|kept|held|won)\b/i
+
+/**
+ * First-person pronouns. "US" is left alone so the country doesn't match.
+ */
+const FIRST_PERSON_PATTERN =
+  /\b(?:I|[Mm]e|[Mm]y|[Mm]ine|[Mm]yself|[Ww]e|[Oo]ur|[Oo]urs|us)\b/
+
+/**
+ * Options for linting a single bullet.
+ */
+export interface LintOptions {
+  /** Allowed words per bullet */
+  wordRange?: BulletOptions["wordRange"]
+  /** Opening verbs already used by other bullets (lowercase) */
+  previousVerbs?: ReadonlySet<string>
+}
+
+/**
+ * Counts the words in a bullet.
+ */
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length
+}
+
+/**
+ * Checks one bullet against the writing rules.
+ *
+ * @param bullet - Bullet to check
+ * @param options - Length range and verbs already used
+ * @returns Warnings, empty if the bullet passes
+ */
+export function lintBullet(
+  bullet: Pick<Bullet, "text" | "verb">,
+  options: LintOptions = {}
+): LintWarning[] {
+  const { wordRange = DEFAULT_BULLET_OPTIONS.wordRange, previousVerbs } =
+    options
+  const warnings: LintWarning[] = []
+  const text = bullet.text
+  const lowerText = text.toLowerCase()
+  const verb = bullet.verb.toLowerCase()
+
+  for (const phrase of BANNED_PHRASES) {
+    if (lowerText.includes(phrase)) {
+      warnings.push({
+        rule: "cliche",
+        message: `Avoid the cliché "${phrase}"`,
+        excerpt: phrase,
+      })
+    }
+  }
+
+  const words = countWords(text)
+  if (words < wordRange.min || words > wordRange.max) {
+    warnings.push({
+      rule: "length",
+      message: `${words} words; aim for ${wordRange.min}–${wordRange.max}`,
+    })
+  }
+
+  const responsibleFor = text.match(RESPONSIBLE_FOR_PATTERN)
+  if (responsibleFor) {
+    warnings.push({
+      rule: "responsible-for",
+      message: `Replace "${responsibleFor[0]}" with what you actually did`,
+      excerpt: responsibleFor[0],
+    })
+  } else if (WEAK_VERBS.has(verb)) {
+    warnings.push({
+      rule: "weak-verb",
+      message: `"${bullet.verb}" is a weak opening verb`,
+      excerpt: bullet.verb,
+    })
+  }
+
+  if (previousVerbs?.has(verb)) {
+    warnings.push({
+      rule: "repeated-verb",
+      message: `Another bullet also starts with "${bullet.verb}"`,
+      excerpt: bullet.verb,
+    })
+  }
+
+  const passive = text.match(PASSIVE_PATTERN)
+  if (passive) {
+    warnings.push({
+      rule: "passive-voice",
+      message: `Passive voice: "${passive[0]}"`,
+      excerpt: passive[0],
+    })
+  }
+
+  const pronoun = text.match(FIRST_PERSON_PATTERN)
+  if (pronoun) {
+    warnings.push({
+      rule: "first-person",
+      message: `Drop the first-person "${pronoun[0]}"`,
+      excerpt: pronoun[0],
+    })
+  }
+
+  return warnings
+}
+
+/**
+ * Checks a set of bullets in order. A repeated opening verb is reported
+ * on each bullet after the first one to use it.
+ *
+ * @param bullets - Bullets in display order
+ * @param wordRange - Allowed words per bullet
+ * @returns Warnings for each bullet, in the same order
+ */
+export function lintBullets(
+  bullets: Pick<Bullet, "text" | "verb">[],
+  wordRange?: BulletOptions["wordRange"]
+): LintWarning[][] {
+  const previousVerbs = new Set<string>()
+
+  return bullets.map((bullet) => {
+    const warnings = lintBullet(bullet, { wordRange, previousVerbs })
+    previousVerbs.add(bullet.verb.toLowerCase())
+    return warnings
+  })
+}
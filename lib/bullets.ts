@@ -0,0 +1,244 @@
+import {
+  generateCompletion,
+  type ChatMessage,
+  type GenerationOptions,
+} from "@/lib/llm"
+import {
+  SYSTEM_PROMPT,
+  REPAIR_SYSTEM_PROMPT,
+  createRepairPrompt,
+  createLintFixPrompt,
+  parseBulletResponse,
+  MAX_BULLETS,
+} from "@/lib/prompts"
+import { createMetricVerifier } from "@/lib/metric-verifier"
+import { lintBullet, lintBullets } from "@/lib/bullet-linter"
+import type { Bullet, BulletOptions, BulletVariant } from "@/lib/validation"
+import { getErrorMessage } from "@/lib/utils"
+
+/**
+ * Runs a bullet-producing prompt and parses the JSON Lines response,
+ * repairing any malformed lines.
+ *
+ * @param messages - Prompt that asks for bullets as JSON Lines
+ * @param maxBullets - Maximum bullets to return
+ * @param options - Generation overrides (e.g. `onUsage` for metering)
+ * @param accept - Optional filter (e.g. a role assigner); only bullets it
+ *   keeps count toward `maxBullets`
+ * @returns Parsed bullets (may be empty if nothing usable came back)
+ */
+export async function generateBullets(
+  messages: ChatMessage[],
+  maxBullets: number = MAX_BULLETS,
+  options?: GenerationOptions,
+  accept?: (bullet: Bullet) => Bullet | null
+): Promise<Bullet[]> {
+  const content = await generateCompletion(messages, options)
+
+  const { bullets, malformedLines } = parseBulletResponse(
+    content,
+    maxBullets,
+    accept
+  )
+  if (malformedLines.length > 0 && bullets.length < maxBullets) {
+    const repaired = await repairBullets(
+      malformedLines,
+      bullets.length,
+      maxBullets,
+      options
+    )
+    bullets.push(
+      ...(accept ? repaired.flatMap((b) => accept(b) ?? []) : repaired)
+    )
+  }
+
+  return bullets
+}
+
+/**
+ * Asks the model to reformat lines that were not valid bullet JSON.
+ * Makes a single attempt; a failed repair only loses the malformed lines.
+ *
+ * @param malformedLines - Lines that failed to parse
+ * @param existingCount - Bullets already parsed
+ * @param maxBullets - Cap on the total number of bullets
+ * @param options - Generation overrides (e.g. `onUsage` for metering)
+ * @returns Recovered bullets
+ */
+export async function repairBullets(
+  malformedLines: string[],
+  existingCount: number,
+  maxBullets: number = MAX_BULLETS,
+  options?: GenerationOptions
+): Promise<Bullet[]> {
+  try {
+    const repaired = await generateCompletion(
+      [
+        { role: "system", content: REPAIR_SYSTEM_PROMPT },
+        { role: "user", content: createRepairPrompt(malformedLines) },
+      ],
+      { ...options, temperature: 0 }
+    )
+    const { bullets } = parseBulletResponse(repaired)
+    return bullets.slice(0, Math.max(0, maxBullets - existingCount))
+  } catch (error) {
+    console.error("Bullet repair failed:", getErrorMessage(error))
+    return []
+  }
+}
+
+/**
+ * Inputs generated bullets are checked against.
+ */
+export interface BulletContext {
+  jobDescription: string
+  experience: string
+  options: BulletOptions
+  /** Bullets outside the set being annotated (e.g. when refining one) */
+  otherBullets?: Pick<Bullet, "verb">[]
+  /** System prompt of the version that wrote the bullets (for rewrites) */
+  systemPrompt?: string
+  /** User's bullets being rewritten, in order (rewrite mode) */
+  originals?: string[]
+}
+
+/**
+ * Reduces bullet text to what makes two phrasings different, so ones that
+ * differ only in case, spacing or punctuation count as the same.
+ */
+function phrasingKey(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\w\s%$]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+}
+
+/**
+ * Creates a function that adds server-side checks to each bullet:
+ * figures that don't appear in the experience are listed in
+ * `unsupportedMetrics`, and writing rule violations in `warnings`.
+ * Alternatives get the same checks; repeats of another phrasing, and any
+ * beyond the requested number of variants, are dropped.
+ * Bullets must be annotated in display order so repeated opening verbs
+ * are reported on the later bullet, and so each rewrite is paired with
+ * the original at the same position.
+ *
+ * @param context - Inputs the bullets were generated from
+ * @returns Annotator for single bullets
+ */
+export function createBulletAnnotator(
+  context: BulletContext
+): (bullet: Bullet) => Bullet {
+  const findUnsupported = createMetricVerifier(context.experience)
+  const previousVerbs = new Set(
+    context.otherBullets?.map((b) => b.verb.toLowerCase())
+  )
+  const maxAlternatives = (context.options.variants ?? 1) - 1
+  let position = 0
+
+  return ({ alternatives = [], ...bullet }) => {
+    const check = <T extends BulletVariant>(variant: T): T => ({
+      ...variant,
+      unsupportedMetrics: findUnsupported(variant.text),
+      warnings: lintBullet(variant, {
+        wordRange: context.options.wordRange,
+        previousVerbs,
+      }),
+    })
+
+    const seen = new Set([phrasingKey(bullet.text)])
+    const checked = check(bullet)
+    const checkedAlternatives = alternatives
+      .filter((alternative) => {
+        const key = phrasingKey(alternative.text)
+        if (seen.has(key)) return false
+        seen.add(key)
+        return true
+      })
+      .slice(0, maxAlternatives)
+      .map(check)
+
+    // Only the main phrasing counts towards repeated verbs
+    previousVerbs.add(bullet.verb.toLowerCase())
+    const original = context.originals?.[position++]
+
+    return {
+      ...checked,
+      ...(checkedAlternatives.length > 0 && {
+        alternatives: checkedAlternatives,
+      }),
+      ...(original && { original }),
+    }
+  }
+}
+
+/**
+ * Rewrites annotated bullets that have linter warnings, in a single call.
+ * A rewrite is kept only if it has fewer warnings than the original; if
+ * the call fails or returns the wrong number of bullets, nothing changes.
+ * The result should be annotated again before it is returned.
+ *
+ * @param bullets - Bullets annotated by createBulletAnnotator
+ * @param context - Inputs the bullets were generated from
+ * @param options - Generation overrides (e.g. `onUsage` for metering)
+ * @returns Bullets with the improved rewrites swapped in
+ */
+export async function fixBulletWarnings(
+  bullets: Bullet[],
+  context: BulletContext,
+  options?: GenerationOptions
+): Promise<Bullet[]> {
+  const failing = bullets.flatMap((bullet, index) =>
+    bullet.warnings?.length ? [{ bullet, index }] : []
+  )
+  if (failing.length === 0) return bullets
+
+  try {
+    const content = await generateCompletion(
+      [
+        { role: "system", content: context.systemPrompt ?? SYSTEM_PROMPT },
+        {
+          role: "user",
+          content: createLintFixPrompt(
+            context.experience,
+            failing.map(({ bullet }) => ({
+              text: bullet.text,
+              problems: bullet.warnings?.map((w) => w.message) ?? [],
+            })),
+            // Fixes keep the bullet's existing alternatives
+            { ...context.options, variants: undefined }
+          ),
+        },
+      ],
+      options
+    )
+
+    const { bullets: rewrites } = parseBulletResponse(content, failing.length)
+    if (rewrites.length !== failing.length) {
+      console.error(
+        `Bullet fix returned ${rewrites.length} of ${failing.length} bullets`
+      )
+      return bullets
+    }
+
+    const rewriteFor = new Map(
+      failing.map(({ index }, i) => [index, rewrites[i]])
+    )
+    const candidates = bullets.map((bullet, i) => rewriteFor.get(i) ?? bullet)
+    const candidateWarnings = lintBullets(candidates, context.options.wordRange)
+
+    return bullets.map((bullet, i) => {
+      const improved =
+        (candidateWarnings[i]?.length ?? 0) < (bullet.warnings?.length ?? 0)
+      // The fix prompt returns only the core fields; keep the rest
+      // (rationale, role, alternatives) from the bullet it replaces
+      return improved && candidates[i]
+        ? { ...bullet, ...candidates[i] }
+        : bullet
+    })
+  } catch (error) {
+    console.error("Bullet fix failed:", getErrorMessage(error))
+    return bullets
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * Token and cost accounting.
+ *
+ * Every LLM call made while serving a request reports its token usage to
+ * a `UsageMeter`. When the request finishes, the totals are priced with
+ * `PRICE_TABLE` and added to Redis per day, per tier and per license, so
+ * spend can be compared with revenue (e.g. for Lifetime licenses).
+ */
+
+import { z } from "zod"
+import type { TokenUsage } from "@/lib/providers"
+import { redis, REDIS_KEYS } from "@/lib/redis"
+import type { UsageContext } from "@/lib/usage"
+import { getErrorMessage } from "@/lib/utils"
+
+/**
+ * Price per million tokens, in USD.
+ */
+export interface ModelPrice {
+  input: number
+  output: number
+}
+
+/**
+ * Default prices, matched by model name prefix (longest match wins), so
+ * "gpt-4o-mini-2024-07-18" uses the "gpt-4o-mini" price.
+ * Override or extend with LLM_PRICES, e.g.
+ * `{"gpt-4o-mini":{"input":0.15,"output":0.6}}`.
+ */
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "claude-3-5-haiku": { input: 0.8, output: 4 },
+  "claude-3-7-sonnet": { input: 3, output: 15 },
+  "claude-sonnet-4": { input: 3, output: 15 },
+  fake: { input: 0, output: 0 },
+}
+
+/**
+ * A price override. A missing or non-numeric price would make costs NaN,
+ * and spend would stop being recorded.
+ */
+const modelPriceSchema = z.object({
+  input: z.number().nonnegative(),
+  output: z.number().nonnegative(),
+})
+
+/**
+ * Parses price overrides in the LLM_PRICES format. Invalid JSON is
+ * ignored, and so is each entry without a valid input and output price.
+ *
+ * @param json - LLM_PRICES value
+ * @returns Valid prices by model prefix
+ */
+export function parsePriceOverrides(json: string): Record<string, ModelPrice> {
+  let raw: unknown
+  try {
+    raw = JSON.parse(json)
+  } catch {
+    console.error("Ignoring LLM_PRICES: not valid JSON")
+    return {}
+  }
+
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    console.error("Ignoring LLM_PRICES: expected an object of model prices")
+    return {}
+  }
+
+  const prices: [string, ModelPrice][] = []
+  for (const [model, value] of Object.entries(raw)) {
+    const price = modelPriceSchema.safeParse(value)
+    if (price.success) {
+      prices.push([model, price.data])
+    } else {
+      console.warn(
+        `Ignoring LLM_PRICES entry "${model}": needs non-negative "input" and "output" prices`
+      )
+    }
+  }
+  return Object.fromEntries(prices)
+}
+
+/**
+ * Active price table (defaults plus LLM_PRICES overrides).
+ */
+export const PRICE_TABLE: Record<string, ModelPrice> = {
+  ...DEFAULT_PRICES,
+  ...(process.env.LLM_PRICES && parsePriceOverrides(process.env.LLM_PRICES)),
+}
+
+/**
+ * Finds the price for a model.
+ *
+ * @param model - Model name as sent to the provider
+ * @returns Price, or null if the model is not in the table
+ */
+export function getModelPrice(model: string): ModelPrice | null {
+  const match = Object.keys(PRICE_TABLE)
+    .filter((prefix) => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0]
+
+  return match ? (PRICE_TABLE[match] ?? null) : null
+}
+
+/**
+ * Computes the cost of a completion.
+ * Configured models must be priced (see `createProviderFromEnv`); a
+ * per-call model override missing from the table costs 0 and is logged
+ * so the table can be updated.
+ *
+ * @param model - Model that produced the completion
+ * @param usage - Tokens billed
+ * @returns Cost in USD
+ */
+export function calculateCost(model: string, usage: TokenUsage): number {
+  const price = getModelPrice(model)
+  if (!price) {
+    console.warn(`No price configured for model "${model}"`)
+    return 0
+  }
+
+  return (
+    (usage.inputTokens * price.input + usage.outputTokens * price.output) /
+    1_000_000
+  )
+}
+
+/**
+ * Running token and cost totals for one request.
+ */
+export interface UsageTotals extends TokenUsage {
+  /** Number of completions that reported usage */
+  calls: number
+  costUsd: number
+}
+
+/**
+ * Collects usage from every LLM call made for one request.
+ */
+export interface UsageMeter {
+  /** Adds one completion; pass as `onUsage` to generation calls */
+  record: (model: string, usage: TokenUsage) => void
+  /** Totals so far */
+  totals: () => UsageTotals
+}
+
+/**
+ * Creates an empty usage meter.
+ */
+export function createUsageMeter(): UsageMeter {
+  const totals: UsageTotals = {
+    calls: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    costUsd: 0,
+  }
+
+  return {
+    record(model, usage) {
+      totals.calls++
+      totals.inputTokens += usage.inputTokens
+      totals.outputTokens += usage.outputTokens
+      totals.costUsd += calculateCost(model, usage)
+    },
+    totals: () => ({ ...totals }),
+  }
+}
+
+/**
+ * Costs are stored as integer micro-dollars so HINCRBY stays exact.
+ */
+function toMicros(usd: number): number {
+  return Math.round(usd * 1_000_000)
+}
+
+/**
+ * Adds a request's usage to the daily stats (overall and per tier) and,
+ * for paid users, to the license's lifetime totals.
+ * Daily hash fields: requests, input_tokens, output_tokens, cost_micros,
+ * each also prefixed with the tier (e.g. "lifetime:cost_micros").
+ *
+ * @param meter - Meter used for the request
+ * @param usage - Tier and license the request was made under
+ * @param date - Date string in YYYY-MM-DD format
+ */
+export async function recordSpend(
+  meter: UsageMeter,
+  usage: Pick<UsageContext, "tier" | "licenseKey">,
+  date: string = new Date().toISOString().split("T")[0]!
+): Promise<void> {
+  const totals = meter.totals()
+  if (totals.calls === 0) return
+
+  const fields = {
+    requests: 1,
+    input_tokens: totals.inputTokens,
+    output_tokens: totals.outputTokens,
+    cost_micros: toMicros(totals.costUsd),
+  }
+
+  const pipeline = redis.pipeline()
+  const dailyKey = REDIS_KEYS.dailyCost(date)
+
+  for (const [field, value] of Object.entries(fields)) {
+    pipeline.hincrby(dailyKey, field, value)
+    pipeline.hincrby(dailyKey, `${usage.tier}:${field}`, value)
+    if (usage.licenseKey) {
+      pipeline.hincrby(REDIS_KEYS.licenseCost(usage.licenseKey), field, value)
+    }
+  }
+  // Keep stats for 90 days; license totals are kept with the license
+  pipeline.expire(dailyKey, 86400 * 90)
+
+  await pipeline.exec()
+}
+
+/**
+ * Records spend without delaying or failing the response.
+ *
+ * @param meter - Meter used for the request
+ * @param usage - Tier and license the request was made under
+ */
+export function trackSpend(
+  meter: UsageMeter,
+  usage: Pick<UsageContext, "tier" | "licenseKey">
+): void {
+  recordSpend(meter, usage).catch((error) => {
+    console.error("Failed to record spend:", getErrorMessage(error))
+  })
+}
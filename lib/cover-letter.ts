@@ -0,0 +1,83 @@
+import {
+  generateCompletion,
+  type ChatMessage,
+  type GenerationOptions,
+} from "@/lib/llm"
+import { MAX_COVER_LETTER_PARAGRAPHS } from "@/lib/validation"
+
+/**
+ * Longest plausible cover letter paragraph, in words.
+ */
+export const MAX_PARAGRAPH_WORDS = 200
+
+/**
+ * Greeting lines the model sometimes adds despite the prompt.
+ */
+const GREETING_PATTERN =
+  /^(?:dear|to whom it may concern|hello|hi)\b[^.!?]{0,60}[,:]$/i
+
+/**
+ * Sign-off lines; everything from one onwards (usually a name) is dropped.
+ */
+const SIGN_OFF_PATTERN =
+  /^(?:sincerely|best regards|kind regards|warm regards|regards|best|thank you|respectfully)[,!.]?$/i
+
+/**
+ * Splits a model response into cover letter paragraphs. Code fences,
+ * greetings and sign-offs are dropped, and line breaks inside a paragraph
+ * are joined so each paragraph is a single line.
+ *
+ * @param response - Raw model response
+ * @param maxParagraphs - Maximum paragraphs to return
+ * @returns Paragraphs in order (may be empty)
+ */
+export function parseCoverLetter(
+  response: string,
+  maxParagraphs: number = MAX_COVER_LETTER_PARAGRAPHS
+): string[] {
+  const lines = response
+    .replace(/```[a-z]*\n?/gi, "")
+    .split("\n")
+    .map((line) => line.trim())
+  const signOff = lines.findIndex((line) => SIGN_OFF_PATTERN.test(line))
+
+  return (signOff === -1 ? lines : lines.slice(0, signOff))
+    .filter((line) => !GREETING_PATTERN.test(line))
+    .join("\n")
+    .split(/\n{2,}/)
+    .map((block) => block.split("\n").filter(Boolean).join(" "))
+    .filter(Boolean)
+    .slice(0, maxParagraphs)
+}
+
+/**
+ * Runs a cover letter prompt and parses the paragraphs.
+ *
+ * @param messages - Prompt that asks for a letter body
+ * @param options - Generation overrides (e.g. `onUsage` for metering)
+ * @returns Paragraphs (may be empty if nothing usable came back)
+ */
+export async function generateCoverLetter(
+  messages: ChatMessage[],
+  options?: GenerationOptions
+): Promise<string[]> {
+  return parseCoverLetter(await generateCompletion(messages, options))
+}
+
+/**
+ * Runs a paragraph rewrite prompt. If the model returns several
+ * paragraphs anyway, they are joined into one.
+ *
+ * @param messages - Prompt that asks for a single paragraph
+ * @param options - Generation overrides (e.g. `onUsage` for metering)
+ * @returns The paragraph, or null if nothing usable came back
+ */
+export async function generateParagraph(
+  messages: ChatMessage[],
+  options?: GenerationOptions
+): Promise<string | null> {
+  const paragraphs = parseCoverLetter(
+    await generateCompletion(messages, options)
+  )
+  return paragraphs.length > 0 ? paragraphs.join(" ") : null
+}
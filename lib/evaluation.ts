@@ -0,0 +1,304 @@
+import { generateBullets, createBulletAnnotator } from "@/lib/bullets"
+import { extractKeywords, analyzeCoverage } from "@/lib/keywords"
+import { parseJobDescription } from "@/lib/job-description"
+import { getPromptTemplate } from "@/lib/prompt-registry"
+import { createUsageMeter } from "@/lib/costs"
+import {
+  bulletOptionsSchema,
+  type Bullet,
+  type BulletOptions,
+} from "@/lib/validation"
+import { getErrorMessage } from "@/lib/utils"
+
+/**
+ * Offline evaluation of bullet quality.
+ *
+ * Runs a fixed dataset through the same pipeline as /api/generate (prompt
+ * template, parsing, repair, annotation) and scores the output with the
+ * deterministic checks already used in the app, so two prompt versions or
+ * models can be compared on the same inputs. Nothing is cached or
+ * charged, and spend is reported instead of recorded.
+ */
+
+/**
+ * One input pair from the evaluation dataset.
+ */
+export interface EvalCase {
+  id: string
+  jobDescription: string
+  experience: string
+  options?: Partial<BulletOptions>
+}
+
+/**
+ * What to evaluate: a prompt version, optionally on a specific model.
+ */
+export interface EvalVariant {
+  promptVersion: string
+  /** Overrides the provider's default model */
+  model?: string
+}
+
+/**
+ * Deterministic scores for one case.
+ */
+export interface EvalScores {
+  bullets: number
+  /** Share of bullets within the requested word range (0-1) */
+  lengthPass: number
+  /** Distinct opening verbs per bullet (0-1) */
+  verbVariety: number
+  /** Banned phrases found across all bullets */
+  cliches: number
+  /** Linter warnings across all bullets */
+  lintWarnings: number
+  /** Keyword coverage score (0-100) */
+  coverage: number
+  /** Figures not found in the experience */
+  unsupportedMetrics: number
+}
+
+/**
+ * Result of one case: scores, or the error that stopped it.
+ */
+export interface EvalCaseResult {
+  id: string
+  scores: EvalScores | null
+  error?: string
+  bullets: Bullet[]
+  costUsd: number
+  latencyMs: number
+}
+
+/**
+ * All case results for one variant, with means over successful cases.
+ */
+export interface EvalRun {
+  variant: EvalVariant
+  cases: EvalCaseResult[]
+  failures: number
+  mean: EvalScores
+  costUsd: number
+}
+
+/**
+ * Scored metrics in report order, with the direction that counts as better.
+ */
+export const EVAL_METRICS: {
+  key: keyof EvalScores
+  label: string
+  higherIsBetter: boolean
+}[] = [
+  { key: "bullets", label: "Bullets", higherIsBetter: true },
+  { key: "lengthPass", label: "In word range", higherIsBetter: true },
+  { key: "verbVariety", label: "Verb variety", higherIsBetter: true },
+  { key: "cliches", label: "Clichés", higherIsBetter: false },
+  { key: "lintWarnings", label: "Lint warnings", higherIsBetter: false },
+  { key: "coverage", label: "Keyword coverage", higherIsBetter: true },
+  {
+    key: "unsupportedMetrics",
+    label: "Unsupported metrics",
+    higherIsBetter: false,
+  },
+]
+
+/**
+ * Scores one set of annotated bullets.
+ *
+ * @param bullets - Bullets annotated by createBulletAnnotator
+ * @param evalCase - Inputs the bullets were generated from
+ * @param options - Options the bullets were generated with
+ * @returns Scores for the case
+ */
+export function scoreBullets(
+  bullets: Bullet[],
+  evalCase: EvalCase,
+  options: BulletOptions
+): EvalScores {
+  const { min, max } = options.wordRange
+  const inRange = bullets.filter((b) => {
+    const words = b.text.split(/\s+/).filter(Boolean).length
+    return words >= min && words <= max
+  })
+  const verbs = new Set(bullets.map((b) => b.verb.toLowerCase()))
+  const warnings = bullets.flatMap((b) => b.warnings ?? [])
+  const coverage = analyzeCoverage(
+    extractKeywords(evalCase.jobDescription),
+    bullets,
+    evalCase.experience
+  )
+
+  return {
+    bullets: bullets.length,
+    lengthPass: bullets.length ? inRange.length / bullets.length : 0,
+    verbVariety: bullets.length ? verbs.size / bullets.length : 0,
+    cliches: warnings.filter((w) => w.rule === "cliche").length,
+    lintWarnings: warnings.length,
+    coverage: coverage.score,
+    unsupportedMetrics: bullets.reduce(
+      (n, b) => n + (b.unsupportedMetrics?.length ?? 0),
+      0
+    ),
+  }
+}
+
+/**
+ * Generates and scores one case.
+ */
+async function runCase(
+  evalCase: EvalCase,
+  variant: EvalVariant
+): Promise<EvalCaseResult> {
+  const template = getPromptTemplate(variant.promptVersion)
+  if (!template) {
+    throw new Error(`Unknown prompt version "${variant.promptVersion}"`)
+  }
+
+  const options = bulletOptionsSchema.parse(evalCase.options ?? {})
+  const meter = createUsageMeter()
+  const started = Date.now()
+
+  try {
+    const generated = await generateBullets(
+      [
+        { role: "system", content: template.systemPrompt },
+        {
+          role: "user",
+          content: template.createUserPrompt(
+            evalCase.jobDescription,
+            evalCase.experience,
+            options,
+            parseJobDescription(evalCase.jobDescription)
+          ),
+        },
+      ],
+      options.bulletCount,
+      { model: variant.model, onUsage: meter.record }
+    )
+    const bullets = generated.map(
+      createBulletAnnotator({
+        jobDescription: evalCase.jobDescription,
+        experience: evalCase.experience,
+        options,
+      })
+    )
+
+    return {
+      id: evalCase.id,
+      scores:
+        bullets.length > 0 ? scoreBullets(bullets, evalCase, options) : null,
+      error: bullets.length > 0 ? undefined : "No bullets parsed",
+      bullets,
+      costUsd: meter.totals().costUsd,
+      latencyMs: Date.now() - started,
+    }
+  } catch (error) {
+    return {
+      id: evalCase.id,
+      scores: null,
+      error: getErrorMessage(error),
+      bullets: [],
+      costUsd: meter.totals().costUsd,
+      latencyMs: Date.now() - started,
+    }
+  }
+}
+
+/**
+ * Averages scores over the cases that produced bullets.
+ */
+function meanScores(results: EvalCaseResult[]): EvalScores {
+  const scored = results.flatMap((r) => (r.scores ? [r.scores] : []))
+  const mean = {} as EvalScores
+
+  for (const metric of EVAL_METRICS) {
+    const total = scored.reduce((sum, s) => sum + s[metric.key], 0)
+    mean[metric.key] = scored.length ? total / scored.length : 0
+  }
+
+  return mean
+}
+
+/**
+ * Runs every case for a variant, one at a time to stay under rate limits.
+ *
+ * @param dataset - Cases to run
+ * @param variant - Prompt version and model
+ * @param onCase - Called after each case (e.g. for progress output)
+ * @returns Case results and mean scores
+ */
+export async function runEvaluation(
+  dataset: EvalCase[],
+  variant: EvalVariant,
+  onCase?: (result: EvalCaseResult) => void
+): Promise<EvalRun> {
+  const cases: EvalCaseResult[] = []
+
+  for (const evalCase of dataset) {
+    const result = await runCase(evalCase, variant)
+    cases.push(result)
+    onCase?.(result)
+  }
+
+  return {
+    variant,
+    cases,
+    failures: cases.filter((c) => !c.scores).length,
+    mean: meanScores(cases),
+    costUsd: cases.reduce((sum, c) => sum + c.costUsd, 0),
+  }
+}
+
+/**
+ * Names a variant for reports, e.g. "v1" or "v1@gpt-4o-mini".
+ */
+export function formatVariant(variant: EvalVariant): string {
+  return variant.model
+    ? `${variant.promptVersion}@${variant.model}`
+    : variant.promptVersion
+}
+
+/**
+ * Formats one or two runs as a Markdown table of mean scores.
+ * With two runs, adds the change from the first to the second and marks
+ * each change as better (+) or worse (-).
+ *
+ * @param baseline - First run
+ * @param candidate - Optional run to compare against the baseline
+ * @returns Markdown report
+ */
+export function formatReport(baseline: EvalRun, candidate?: EvalRun): string {
+  const runs = candidate ? [baseline, candidate] : [baseline]
+  const format = (value: number) =>
+    Number.isInteger(value) ? String(value) : value.toFixed(2)
+
+  const header = [
+    "Metric",
+    ...runs.map((run) => formatVariant(run.variant)),
+    ...(candidate ? ["Change"] : []),
+  ]
+  const rows = EVAL_METRICS.map(({ key, label, higherIsBetter }) => {
+    const cells = [label, ...runs.map((run) => format(run.mean[key]))]
+    if (candidate) {
+      const delta = candidate.mean[key] - baseline.mean[key]
+      const better = higherIsBetter ? delta > 0 : delta < 0
+      cells.push(
+        delta === 0
+          ? "="
+          : `${delta > 0 ? "+" : ""}${format(delta)} (${better ? "+" : "-"})`
+      )
+    }
+    return cells
+  })
+  rows.push(
+    ["Failures", ...runs.map((run) => String(run.failures))],
+    ["Cost (USD)", ...runs.map((run) => run.costUsd.toFixed(4))]
+  )
+  if (candidate) {
+    for (const cells of rows.slice(-2)) cells.push("")
+  }
+
+  return [header, header.map(() => "---"), ...rows]
+    .map((cells) => `| ${cells.join(" | ")} |`)
+    .join("\n")
+}
@@ -0,0 +1,201 @@
+import { parseJobDescription } from "@/lib/job-description"
+import { contentWords, extractKeywords, mentionsKeyword } from "@/lib/keywords"
+import type {
+  GapAnalysis,
+  RequirementGap,
+  RequirementPriority,
+} from "@/lib/validation"
+
+/**
+ * Requirement gap analysis.
+ *
+ * Splits a job description's requirements into must-haves and
+ * nice-to-haves, finds the line of the user's experience that backs up
+ * each one, and suggests what to add where nothing does. Runs without the
+ * LLM, so it is free to call before generating.
+ */
+
+/**
+ * Most requirements reported, so a long posting stays readable.
+ */
+const MAX_REQUIREMENTS = 20
+
+/**
+ * Words that describe how much of a requirement is wanted rather than
+ * what it is. Ignored when matching against the experience.
+ */
+const FILLER = new Set(
+  contentWords(
+    "years experience knowledge proficiency proficient familiarity familiar understanding strong solid proven excellent demonstrated ability working hands-on deep good skills plus preferred required including"
+  )
+)
+
+/**
+ * A requirement found in a job description.
+ */
+export interface Requirement {
+  text: string
+  priority: RequirementPriority
+}
+
+/**
+ * Lists the requirements in a job description, must-haves first, each
+ * group in posting order.
+ *
+ * @param jobDescription - Job description text
+ * @returns Requirements with their priority
+ */
+export function extractRequirements(jobDescription: string): Requirement[] {
+  const { requirements, niceToHaves } = parseJobDescription(jobDescription)
+  return [
+    ...requirements.map((text) => ({ text, priority: "must-have" as const })),
+    ...niceToHaves.map((text) => ({ text, priority: "nice-to-have" as const })),
+  ].slice(0, MAX_REQUIREMENTS)
+}
+
+/**
+ * Splits the experience into lines and sentences that can serve as
+ * evidence, without list markers.
+ */
+function evidenceLines(experience: string): string[] {
+  return experience
+    .split(/\n|(?<=[.!?])\s+/)
+    .map((line) => line.trim().replace(/^(?:[-*•●▪]|\d+[.)])\s+/, ""))
+    .filter((line) => line.length >= 10)
+}
+
+/**
+ * Joins terms for a sentence: "A", "A and B", "A, B and C".
+ */
+function listTerms(terms: string[]): string {
+  return terms.length <= 1
+    ? (terms[0] ?? "")
+    : `${terms.slice(0, -1).join(", ")} and ${terms[terms.length - 1]}`
+}
+
+/**
+ * Suggests what to add to the experience for a requirement that isn't
+ * fully backed up.
+ */
+function suggest(
+  requirement: Requirement,
+  status: RequirementGap["status"],
+  missingTerms: string[]
+): string | undefined {
+  if (status === "supported") return undefined
+
+  if (status === "partial") {
+    return `Mention ${listTerms(missingTerms)} where you describe this work, if you used ${missingTerms.length === 1 ? "it" : "them"}`
+  }
+
+  if (missingTerms.length > 0) {
+    return `Add a line showing where you've used ${listTerms(missingTerms)}, if you have`
+  }
+
+  return requirement.priority === "must-have"
+    ? "Add an example that shows this, or be ready to address it in your cover letter"
+    : "Add an example that shows this if you have one; it's optional"
+}
+
+/**
+ * Checks one requirement against the experience.
+ *
+ * @param requirement - Requirement from extractRequirements
+ * @param lines - Evidence lines from the experience
+ * @param experience - Full experience text
+ * @returns The requirement with its status, evidence and suggestion
+ */
+function checkRequirement(
+  requirement: Requirement,
+  lines: string[],
+  experience: string
+): RequirementGap {
+  // Named skills, tools and certifications must appear literally
+  const terms = extractKeywords(requirement.text).filter(
+    (keyword) => keyword.category !== "responsibility"
+  )
+  const unmatched = terms
+    .filter((keyword) => !mentionsKeyword(keyword, experience))
+    .map((keyword) => keyword.term)
+  // "Go or Python" is met by either one
+  const missingTerms =
+    /\bor\b/i.test(requirement.text) && unmatched.length < terms.length
+      ? []
+      : unmatched
+
+  // Other words only need to overlap, ignoring "5+ years of" and the like
+  const wanted = [...new Set(contentWords(requirement.text))].filter(
+    (word) => !FILLER.has(word)
+  )
+
+  let evidence: string | undefined
+  let bestScore = 0
+  for (const line of lines) {
+    const termHits = terms.filter((k) => mentionsKeyword(k, line)).length
+    const present = new Set(contentWords(line))
+    const wordHits = wanted.filter((word) => present.has(word)).length
+    const overlap = wanted.length > 0 ? wordHits / wanted.length : 0
+
+    if (
+      termHits === 0 &&
+      (overlap < 0.4 || wordHits < Math.min(2, wanted.length))
+    ) {
+      continue
+    }
+
+    const score = termHits * 2 + wordHits
+    if (score > bestScore) {
+      bestScore = score
+      evidence = line
+    }
+  }
+
+  const status = !evidence
+    ? "missing"
+    : missingTerms.length > 0
+      ? "partial"
+      : "supported"
+
+  return {
+    requirement: requirement.text,
+    priority: requirement.priority,
+    status,
+    ...(evidence && { evidence }),
+    missingTerms,
+    ...(status !== "supported" && {
+      suggestion: suggest(requirement, status, missingTerms),
+    }),
+  }
+}
+
+/**
+ * Checks every requirement in a job description against the experience.
+ *
+ * @param jobDescription - Job description text
+ * @param experience - The user's experience input
+ * @returns Checked requirements and a 0-100 score: the share of
+ *   must-haves backed up (all requirements if there are no must-haves),
+ *   with partial matches counting half
+ */
+export function analyzeGaps(
+  jobDescription: string,
+  experience: string
+): GapAnalysis {
+  const lines = evidenceLines(experience)
+  const requirements = extractRequirements(jobDescription).map((r) =>
+    checkRequirement(r, lines, experience)
+  )
+
+  const mustHaves = requirements.filter((r) => r.priority === "must-have")
+  const scored = mustHaves.length > 0 ? mustHaves : requirements
+  const points = scored.reduce(
+    (sum, r) =>
+      sum + (r.status === "supported" ? 1 : r.status === "partial" ? 0.5 : 0),
+    0
+  )
+
+  return {
+    requirements,
+    score: scored.length > 0 ? Math.round((points / scored.length) * 100) : 0,
+  }
+}
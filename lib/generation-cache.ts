@@ -0,0 +1,133 @@
+import crypto from "crypto"
+import { redis, REDIS_KEYS } from "@/lib/redis"
+import { getErrorMessage } from "@/lib/utils"
+import type {
+  Bullet,
+  BulletOptions,
+  GenerationMode,
+  KeywordCoverage,
+  Role,
+} from "@/lib/validation"
+
+/**
+ * Content-addressed cache for generation results.
+ *
+ * Identical requests (same inputs, options, prompt version and model) get
+ * the stored result back instead of a new LLM call, and are not charged.
+ * Keys are hashes, so nothing about the inputs is readable from Redis
+ * key names.
+ */
+
+/**
+ * How long a cached result is kept (24 hours in seconds).
+ */
+export const GENERATION_CACHE_TTL_SECONDS = 86400
+
+/**
+ * Everything that affects the generated bullets.
+ */
+export interface GenerationCacheInput {
+  jobDescription: string
+  experience: string
+  /** Positions, when the experience was given per role */
+  roles?: Role[]
+  options: BulletOptions
+  autoFix: boolean
+  redactPii: boolean
+  mode: GenerationMode
+  /** Prompt version from the registry */
+  promptVersion: string
+  /** Model asked for the bullets */
+  model: string
+}
+
+/**
+ * A stored generation result.
+ */
+export interface CachedGeneration {
+  bullets: Bullet[]
+  coverage: KeywordCoverage
+}
+
+/**
+ * Normalizes text so whitespace-only edits hit the same entry.
+ */
+function normalizeText(text: string): string {
+  return text.replace(/\r\n?/g, "\n").replace(/\s+/g, " ").trim()
+}
+
+/**
+ * Computes the cache key for a request.
+ *
+ * @param input - Request inputs and options
+ * @returns Hex SHA-256 of the normalized inputs
+ */
+export function hashGenerationInput(input: GenerationCacheInput): string {
+  const {
+    bulletCount,
+    wordRange,
+    seniority,
+    roleFamily,
+    metricPlaceholders,
+    variants,
+  } = input.options
+
+  // Fixed field order so equal requests always serialize the same way
+  const canonical = JSON.stringify([
+    input.promptVersion,
+    input.model,
+    input.mode,
+    normalizeText(input.jobDescription),
+    normalizeText(input.experience),
+    input.roles?.map((role) => [
+      role.company,
+      role.title,
+      role.dates ?? null,
+      normalizeText(role.notes),
+    ]) ?? null,
+    bulletCount,
+    wordRange.min,
+    wordRange.max,
+    seniority ?? null,
+    roleFamily ?? null,
+    metricPlaceholders ?? false,
+    variants ?? 1,
+    input.autoFix,
+    input.redactPii,
+  ])
+
+  return crypto.createHash("sha256").update(canonical).digest("hex")
+}
+
+/**
+ * Looks up a previous result. Cache errors are treated as a miss.
+ *
+ * @param hash - Key from hashGenerationInput
+ * @returns Cached result, or null
+ */
+export async function getCachedGeneration(
+  hash: string
+): Promise<CachedGeneration | null> {
+  try {
+    return await redis.get<CachedGeneration>(REDIS_KEYS.generationCache(hash))
+  } catch (error) {
+    console.error("Failed to read generation cache:", getErrorMessage(error))
+    return null
+  }
+}
+
+/**
+ * Stores a result without delaying or failing the response.
+ *
+ * @param hash - Key from hashGenerationInput
+ * @param result - Final bullets and coverage report
+ */
+export function cacheGeneration(hash: string, result: CachedGeneration): void {
+  redis
+    .set(REDIS_KEYS.generationCache(hash), result, {
+      ex: GENERATION_CACHE_TTL_SECONDS,
+    })
+    .catch((error) => {
+      console.error("Failed to write generation cache:", getErrorMessage(error))
+    })
+}
@@ -0,0 +1,366 @@
+import {
+  extractKeywords,
+  HEADING,
+  RESPONSIBILITY_HEADING,
+} from "@/lib/keywords"
+import type {
+  JobPosting,
+  RequirementPriority,
+  SeniorityLevel,
+  WorkplaceType,
+} from "@/lib/validation"
+
+/**
+ * Job description parsing.
+ *
+ * Reads a pasted job posting once and returns its parts (title, company,
+ * level, location, requirements) so prompts and the UI don't each re-read
+ * the raw text. Heuristic and local: anything it can't find is left out
+ * rather than guessed.
+ */
+
+/**
+ * Most items kept per list, so a long posting stays manageable.
+ */
+const MAX_ITEMS = 20
+
+/**
+ * A list item ("- ...", "• ...", "1. ...").
+ */
+const LIST_ITEM = /^(?:[-*•●▪]|\d+[.)])\s+(.+)$/
+
+/**
+ * Headings that introduce optional requirements. Checked before
+ * MUST_HAVE_HEADING, since "Preferred qualifications" matches both.
+ */
+const NICE_TO_HAVE_HEADING =
+  /nice.to.have|preferred|bonus|plus|desirable|ideal|extra credit/i
+
+/**
+ * Headings that introduce required skills and experience.
+ */
+const MUST_HAVE_HEADING =
+  /requirement|qualification|must.have|what you.?ll need|what you need|what you bring|you have|about you|who you are|skills|experience/i
+
+/**
+ * Wording that makes a single item optional wherever it appears.
+ */
+const NICE_TO_HAVE_ITEM =
+  /\b(?:preferred|a plus|bonus|nice to have|ideally|desirable|advantageous)\b/i
+
+/**
+ * Wording that marks a list item as a requirement when the posting has no
+ * requirements heading.
+ */
+const REQUIREMENT_HINT =
+  /\b(?:experience|years?|knowledge|proficien|familiar|degree|understanding|ability|skills?|expertise|background|certif)/i
+
+/**
+ * Nouns that end most job titles.
+ */
+const ROLE_NOUN =
+  /\b(?:engineer|developer|programmer|manager|designer|analyst|scientist|researcher|specialist|director|lead|consultant|coordinator|architect|administrator|officer|associate|intern|representative|accountant|writer|editor|marketer|recruiter|technician|strategist|owner|head|president|assistant|advisor|nurse|teacher)s?\b/i
+
+/**
+ * "Title: ...", "Position: ...", "Role: ...".
+ */
+const TITLE_LABEL = /^(?:job\s+title|title|position|role)\s*:\s*(.+)$/im
+
+/**
+ * "Company: ...", "Employer: ...".
+ */
+const COMPANY_LABEL = /^(?:company|employer|organi[sz]ation)\s*:\s*(.+)$/im
+
+/**
+ * "Location: ...", "Based in: ...".
+ */
+const LOCATION_LABEL = /^(?:location|based in|office)\s*:\s*(.+)$/im
+
+/**
+ * A run of capitalized words, such as a title or company name.
+ */
+const PROPER_NAME = String.raw`[A-Z][\w&.'’/+-]*(?:\s+(?:of\s+|&\s+)?[A-Z][\w&.'’/+-]*){0,5}`
+
+/**
+ * "We're hiring a Senior Data Engineer", "looking for a Product Designer",
+ * "join our team as a Staff Engineer".
+ */
+const HIRING_TITLE = new RegExp(
+  String.raw`\b(?:hiring|looking for|seeking|[Jj]oin (?:us|our team) as)\s+(?:an?\s+)?(${PROPER_NAME})`
+)
+
+/**
+ * "Join Acme", "Acme is hiring", "About Acme".
+ */
+const COMPANY_PATTERNS = [
+  new RegExp(String.raw`\bJoin\s+(${PROPER_NAME})`),
+  new RegExp(
+    String.raw`(?:^|[.!]\s+)(${PROPER_NAME})\s+is\s+(?:hiring|looking|seeking)`,
+    "m"
+  ),
+  new RegExp(String.raw`^#*\s*About\s+(${PROPER_NAME})\s*:?\s*$`, "m"),
+]
+
+/**
+ * Words that start a phrase but aren't a company name ("About Us",
+ * "Join Our Team", "We are hiring").
+ */
+const NOT_A_COMPANY = /^(?:us|the|our|you|your|this|we|a|an|it)\b/i
+
+/**
+ * Title words that imply a level, most specific first.
+ */
+const SENIORITY_PATTERNS: [RegExp, SeniorityLevel][] = [
+  [/\bintern(?:ship)?\b/i, "intern"],
+  [/\b(?:chief|vp|vice president|cto|ceo|cfo|coo|cpo)\b/i, "executive"],
+  [/\bdirector\b/i, "director"],
+  [
+    /\b(?:engineering|team|people|general|store|operations)\s+manager\b/i,
+    "manager",
+  ],
+  [/\b(?:lead|principal|staff|head of)\b/i, "lead"],
+  [/\b(?:senior|sr\.?)(?=\s|$)/i, "senior"],
+  [/\b(?:junior|jr\.?|entry[- ]level|graduate)(?=\s|$)/i, "entry"],
+  [/\b(?:mid[- ]level|intermediate)\b/i, "mid"],
+]
+
+/**
+ * "5+ years", "3-5 years", "at least 2 yrs".
+ */
+const YEARS =
+  /\b(\d{1,2})\s*\+?\s*(?:(?:-|–|to)\s*\d{1,2}\s*)?\+?\s*(?:years?|yrs)\b/gi
+
+/**
+ * Which section a heading starts: requirements, responsibilities or
+ * anything else (benefits, about the company).
+ */
+type Section = RequirementPriority | "responsibility" | "other"
+
+function sectionFor(heading: string): Section {
+  if (RESPONSIBILITY_HEADING.test(heading)) return "responsibility"
+  if (NICE_TO_HAVE_HEADING.test(heading)) return "nice-to-have"
+  if (MUST_HAVE_HEADING.test(heading)) return "must-have"
+  return "other"
+}
+
+/**
+ * Tidies a captured value: single spaces, no trailing punctuation or
+ * markdown emphasis.
+ */
+function clean(text: string): string {
+  return text
+    .replace(/[*_`]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/[\s,.;:!-]+$/, "")
+}
+
+/**
+ * Removes repeats (ignoring case) and caps the list length.
+ */
+function unique(items: string[]): string[] {
+  return [
+    ...new Map(items.map((item) => [item.toLowerCase(), item])).values(),
+  ].slice(0, MAX_ITEMS)
+}
+
+/**
+ * Sorts list items into requirements, nice-to-haves and responsibilities
+ * by the heading they appear under. When the posting has no requirements
+ * heading, any list item that reads like a requirement counts as one.
+ */
+function splitSections(jobDescription: string) {
+  const requirements: string[] = []
+  const niceToHaves: string[] = []
+  const responsibilities: string[] = []
+  const elsewhere: string[] = []
+  let section: Section | null = null
+
+  for (const line of jobDescription.split("\n").map((l) => l.trim())) {
+    const item = line.match(LIST_ITEM)?.[1]?.trim()
+
+    if (!item) {
+      if (line && HEADING.test(line)) section = sectionFor(line)
+      continue
+    }
+
+    if (section === "must-have" || section === "nice-to-have") {
+      if (section === "nice-to-have" || NICE_TO_HAVE_ITEM.test(item)) {
+        niceToHaves.push(item)
+      } else {
+        requirements.push(item)
+      }
+      continue
+    }
+
+    if (section === "responsibility") responsibilities.push(item)
+    elsewhere.push(item)
+  }
+
+  if (requirements.length === 0 && niceToHaves.length === 0) {
+    for (const item of elsewhere) {
+      if (!REQUIREMENT_HINT.test(item)) continue
+      if (NICE_TO_HAVE_ITEM.test(item)) niceToHaves.push(item)
+      else requirements.push(item)
+    }
+  }
+
+  return {
+    requirements: unique(requirements),
+    niceToHaves: unique(niceToHaves),
+    responsibilities: unique(responsibilities),
+  }
+}
+
+/**
+ * Splits a first line like "Senior Engineer at Acme" or
+ * "Acme | Product Designer" into title and company.
+ */
+function splitTitleLine(line: string): { title?: string; company?: string } {
+  const text = clean(line.replace(/^#+\s*/, ""))
+  if (text.length > 100 || !ROLE_NOUN.test(text)) return {}
+
+  const at = text.match(/^(.+?)\s+(?:at|@)\s+(.+)$/i)
+  if (at?.[1] && at[2] && ROLE_NOUN.test(at[1])) {
+    return { title: clean(at[1]), company: clean(at[2]) }
+  }
+
+  const parts = text.split(/\s+[|–—-]\s+/)
+  if (parts.length === 2 && parts[0] && parts[1]) {
+    const [first, second] = parts
+    return ROLE_NOUN.test(first)
+      ? { title: first, company: second }
+      : { title: second, company: first }
+  }
+
+  // A sentence ("We are looking for...") is not a title
+  return text.split(/\s+/).length <= 8 && !/[.!?]/.test(text)
+    ? { title: text }
+    : {}
+}
+
+/**
+ * Finds the job title and company name.
+ */
+function findTitleAndCompany(jobDescription: string): {
+  title?: string
+  company?: string
+} {
+  const firstLine = jobDescription
+    .split("\n")
+    .map((line) => line.trim())
+    .find(Boolean)
+  const fromFirstLine = firstLine ? splitTitleLine(firstLine) : {}
+
+  const labeledTitle = jobDescription.match(TITLE_LABEL)?.[1]
+  const hiringTitle = jobDescription
+    .match(HIRING_TITLE)?.[1]
+    ?.match(new RegExp(String.raw`^.*?${ROLE_NOUN.source}`, "i"))?.[0]
+  const title = labeledTitle
+    ? clean(labeledTitle)
+    : (fromFirstLine.title ?? (hiringTitle && clean(hiringTitle)))
+
+  const labeledCompany = jobDescription.match(COMPANY_LABEL)?.[1]
+  let company = labeledCompany ? clean(labeledCompany) : fromFirstLine.company
+  for (const pattern of COMPANY_PATTERNS) {
+    if (company) break
+    const name = jobDescription.match(pattern)?.[1]
+    if (name && !NOT_A_COMPANY.test(name)) company = clean(name)
+  }
+
+  return {
+    ...(title && { title }),
+    ...(company && { company }),
+  }
+}
+
+/**
+ * Finds where the job is done. Hybrid wins over remote, since hybrid
+ * postings usually mention remote days too.
+ */
+function findWorkplace(jobDescription: string): WorkplaceType | undefined {
+  if (/\bhybrid\b/i.test(jobDescription)) return "hybrid"
+  if (
+    /\b(?:fully\s+)?remote\b|\bwork from (?:home|anywhere)\b/i.test(
+      jobDescription
+    ) &&
+    !/\bno(?:t)?\s+remote\b/i.test(jobDescription)
+  ) {
+    return "remote"
+  }
+  if (
+    /\bon[- ]?site\b|\bin[- ]office\b|\bin[- ]person\b/i.test(jobDescription)
+  ) {
+    return "on-site"
+  }
+  return undefined
+}
+
+/**
+ * Finds the years of experience asked for: the largest lower bound among
+ * the requirements, so "5+ years of Go, 2+ years of Rust" gives 5.
+ */
+function findYears(text: string): number | undefined {
+  const years = [...text.matchAll(YEARS)]
+    .map((match) => Number(match[1]))
+    .filter((n) => n > 0 && n <= 30)
+  return years.length > 0 ? Math.max(...years) : undefined
+}
+
+/**
+ * Infers a level from the title, falling back to the years asked for.
+ */
+function findSeniority(
+  title: string | undefined,
+  yearsRequired: number | undefined
+): SeniorityLevel | undefined {
+  if (title) {
+    const match = SENIORITY_PATTERNS.find(([pattern]) => pattern.test(title))
+    if (match) return match[1]
+  }
+
+  if (yearsRequired === undefined) return undefined
+  if (yearsRequired >= 5) return "senior"
+  if (yearsRequired >= 2) return "mid"
+  return "entry"
+}
+
+/**
+ * Parses a job description into a structured posting.
+ *
+ * @param jobDescription - Job description text
+ * @returns Parsed posting; fields that couldn't be found are omitted
+ */
+export function parseJobDescription(jobDescription: string): JobPosting {
+  const { title, company } = findTitleAndCompany(jobDescription)
+  const { requirements, niceToHaves, responsibilities } =
+    splitSections(jobDescription)
+
+  const location = jobDescription.match(LOCATION_LABEL)?.[1]
+  const workplace = findWorkplace(jobDescription)
+  const yearsRequired = findYears(
+    requirements.length > 0 ? requirements.join("\n") : jobDescription
+  )
+  const seniority = findSeniority(title, yearsRequired)
+
+  // Named skills from the must-haves, or from the whole posting when it
+  // has no requirements list
+  const requiredSkills = extractKeywords(
+    requirements.length > 0 ? requirements.join("\n") : jobDescription
+  )
+    .filter((keyword) => keyword.category !== "responsibility")
+    .map((keyword) => keyword.term)
+
+  return {
+    ...(title && { title }),
+    ...(company && { company }),
+    ...(seniority && { seniority }),
+    ...(location && { location: clean(location) }),
+    ...(workplace && { workplace }),
+    ...(yearsRequired !== undefined && { yearsRequired }),
+    requiredSkills,
+    requirements,
+    niceToHaves,
+    responsibilities,
+  }
+}
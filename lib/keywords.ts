@@ -0,0 +1,588 @@
+import type {
+  Bullet,
+  JobKeyword,
+  KeywordCategory,
+  KeywordCoverage,
+} from "@/lib/validation"
+
+/**
+ * ATS keyword analysis.
+ *
+ * Extracts the hard skills, tools, certifications and responsibilities a
+ * job description asks for, then reports which of them the generated
+ * bullets cover. Runs without the LLM so the client can recompute the
+ * score whenever the bullets change.
+ */
+
+/**
+ * Known terms per category. The first spelling is the display term,
+ * the rest are aliases ("Kubernetes|k8s").
+ */
+const DICTIONARY: Record<
+  Exclude<KeywordCategory, "responsibility">,
+  string[]
+> = {
+  tool: [
+    "JavaScript|JS",
+    "TypeScript",
+    "Python",
+    "Java",
+    "C++",
+    "C#",
+    "Go|Golang",
+    "Rust",
+    "Ruby",
+    "PHP",
+    "Swift",
+    "Kotlin",
+    "Scala",
+    "SQL",
+    "PostgreSQL|Postgres",
+    "MySQL",
+    "MongoDB|Mongo",
+    "Redis",
+    "Elasticsearch",
+    "Kafka",
+    "Spark|Apache Spark|PySpark",
+    "Hadoop",
+    "Airflow",
+    "Snowflake",
+    "BigQuery",
+    "Databricks",
+    "dbt",
+    "Tableau",
+    "Power BI|PowerBI",
+    "Looker",
+    "Excel|Microsoft Excel",
+    "React|React.js|ReactJS",
+    "Next.js|NextJS",
+    "Vue|Vue.js",
+    "Angular",
+    "Node.js|NodeJS",
+    "Django",
+    "Flask",
+    "Spring Boot",
+    "Ruby on Rails|Rails",
+    ".NET",
+    "GraphQL",
+    "HTML",
+    "CSS",
+    "Tailwind|Tailwind CSS",
+    "React Native",
+    "Flutter",
+    "iOS",
+    "Android",
+    "AWS|Amazon Web Services",
+    "GCP|Google Cloud",
+    "Azure",
+    "Docker",
+    "Kubernetes|k8s",
+    "Terraform",
+    "Ansible",
+    "Jenkins",
+    "GitHub Actions",
+    "Git",
+    "Linux",
+    "Datadog",
+    "Splunk",
+    "Grafana",
+    "Prometheus",
+    "TensorFlow",
+    "PyTorch",
+    "scikit-learn|sklearn",
+    "Pandas",
+    "Figma",
+    "Adobe Creative Suite",
+    "Photoshop",
+    "Illustrator",
+    "Salesforce",
+    "HubSpot",
+    "Marketo",
+    "Google Analytics|GA4",
+    "Google Ads",
+    "Jira",
+    "Confluence",
+    "Asana",
+    "Zendesk",
+    "Intercom",
+    "SAP",
+    "NetSuite",
+    "QuickBooks",
+    "Workday",
+    "Shopify",
+    "Amplitude",
+    "Mixpanel",
+  ],
+  skill: [
+    "machine learning|ML",
+    "deep learning",
+    "natural language processing|NLP",
+    "computer vision",
+    "data analysis|data analytics",
+    "data modeling",
+    "data visualization",
+    "statistics|statistical analysis",
+    "A/B testing|experimentation",
+    "ETL|data pipelines",
+    "REST APIs|RESTful APIs|REST API",
+    "microservices",
+    "distributed systems",
+    "system design",
+    "CI/CD|continuous integration",
+    "DevOps",
+    "infrastructure as code",
+    "observability",
+    "cybersecurity|information security",
+    "test automation|automated testing",
+    "quality assurance|QA",
+    "agile",
+    "scrum",
+    "kanban",
+    "product management",
+    "project management",
+    "program management",
+    "roadmapping|roadmap",
+    "user research",
+    "UX|user experience",
+    "UI design",
+    "prototyping|wireframing",
+    "design systems",
+    "accessibility|WCAG",
+    "SEO",
+    "SEM|paid search",
+    "content marketing",
+    "email marketing",
+    "social media",
+    "demand generation",
+    "lead generation",
+    "copywriting",
+    "brand strategy",
+    "go-to-market|GTM",
+    "market research",
+    "competitive analysis",
+    "financial modeling",
+    "forecasting",
+    "budgeting",
+    "FP&A",
+    "GAAP",
+    "auditing",
+    "reconciliation",
+    "negotiation",
+    "account management",
+    "pipeline management",
+    "CRM",
+    "customer onboarding",
+    "stakeholder management",
+    "B2B",
+    "SaaS",
+    "front-end|frontend",
+    "back-end|backend",
+    "full-stack|full stack",
+    "performance optimization",
+    "patient care",
+    "EHR|EMR|electronic health records",
+    "curriculum development",
+    "lesson planning",
+    "supply chain",
+    "logistics",
+    "inventory management",
+    "vendor management",
+    "process improvement",
+  ],
+  certification: [
+    "PMP",
+    "CAPM",
+    "CPA",
+    "CFA",
+    "CMA",
+    "CISSP",
+    "CISM",
+    "CISA",
+    "CompTIA Security+|Security+",
+    "CCNA",
+    "CCNP",
+    "AWS Certified",
+    "Google Cloud Certified",
+    "CKA",
+    "Certified ScrumMaster|CSM|Certified Scrum Master",
+    "PSM",
+    "SAFe",
+    "ITIL",
+    "Six Sigma|Lean Six Sigma",
+    "PHR",
+    "SPHR",
+    "SHRM-CP",
+    "SHRM-SCP",
+    "Registered Nurse|RN",
+    "BLS",
+    "ACLS",
+    "NCLEX",
+    "Series 7",
+    "Series 63",
+    "CPR",
+  ],
+}
+
+/**
+ * Aliases that are ordinary words when lowercase ("go", "excel at").
+ * These only match with their exact capitalization.
+ */
+const CASE_SENSITIVE = new Set([
+  "Go",
+  "Excel",
+  "Swift",
+  "Spark",
+  "Rust",
+  "React",
+])
+
+/**
+ * Uppercase words that look like skills but are not.
+ */
+const NON_SKILL_ACRONYMS = new Set([
+  "US",
+  "USA",
+  "UK",
+  "EU",
+  "NYC",
+  "SF",
+  "EEO",
+  "EOE",
+  "CEO",
+  "CTO",
+  "CFO",
+  "COO",
+  "VP",
+  "HR",
+  "PTO",
+  "WFH",
+  "FTE",
+  "LLC",
+  "INC",
+  "ASAP",
+  "TBD",
+  "FAQ",
+  "OK",
+  "ID",
+  "EST",
+  "PST",
+  "ET",
+  "PT",
+  "II",
+  "III",
+  "IV",
+  "AND",
+  "OR",
+  "THE",
+  "YOU",
+  "WE",
+  "AI",
+])
+
+/**
+ * Headings that introduce a list of responsibilities.
+ */
+export const RESPONSIBILITY_HEADING =
+  /responsibilit|what you.?ll do|what you will do|duties|day.to.day|in this role|the role/i
+
+/**
+ * A short line that introduces a section ("Requirements:", "## About you").
+ * Any other heading ends the responsibilities section.
+ */
+export const HEADING = /^#*\s*(?:[^.!?]{2,60}:|(?:[\w&'’/-]+\s*){1,6})$/
+
+/**
+ * Verbs that start a responsibility line when the job description
+ * has no responsibilities heading.
+ */
+const RESPONSIBILITY_VERBS = new Set([
+  "build",
+  "design",
+  "develop",
+  "lead",
+  "manage",
+  "own",
+  "drive",
+  "create",
+  "implement",
+  "maintain",
+  "support",
+  "partner",
+  "collaborate",
+  "analyze",
+  "write",
+  "mentor",
+  "deliver",
+  "improve",
+  "define",
+  "oversee",
+  "coordinate",
+  "establish",
+  "execute",
+  "monitor",
+  "optimize",
+  "plan",
+  "report",
+  "review",
+  "run",
+  "scale",
+  "ship",
+  "work",
+])
+
+/**
+ * Words ignored when comparing responsibilities with bullets.
+ */
+const STOPWORDS = new Set([
+  "and",
+  "the",
+  "with",
+  "for",
+  "from",
+  "into",
+  "across",
+  "our",
+  "your",
+  "their",
+  "that",
+  "this",
+  "these",
+  "those",
+  "will",
+  "work",
+  "team",
+  "teams",
+  "other",
+  "more",
+  "such",
+  "including",
+  "ensure",
+  "help",
+  "new",
+])
+
+/**
+ * Maximum keywords per category, so long postings don't dilute the score.
+ */
+const MAX_PER_CATEGORY: Record<KeywordCategory, number> = {
+  certification: 5,
+  tool: 12,
+  skill: 10,
+  responsibility: 6,
+}
+
+/**
+ * Builds the matcher for one alias: whole-word, case-insensitive unless the
+ * alias is listed in CASE_SENSITIVE. Handles symbols such as "C++" and ".NET".
+ */
+function aliasPattern(alias: string): RegExp {
+  const escaped = alias.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+  const flags = CASE_SENSITIVE.has(alias) ? "" : "i"
+  return new RegExp(`(?<![A-Za-z0-9.])${escaped}(?![A-Za-z0-9+#])`, flags)
+}
+
+/**
+ * Reduces a word to a rough stem so "designing" matches "design".
+ */
+function stem(word: string): string {
+  let stemmed = word
+  while (stemmed.length > 4 && /(ing|ed|es|e|s)$/.test(stemmed)) {
+    stemmed = stemmed.replace(/(ing|ed|es|e|s)$/, "")
+  }
+  return stemmed
+}
+
+/**
+ * Significant stemmed words in a piece of text.
+ */
+export function contentWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9+#]+/)
+    .filter((word) => word.length > 2 && !STOPWORDS.has(word))
+    .map(stem)
+}
+
+/**
+ * Finds dictionary terms in the job description, in order of appearance.
+ */
+function extractDictionaryTerms(
+  jobDescription: string,
+  category: Exclude<KeywordCategory, "responsibility">
+): JobKeyword[] {
+  return DICTIONARY[category]
+    .map((entry) => {
+      const [term = "", ...aliases] = entry.split("|")
+      const positions = [term, ...aliases]
+        .map((alias) => jobDescription.search(aliasPattern(alias)))
+        .filter((position) => position >= 0)
+      return { keyword: { term, category, aliases }, positions }
+    })
+    .filter(({ positions }) => positions.length > 0)
+    .sort((a, b) => Math.min(...a.positions) - Math.min(...b.positions))
+    .map(({ keyword }) => keyword)
+}
+
+/**
+ * Finds uppercase acronyms (e.g. "HIPAA", "SOC2") not in the dictionary.
+ * `known` holds the lowercase words of terms already extracted, so the
+ * "CI" in "CI/CD" is not reported twice.
+ */
+function extractAcronyms(jobDescription: string, known: Set<string>) {
+  const acronyms = new Set<string>()
+
+  for (const [word] of jobDescription.matchAll(/\b[A-Z][A-Z0-9]{1,5}\b/g)) {
+    if (!known.has(word.toLowerCase()) && !NON_SKILL_ACRONYMS.has(word)) {
+      acronyms.add(word)
+    }
+  }
+
+  return [...acronyms].map((term): JobKeyword => ({
+    term,
+    category: "skill",
+    aliases: [],
+  }))
+}
+
+/**
+ * Finds responsibility lines: list items under a responsibilities heading,
+ * or list items starting with a common verb when there is no such heading.
+ * Each is shortened to its first few words.
+ */
+function extractResponsibilities(jobDescription: string): JobKeyword[] {
+  const lines = jobDescription.split("\n").map((line) => line.trim())
+  const items: string[] = []
+  const verbItems: string[] = []
+  let inSection = false
+
+  for (const line of lines) {
+    const item = line.match(/^(?:[-*•●▪]|\d+[.)])\s+(.+)$/)?.[1]
+
+    if (!item) {
+      if (RESPONSIBILITY_HEADING.test(line) && HEADING.test(line)) {
+        inSection = true
+      } else if (line && HEADING.test(line)) {
+        inSection = false
+      }
+      continue
+    }
+
+    const firstWord = item.split(/\s+/)[0]?.toLowerCase() ?? ""
+    if (inSection) items.push(item)
+    else if (RESPONSIBILITY_VERBS.has(firstWord)) verbItems.push(item)
+  }
+
+  return (items.length > 0 ? items : verbItems).map((item) => ({
+    term: shortenPhrase(item),
+    category: "responsibility",
+    aliases: [],
+  }))
+}
+
+/**
+ * Cuts a responsibility down to its first clause, at most seven words,
+ * without a dangling "and" or "that" at the end.
+ */
+function shortenPhrase(text: string): string {
+  const words = (text.split(/[,;:.(]/)[0] ?? text).trim().split(/\s+/)
+  const phrase = words.slice(0, 7)
+
+  while (phrase.length > 2) {
+    const last = phrase[phrase.length - 1]?.toLowerCase() ?? ""
+    if (!STOPWORDS.has(last) && last.length > 3) break
+    phrase.pop()
+  }
+
+  return phrase.join(" ")
+}
+
+/**
+ * Extracts keywords from a job description.
+ *
+ * @param jobDescription - Job description text
+ * @returns Keywords grouped by category, each in order of appearance
+ */
+export function extractKeywords(jobDescription: string): JobKeyword[] {
+  const certifications = extractDictionaryTerms(jobDescription, "certification")
+  const tools = extractDictionaryTerms(jobDescription, "tool")
+  const skills = extractDictionaryTerms(jobDescription, "skill")
+
+  const known = new Set(
+    [...certifications, ...tools, ...skills]
+      .flatMap((k) => [k.term, ...k.aliases])
+      .flatMap((term) => term.toLowerCase().split(/[^a-z0-9+#]+/))
+  )
+
+  const limit = (keywords: JobKeyword[], category: KeywordCategory) =>
+    keywords.slice(0, MAX_PER_CATEGORY[category])
+
+  return [
+    ...limit(certifications, "certification"),
+    ...limit(tools, "tool"),
+    ...limit([...skills, ...extractAcronyms(jobDescription, known)], "skill"),
+    ...limit(extractResponsibilities(jobDescription), "responsibility"),
+  ]
+}
+
+/**
+ * Whether a keyword appears in a piece of text.
+ * Responsibilities match when at least half of their significant words do.
+ *
+ * @param keyword - Keyword to look for
+ * @param text - Text to search
+ * @returns Whether the text covers the keyword
+ */
+export function mentionsKeyword(keyword: JobKeyword, text: string): boolean {
+  if (keyword.category === "responsibility") {
+    const wanted = contentWords(keyword.term)
+    if (wanted.length === 0) return false
+
+    const present = new Set(contentWords(text))
+    const found = wanted.filter((word) => present.has(word)).length
+    return found / wanted.length >= 0.5
+  }
+
+  return [keyword.term, ...keyword.aliases].some((alias) =>
+    aliasPattern(alias).test(text)
+  )
+}
+
+/**
+ * Reports which keywords the bullets cover.
+ *
+ * @param keywords - Keywords from extractKeywords
+ * @param bullets - Current bullets
+ * @param experience - The user's experience input
+ * @returns Coverage report with a 0-100 match score
+ */
+export function analyzeCoverage(
+  keywords: JobKeyword[],
+  bullets: Pick<Bullet, "text">[],
+  experience: string
+): KeywordCoverage {
+  const bulletText = bullets.map((b) => b.text).join("\n")
+  const coverage: KeywordCoverage = {
+    score: 0,
+    covered: [],
+    missedInBullets: [],
+    missing: [],
+  }
+
+  for (const keyword of keywords) {
+    if (mentionsKeyword(keyword, bulletText)) {
+      coverage.covered.push(keyword)
+    } else if (mentionsKeyword(keyword, experience)) {
+      coverage.missedInBullets.push(keyword)
+    } else {
+      coverage.missing.push(keyword)
+    }
+  }
+
+  if (keywords.length > 0) {
+    coverage.score = Math.round(
+      (coverage.covered.length / keywords.length) * 100
+    )
+  }
+
+  return coverage
+}
@@ -0,0 +1,407 @@
+/**
+ * Text generation entry point.
+ *
+ * All generation goes through `generateCompletion` / `streamCompletion`,
+ * which delegate to the provider selected by `LLM_PROVIDER` (OpenAI by
+ * default; see `lib/providers`). Transient failures are retried with
+ * backoff, each attempt has a hard timeout, and the provider's fallback
+ * models are tried before an error reaches the caller. With a redactor,
+ * personal details are replaced by placeholders before any text leaves the
+ * server and restored in the reply.
+ */
+
+import {
+  getProvider,
+  createProviderError,
+  isProviderError,
+  type ChatMessage,
+  type CompletionRequest,
+  type LLMProvider,
+  type TokenUsage,
+} from "@/lib/providers"
+import { trackCompletionOutcome, type CompletionOutcome } from "@/lib/redis"
+import type { Redactor } from "@/lib/pii"
+import { getErrorMessage, sleep } from "@/lib/utils"
+
+export type { ChatMessage, MessageRole } from "@/lib/providers"
+
+/**
+ * Configuration for resume bullet generation.
+ * The model comes from the active provider unless overridden per call.
+ */
+export const GENERATION_CONFIG = {
+  temperature: 0.7, // Balance between creativity and consistency
+  maxTokens: 1500, // Enough for 10 detailed bullets
+  presencePenalty: 0.1, // Slight penalty to avoid repetition
+  frequencyPenalty: 0.1, // Slight penalty for repeated phrases
+} as const
+
+/**
+ * How failed LLM calls are retried.
+ * Each model in the chain (requested model, then the provider's
+ * `fallbackModels`) gets `maxAttempts` tries before moving to the next.
+ */
+export interface RetryPolicy {
+  /** Attempts per model */
+  maxAttempts: number
+  /** First backoff delay; doubles on each retry, with jitter */
+  baseDelayMs: number
+  /** Upper bound for a single backoff delay */
+  maxDelayMs: number
+  /** Hard limit for a single attempt, enforced with AbortController */
+  timeoutMs: number
+}
+
+/**
+ * Default retry policy. LLM_MAX_ATTEMPTS and LLM_TIMEOUT_MS override the
+ * attempt count and timeout.
+ */
+export const RETRY_POLICY: RetryPolicy = {
+  maxAttempts: parseInt(process.env.LLM_MAX_ATTEMPTS ?? "", 10) || 2,
+  baseDelayMs: 500,
+  maxDelayMs: 4000,
+  timeoutMs: parseInt(process.env.LLM_TIMEOUT_MS ?? "", 10) || 45_000,
+}
+
+/**
+ * Per-call overrides for `GENERATION_CONFIG` and `RETRY_POLICY`.
+ */
+export interface GenerationOptions {
+  model?: string
+  temperature?: number
+  maxTokens?: number
+  presencePenalty?: number
+  frequencyPenalty?: number
+  retry?: Partial<RetryPolicy>
+  /** Receives the token usage of each successful attempt */
+  onUsage?: (model: string, usage: TokenUsage) => void
+  /** Redacts PII from user messages and restores it in the reply */
+  redactor?: Redactor
+}
+
+/**
+ * Applies the redactor, if any, to the user's messages. System prompts
+ * are ours and are sent unchanged.
+ */
+function redactMessages(
+  messages: ChatMessage[],
+  redactor?: Redactor
+): ChatMessage[] {
+  if (!redactor) return messages
+
+  return messages.map((message) =>
+    message.role === "user"
+      ? { ...message, content: redactor.redact(message.content) }
+      : message
+  )
+}
+
+/**
+ * Resolves per-call options against the defaults for one model.
+ */
+function resolveRequest(
+  messages: ChatMessage[],
+  model: string,
+  options?: GenerationOptions
+): CompletionRequest {
+  const config = { ...GENERATION_CONFIG, ...options }
+
+  return {
+    messages,
+    model,
+    temperature: config.temperature,
+    maxTokens: config.maxTokens,
+    presencePenalty: config.presencePenalty,
+    frequencyPenalty: config.frequencyPenalty,
+  }
+}
+
+/**
+ * What to do after a failed attempt.
+ * - retry: transient failure, try the same model again
+ * - next-model: this model can't serve the request, try the next one
+ * - abort: no model will succeed (e.g. bad API key)
+ */
+function failureAction(error: unknown): "retry" | "next-model" | "abort" {
+  if (!isProviderError(error)) return "retry"
+
+  switch (error.kind) {
+    case "auth":
+      return "abort"
+    case "bad_request":
+      return "next-model"
+    default:
+      return "retry"
+  }
+}
+
+/**
+ * Exponential backoff with jitter: half the delay is fixed, half random.
+ */
+function backoffDelay(attempt: number, policy: RetryPolicy): number {
+  const delay = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** (attempt - 1)
+  )
+  return delay / 2 + Math.random() * (delay / 2)
+}
+
+/**
+ * Records the outcome without delaying or failing the response.
+ */
+function recordOutcome(outcome: CompletionOutcome): void {
+  trackCompletionOutcome(outcome).catch((error) => {
+    console.error("Failed to record LLM outcome:", getErrorMessage(error))
+  })
+}
+
+/**
+ * Runs an LLM call under the retry policy, yielding its output.
+ * Attempts are only retried before any output has been yielded; a stream
+ * that fails midway is not restarted, since the caller has already seen
+ * part of it.
+ */
+async function* runWithPolicy<T>(
+  messages: ChatMessage[],
+  options: GenerationOptions | undefined,
+  run: (provider: LLMProvider, request: CompletionRequest) => AsyncIterable<T>
+): AsyncGenerator<T> {
+  const provider = getProvider()
+  const policy = { ...RETRY_POLICY, ...options?.retry }
+  const models = [
+    ...new Set([
+      options?.model ?? provider.defaultModel,
+      ...(provider.fallbackModels ?? []),
+    ]),
+  ]
+
+  let attempts = 0
+  let lastError: unknown = new Error("No model configured")
+  // Recorded once, in the finally below: callers such as generateCompletion
+  // stop reading after the output they need, which closes this generator
+  // at the yield, so code after the loop doesn't run
+  let outcome: CompletionOutcome | null = null
+
+  const giveUp = () => {
+    outcome = { attempts, model: null, usedFallback: false }
+    return describeProviderError(lastError)
+  }
+
+  try {
+    for (const [modelIndex, model] of models.entries()) {
+      for (let attempt = 1; attempt <= policy.maxAttempts; attempt++) {
+        attempts++
+        const controller = new AbortController()
+        const timer = setTimeout(() => controller.abort(), policy.timeoutMs)
+        let hasOutput = false
+
+        try {
+          const request = {
+            ...resolveRequest(messages, model, options),
+            signal: controller.signal,
+          }
+          for await (const output of run(provider, request)) {
+            hasOutput = true
+            outcome = { attempts, model, usedFallback: modelIndex > 0 }
+            yield output
+          }
+
+          outcome = { attempts, model, usedFallback: modelIndex > 0 }
+          return
+        } catch (error) {
+          lastError = controller.signal.aborted
+            ? createProviderError(
+                provider.name,
+                "timeout",
+                `No response from ${model} within ${policy.timeoutMs}ms`
+              )
+            : error
+
+          console.warn(
+            `LLM attempt ${attempts} failed (${model}):`,
+            getErrorMessage(lastError)
+          )
+
+          const action = failureAction(lastError)
+          if (hasOutput || action === "abort") throw giveUp()
+          if (action === "next-model") break
+          if (attempt < policy.maxAttempts) {
+            await sleep(backoffDelay(attempt, policy))
+          }
+        } finally {
+          clearTimeout(timer)
+        }
+      }
+    }
+
+    throw giveUp()
+  } finally {
+    if (outcome) recordOutcome(outcome)
+  }
+}
+
+/**
+ * Generates a chat completion with retries, timeouts and model fallback.
+ * Returns the assistant's message content or throws a descriptive error.
+ *
+ * @param messages - Array of chat messages
+ * @param options - Optional overrides for generation config
+ * @returns The generated text content
+ */
+export async function generateCompletion(
+  messages: ChatMessage[],
+  options?: GenerationOptions
+): Promise<string> {
+  const completions = runWithPolicy(
+    redactMessages(messages, options?.redactor),
+    options,
+    async function* (provider, request) {
+      const { content, usage } = await provider.complete(request)
+      if (usage) options?.onUsage?.(request.model, usage)
+      if (!content.trim()) {
+        throw new Error("No content generated by the model")
+      }
+      yield content.trim()
+    }
+  )
+
+  for await (const content of completions) {
+    return options?.redactor ? options.redactor.restore(content) : content
+  }
+  throw new Error("No content generated by the model")
+}
+
+/**
+ * Streams a chat completion, yielding text deltas as they arrive.
+ * Follows the same retry policy as `generateCompletion` until the first
+ * delta arrives.
+ *
+ * @param messages - Array of chat messages
+ * @param options - Optional overrides for generation config
+ * @returns Async iterator of generated text chunks
+ */
+export async function* streamCompletion(
+  messages: ChatMessage[],
+  options?: GenerationOptions
+): AsyncGenerator<string> {
+  const restorer = options?.redactor?.createStreamRestorer()
+  const deltas = runWithPolicy(
+    redactMessages(messages, options?.redactor),
+    options,
+    async function* (provider, request) {
+      let hasContent = false
+      for await (const { text, usage } of provider.stream(request)) {
+        if (usage) options?.onUsage?.(request.model, usage)
+        if (text) {
+          hasContent = true
+          yield text
+        }
+      }
+
+      if (!hasContent) {
+        throw new Error("No content generated by the model")
+      }
+    }
+  )
+
+  if (!restorer) {
+    yield* deltas
+    return
+  }
+
+  for await (const delta of deltas) {
+    const text = restorer.push(delta)
+    if (text) yield text
+  }
+  const rest = restorer.flush()
+  if (rest) yield rest
+}
+
+/**
+ * Converts provider errors into descriptive errors.
+ * Unknown errors are returned unchanged.
+ */
+function describeProviderError(error: unknown): unknown {
+  if (!isProviderError(error)) {
+    return error
+  }
+
+  switch (error.kind) {
+    case "auth":
+      return new Error(
+        `Invalid ${error.provider} API key. Please check your configuration.`
+      )
+    case "rate_limit":
+      return new Error("Rate limit exceeded. Please try again in a moment.")
+    case "unavailable":
+      return new Error(
+        `The ${error.provider} service is temporarily unavailable. Please try again.`
+      )
+    case "timeout":
+      return new Error(
+        `The ${error.provider} request timed out: ${error.message}`
+      )
+    default:
+      return new Error(`${error.provider} API error: ${error.message}`)
+  }
+}
+
+/**
+ * Estimates the token count for a string.
+ * Rough estimate: ~4 characters per token for English text.
+ * Use for client-side estimation only — not for billing.
+ *
+ * @param text - The text to estimate
+ * @returns Estimated token count
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+/**
+ * Checks if the input is within reasonable limits.
+ * Prevents excessive API costs from very large inputs.
+ *
+ * @param jobDescription - The job description text
+ * @param experience - The user's experience text
+ * @returns Object with isValid flag and optional error message
+ */
+export function validateInput(
+  jobDescription: string,
+  experience: string
+): { isValid: boolean; error?: string } {
+  const MAX_JOB_DESC_LENGTH = 8000 // ~2000 tokens
+  const MAX_EXPERIENCE_LENGTH = 4000 // ~1000 tokens
+  const MIN_JOB_DESC_LENGTH = 50 // Minimum meaningful input
+  const MIN_EXPERIENCE_LENGTH = 20
+
+  if (jobDescription.length < MIN_JOB_DESC_LENGTH) {
+    return {
+      isValid: false,
+      error: "Job description is too short. Please provide more details.",
+    }
+  }
+
+  if (experience.length < MIN_EXPERIENCE_LENGTH) {
+    return {
+      isValid: false,
+      error: "Experience is too short. Please provide more context.",
+    }
+  }
+
+  if (jobDescription.length > MAX_JOB_DESC_LENGTH) {
+    return {
+      isValid: false,
+      error: `Job description is too long (${jobDescription.length} characters). Maximum is ${MAX_JOB_DESC_LENGTH}.`,
+    }
+  }
+
+  if (experience.length > MAX_EXPERIENCE_LENGTH) {
+    return {
+      isValid: false,
+      error: `Experience is too long (${experience.length} characters). Maximum is ${MAX_EXPERIENCE_LENGTH}.`,
+    }
+  }
+
+  return { isValid: true }
+}
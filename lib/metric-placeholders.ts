@@ -0,0 +1,90 @@
+/**
+ * Metric placeholders.
+ *
+ * In placeholder mode the model doesn't guess figures it can't find in the
+ * experience. It writes a typed placeholder instead, such as "[X% reduction]"
+ * or "[N users]", where X or N stands for the number. The UI shows each
+ * placeholder as an input so the user can fill in the real figure before
+ * copying the bullet.
+ */
+
+/**
+ * Square brackets around a short phrase with a standalone X or N ("Nx" is
+ * allowed, for multipliers). Groups: text before the variable, the
+ * variable, text after it.
+ */
+const PLACEHOLDER_PATTERN =
+  /\[([^[\]\n]{0,40}?)(?<![A-Za-z])([XN])(?![a-wyzA-Z])([^[\]\n]{0,40})\]/g
+
+/**
+ * A placeholder found in bullet text.
+ */
+export interface MetricPlaceholder {
+  /** Text as written, e.g. "[X% reduction]" */
+  raw: string
+  /** Letter standing for the figure, e.g. "X" */
+  variable: string
+  /** Text before the figure, e.g. "$" in "[$X saved]" */
+  prefix: string
+  /** Text after the figure, e.g. "% reduction" */
+  suffix: string
+}
+
+/**
+ * Part of a bullet: plain text or a placeholder to fill in.
+ */
+export type BulletSegment = string | MetricPlaceholder
+
+/**
+ * Splits bullet text into plain text and placeholders.
+ *
+ * @param text - Bullet text
+ * @returns Segments in order; placeholders are numbered by their position
+ *   among the placeholders
+ */
+export function splitPlaceholders(text: string): BulletSegment[] {
+  const segments: BulletSegment[] = []
+  let last = 0
+
+  for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+    const [raw, prefix = "", variable = "", suffix = ""] = match
+    const start = match.index ?? 0
+    if (start > last) segments.push(text.slice(last, start))
+    segments.push({ raw, variable, prefix, suffix })
+    last = start + raw.length
+  }
+
+  if (last < text.length) segments.push(text.slice(last))
+  return segments
+}
+
+/**
+ * Counts the placeholders in bullet text.
+ */
+export function countPlaceholders(text: string): number {
+  return [...text.matchAll(PLACEHOLDER_PATTERN)].length
+}
+
+/**
+ * Replaces placeholders with the figures the user entered.
+ * "[X% reduction]" filled with "35" becomes "35% reduction"; placeholders
+ * without a value are left as written.
+ *
+ * @param text - Bullet text
+ * @param values - Entered figures, by placeholder position
+ * @returns Bullet text with the filled placeholders replaced
+ */
+export function fillPlaceholders(
+  text: string,
+  values: (string | undefined)[] = []
+): string {
+  let position = 0
+
+  return text.replace(
+    PLACEHOLDER_PATTERN,
+    (raw, prefix: string, _variable: string, suffix: string) => {
+      const value = values[position++]?.trim()
+      return value ? `${prefix}${value}${suffix}` : raw
+    }
+  )
+}
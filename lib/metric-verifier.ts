@@ -0,0 +1,166 @@
+/**
+ * Unsupported metric detection.
+ *
+ * The system prompt asks the model not to invent numbers, but nothing
+ * enforces it. This module extracts every figure from a generated bullet
+ * (numbers, percentages, currency amounts, multipliers and team sizes) and
+ * checks that the same value appears somewhere in the user's experience.
+ * Figures with no match are flagged so the UI can highlight them.
+ */
+
+/**
+ * Kind of figure found in text.
+ */
+export type FigureKind =
+  "percentage" | "currency" | "multiplier" | "team-size" | "number"
+
+/**
+ * A figure extracted from text.
+ */
+export interface ExtractedFigure {
+  /** Text as written, e.g. "$40K" or "12 engineers" */
+  raw: string
+  kind: FigureKind
+  /** Normalized value, e.g. 40000 for "$40K" */
+  value: number
+}
+
+/**
+ * Numeric figures with optional currency symbol and scale/percent suffix.
+ * Single-letter suffixes must be attached ("40k", "3x") so that "12 months"
+ * is not read as 12 million. Digits inside names ("S3", "EC2") are skipped.
+ */
+const FIGURE_PATTERN =
+  /(?<![\w.])([$€£])?\s?(\d+(?:,\d{3})*(?:\.\d+)?)((?:\s?(?:%|percent\b|million\b|billion\b|thousand\b))|(?:k|m|bn|b|x)\b)?\+?/gi
+
+/**
+ * Nouns that make a preceding number a team or headcount size.
+ */
+const PEOPLE_PATTERN =
+  /^\s+(?:[a-z-]+\s+)?(?:engineers?|developers?|people|members?|employees?|reports?|staff|designers?|analysts?|interns?|managers?|scientists?|specialists?|agents?|representatives?|nurses?|students?|volunteers?|contractors?|hires?|teams?)\b/i
+
+/**
+ * Number words accepted as figures.
+ */
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  fifteen: 15,
+  twenty: 20,
+  dozen: 12,
+}
+
+const NUMBER_WORD_PATTERN = new RegExp(
+  `\\b(${Object.keys(NUMBER_WORDS).join("|")})\\b`,
+  "gi"
+)
+
+/**
+ * Multipliers for scale suffixes.
+ */
+const SCALES: Record<string, number> = {
+  k: 1e3,
+  thousand: 1e3,
+  m: 1e6,
+  million: 1e6,
+  b: 1e9,
+  bn: 1e9,
+  billion: 1e9,
+}
+
+/**
+ * Extracts figures from text.
+ *
+ * @param text - Text to scan
+ * @param includeNumberWords - Also read "four", "twelve", etc. as figures.
+ *   When false, number words are only read as team sizes ("four engineers").
+ * @returns Figures in order of appearance
+ */
+export function extractFigures(
+  text: string,
+  includeNumberWords = false
+): ExtractedFigure[] {
+  const figures: ExtractedFigure[] = []
+
+  for (const match of text.matchAll(FIGURE_PATTERN)) {
+    const [raw, currency, digits = "", rawSuffix] = match
+    const suffix = rawSuffix?.trim().toLowerCase()
+    let value = parseFloat(digits.replace(/,/g, ""))
+    let kind: FigureKind = "number"
+
+    if (suffix === "%" || suffix === "percent") {
+      kind = "percentage"
+    } else if (suffix === "x") {
+      kind = "multiplier"
+    } else {
+      if (suffix) value *= SCALES[suffix] ?? 1
+      if (currency) {
+        kind = "currency"
+      } else {
+        const rest = text.slice((match.index ?? 0) + raw.length)
+        if (PEOPLE_PATTERN.test(rest)) kind = "team-size"
+      }
+    }
+
+    figures.push({ raw: raw.trim(), kind, value })
+  }
+
+  for (const match of text.matchAll(NUMBER_WORD_PATTERN)) {
+    const [raw] = match
+    const rest = text.slice((match.index ?? 0) + raw.length)
+    const isTeamSize = PEOPLE_PATTERN.test(rest)
+
+    if (includeNumberWords || isTeamSize) {
+      figures.push({
+        raw,
+        kind: isTeamSize ? "team-size" : "number",
+        value: NUMBER_WORDS[raw.toLowerCase()] ?? 0,
+      })
+    }
+  }
+
+  return figures
+}
+
+/**
+ * Whether an experience figure backs up a bullet figure.
+ * Values must match; percentages only match percentages, other kinds are
+ * interchangeable ("$40K" is supported by "saved 40k").
+ */
+function supports(evidence: ExtractedFigure, claim: ExtractedFigure): boolean {
+  const samePercentness =
+    (evidence.kind === "percentage") === (claim.kind === "percentage")
+  const tolerance = 1e-9 * Math.max(1, Math.abs(claim.value))
+  return samePercentness && Math.abs(evidence.value - claim.value) <= tolerance
+}
+
+/**
+ * Creates a checker for bullets generated from one experience text.
+ * Experience figures are extracted once and reused for every bullet.
+ *
+ * @param experience - The user's experience input
+ * @returns Function returning the bullet's unsupported figures, as written
+ */
+export function createMetricVerifier(
+  experience: string
+): (text: string) => string[] {
+  const evidence = extractFigures(experience, true)
+
+  return (text) => {
+    const unsupported = extractFigures(text)
+      .filter((claim) => !evidence.some((e) => supports(e, claim)))
+      .map((claim) => claim.raw)
+
+    return [...new Set(unsupported)]
+  }
+}
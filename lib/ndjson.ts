@@ -0,0 +1,103 @@
+/**
+ * Line-oriented streaming helpers.
+ *
+ * Our streaming responses are newline-delimited JSON: the server writes one
+ * JSON value per line and the client parses each line as soon as it arrives.
+ * Server-sent events (used by some LLM providers) are read the same way.
+ */
+
+const encoder = new TextEncoder()
+
+/**
+ * Encodes a value as a single NDJSON line.
+ *
+ * @param value - JSON-serializable value
+ * @returns UTF-8 encoded line including the trailing newline
+ */
+export function encodeNdjsonLine(value: unknown): Uint8Array {
+  return encoder.encode(`${JSON.stringify(value)}\n`)
+}
+
+/**
+ * Reads a text stream line by line.
+ * Handles chunks that split lines (or multi-byte characters) at any point.
+ *
+ * @param body - Response body stream
+ * @returns Async iterator of lines without their line terminators
+ */
+export async function* readLines(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<string> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split(/\r?\n/)
+      buffer = lines.pop() ?? ""
+
+      yield* lines
+    }
+
+    buffer += decoder.decode()
+    if (buffer) yield buffer
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+/**
+ * Reads an NDJSON stream, yielding each parsed line.
+ * Blank lines are skipped.
+ *
+ * @param body - Response body stream
+ * @returns Async iterator of parsed values
+ */
+export async function* readNdjson<T>(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<T> {
+  for await (const line of readLines(body)) {
+    if (line.trim()) yield JSON.parse(line) as T
+  }
+}
+
+/**
+ * A single server-sent event.
+ */
+export interface ServerSentEvent {
+  event?: string
+  data: string
+}
+
+/**
+ * Reads a server-sent event stream.
+ * Comments and events without data are skipped.
+ *
+ * @param body - Response body stream
+ * @returns Async iterator of events
+ */
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ServerSentEvent> {
+  let event: string | undefined
+  let data: string[] = []
+
+  for await (const line of readLines(body)) {
+    if (line === "") {
+      if (data.length > 0) yield { event, data: data.join("\n") }
+      event = undefined
+      data = []
+    } else if (line.startsWith("event:")) {
+      event = line.slice(6).trim()
+    } else if (line.startsWith("data:")) {
+      data.push(line.slice(5).trimStart())
+    }
+  }
+
+  if (data.length > 0) yield { event, data: data.join("\n") }
+}
@@ -0,0 +1,183 @@
+import type { PiiKind, Redaction } from "@/lib/validation"
+
+/**
+ * PII redaction.
+ *
+ * Personal details in the user's text (emails, phone numbers, profile
+ * links, street addresses, salary figures and names) are swapped for
+ * placeholders such as `[EMAIL_1]` before a prompt is sent to the LLM
+ * provider, and swapped back in the reply. The same value always gets the
+ * same placeholder within a request, so the model can still refer to it.
+ */
+
+/**
+ * Detection patterns per kind, applied in order. Where a pattern has a
+ * `value` group, only that part of the match is redacted.
+ */
+const PII_PATTERNS: { kind: PiiKind; pattern: RegExp }[] = [
+  {
+    kind: "email",
+    pattern: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi,
+  },
+  {
+    kind: "url",
+    pattern:
+      /\b(?:https?:\/\/)?(?:www\.)?(?:linkedin\.com\/in|github\.com|twitter\.com|x\.com)\/[A-Za-z0-9_-]+\/?/gi,
+  },
+  {
+    kind: "phone",
+    pattern:
+      /(?<![\w$])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)|\d{2,4})[\s.-]\d{3,4}[\s.-]\d{3,4}(?!\w)/g,
+  },
+  {
+    kind: "address",
+    pattern:
+      /\b\d{1,5}\s+(?:[A-Z][a-z]+\s+){1,3}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Way|Court|Ct|Place|Pl)\b\.?(?:,?\s*(?:Suite|Ste|Apt|Unit)\.?\s*\d+)?/g,
+  },
+  {
+    kind: "salary",
+    pattern:
+      /\b(?:salary|compensation|base pay|base salary|total comp|OTE)\b[^.\n$€£]{0,30}(?<value>[$€£]\s?\d[\d,.]*(?:\s?(?:[kmb]|mm|bn)\b)?)/gi,
+  },
+  {
+    kind: "salary",
+    pattern:
+      /[$€£]\s?\d[\d,.]*(?:\s?(?:[kmb]|mm|bn)\b)?\s?(?:\/|per\s+|an?\s+)(?:yr|year|annum|hour|hr)\b/gi,
+  },
+  {
+    kind: "name",
+    pattern:
+      /\b(?:[Mm]y name is|Name:)\s*(?<value>[A-Z][a-z'-]+(?:\s+[A-Z][a-z'-]+){1,2})/g,
+  },
+]
+
+/**
+ * Pasted resumes usually start with the candidate's name on its own line.
+ */
+const HEADER_NAME_PATTERN =
+  /^\s*(?<value>[A-Z][a-z'-]+(?:\s+[A-Z]\.)?\s+[A-Z][a-z'-]+)\s*(?:\n|$)/
+
+/**
+ * Words that make a two-word first line a heading rather than a name.
+ */
+const HEADING_WORDS =
+  /\b(?:Experience|Summary|Profile|Background|Resume|Work|Professional|Engineer|Developer|Manager|Analyst|Designer|Director|Lead|Senior|Junior|Intern|Nurse|Consultant|Specialist|Coordinator)\b/
+
+/**
+ * Phone numbers have at least 9 digits; shorter runs are figures or dates.
+ */
+function isPlausible(kind: PiiKind, value: string): boolean {
+  if (kind !== "phone") return true
+  const digits = value.replace(/\D/g, "").length
+  return digits >= 9 && digits <= 15
+}
+
+/**
+ * Restores placeholders in streamed text, holding back a trailing
+ * partial placeholder until the rest of it arrives.
+ */
+export interface StreamRestorer {
+  /** Adds a chunk; returns the text that is safe to emit */
+  push: (chunk: string) => string
+  /** Returns whatever is still held back */
+  flush: () => string
+}
+
+/**
+ * Redacts and restores PII for one request.
+ */
+export interface Redactor {
+  /** Registers PII found in a raw input without changing it */
+  scan: (text: string) => void
+  /** Like scan, but also takes a name on the first line of a resume */
+  scanResume: (text: string) => void
+  /** Replaces detected PII (and anything scanned earlier) with placeholders */
+  redact: (text: string) => string
+  /** Replaces placeholders with the original values */
+  restore: (text: string) => string
+  /** Restorer for a streamed reply */
+  createStreamRestorer: () => StreamRestorer
+  /** Everything redacted so far, in order of first appearance */
+  redactions: () => Redaction[]
+}
+
+/**
+ * Creates a redactor. Use one per request so placeholders stay stable
+ * across every prompt sent for it.
+ */
+export function createRedactor(): Redactor {
+  const byValue = new Map<string, Redaction>()
+  const counts = new Map<PiiKind, number>()
+
+  const register = (kind: PiiKind, value: string) => {
+    const trimmed = value.trim()
+    if (!trimmed || byValue.has(trimmed) || !isPlausible(kind, trimmed)) {
+      return
+    }
+    const count = (counts.get(kind) ?? 0) + 1
+    counts.set(kind, count)
+    byValue.set(trimmed, {
+      kind,
+      placeholder: `[${kind.toUpperCase()}_${count}]`,
+      value: trimmed,
+    })
+  }
+
+  const restore = (text: string) =>
+    text.replace(
+      /\[([A-Z]+_\d+)\]/g,
+      (match) =>
+        [...byValue.values()].find((r) => r.placeholder === match)?.value ??
+        match
+    )
+
+  const scan = (text: string) => {
+    for (const { kind, pattern } of PII_PATTERNS) {
+      for (const match of text.matchAll(pattern)) {
+        register(kind, match.groups?.value ?? match[0])
+      }
+    }
+  }
+
+  return {
+    scan,
+    // Only resumes: a posting's first line is usually a company or job title
+    scanResume(text) {
+      const header = text.match(HEADER_NAME_PATTERN)?.groups?.value
+      if (header && !HEADING_WORDS.test(header)) register("name", header)
+      scan(text)
+    },
+    redact(text) {
+      scan(text)
+
+      // Longest first, so a value is never split by a shorter one inside it
+      const values = [...byValue.keys()].sort((a, b) => b.length - a.length)
+      return values.reduce(
+        (redacted, value) =>
+          redacted.split(value).join(byValue.get(value)?.placeholder ?? value),
+        text
+      )
+    },
+    restore,
+    createStreamRestorer() {
+      let held = ""
+      return {
+        push(chunk) {
+          const text = held + chunk
+          // An unclosed "[" near the end may be the start of a placeholder
+          const open = text.lastIndexOf("[")
+          const partial =
+            open !== -1 && !text.includes("]", open) && text.length - open < 16
+          held = partial ? text.slice(open) : ""
+          return restore(partial ? text.slice(0, open) : text)
+        },
+        flush() {
+          const rest = restore(held)
+          held = ""
+          return rest
+        },
+      }
+    },
+    redactions: () => [...byValue.values()],
+  }
+}
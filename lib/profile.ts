@@ -0,0 +1,114 @@
+import { z } from "zod"
+import {
+  generateCompletion,
+  type ChatMessage,
+  type GenerationOptions,
+} from "@/lib/llm"
+import { LINKEDIN_LIMITS, PROFILE_HEADLINE_COUNT } from "@/lib/validation"
+import { extractJsonObject } from "@/lib/utils"
+
+/**
+ * LinkedIn profile mode: headline options and an About section, kept
+ * within the sizes LinkedIn accepts.
+ */
+
+/**
+ * Headline options and About section for a profile.
+ */
+export interface LinkedInProfile {
+  headlines: string[]
+  about: string
+}
+
+/**
+ * Shape the model is asked to return.
+ */
+const rawProfileSchema = z.object({
+  headlines: z.array(z.string()),
+  about: z.string(),
+})
+
+/**
+ * Shortens text to a character limit, cutting after the last whole
+ * sentence that fits (or the last whole word, if no sentence does).
+ *
+ * @param text - Text to shorten
+ * @param limit - Maximum length in characters
+ * @returns The text unchanged if it fits, otherwise a shorter prefix
+ */
+export function fitToLimit(text: string, limit: number): string {
+  if (text.length <= limit) return text
+
+  // One extra character so a sentence ending exactly at the limit counts
+  const window = text.slice(0, limit + 1)
+  const sentences = window.match(/^[\s\S]*[.!?](?=\s)/)
+  if (sentences) return sentences[0].trim()
+
+  return window
+    .slice(0, limit)
+    .replace(/\s+\S*$/, "")
+    .trim()
+}
+
+/**
+ * Tidies a headline: one line, single spaces, no wrapping quotes.
+ */
+function cleanHeadline(headline: string): string {
+  return headline
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/^["'“”]+|["'“”]+$/g, "")
+    .trim()
+}
+
+/**
+ * Tidies an About section: trimmed lines, paragraphs separated by exactly
+ * one blank line.
+ */
+function cleanAbout(about: string): string {
+  return about
+    .split("\n")
+    .map((line) => line.trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim()
+}
+
+/**
+ * Parses a profile response and enforces LinkedIn's field sizes.
+ * Headlines over the limit are dropped rather than cut mid-phrase; the
+ * About section is shortened to whole sentences.
+ *
+ * @param response - Raw model response (a JSON object, possibly fenced)
+ * @returns Profile, or null if the response has no usable headline or
+ *   About section
+ */
+export function parseProfile(response: string): LinkedInProfile | null {
+  const result = rawProfileSchema.safeParse(extractJsonObject(response))
+  if (!result.success) return null
+
+  const headlines = [...new Set(result.data.headlines.map(cleanHeadline))]
+    .filter(
+      (headline) =>
+        headline.length > 0 && headline.length <= LINKEDIN_LIMITS.headline
+    )
+    .slice(0, PROFILE_HEADLINE_COUNT)
+  const about = fitToLimit(cleanAbout(result.data.about), LINKEDIN_LIMITS.about)
+
+  if (headlines.length === 0 || !about) return null
+  return { headlines, about }
+}
+
+/**
+ * Runs a profile prompt and parses the result.
+ *
+ * @param messages - Prompt that asks for headlines and an About section
+ * @param options - Generation overrides (e.g. `onUsage` for metering)
+ * @returns Profile, or null if nothing usable came back
+ */
+export async function generateProfile(
+  messages: ChatMessage[],
+  options?: GenerationOptions
+): Promise<LinkedInProfile | null> {
+  return parseProfile(await generateCompletion(messages, options))
+}
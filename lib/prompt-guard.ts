@@ -0,0 +1,198 @@
+import { NextResponse } from "next/server"
+import { quarantineRequest, type QuarantineEntry } from "@/lib/redis"
+import { createErrorResponse, ERRORS, type Bullet } from "@/lib/validation"
+
+/**
+ * Prompt-injection defence.
+ *
+ * Job postings and experience are pasted verbatim into the prompt between
+ * triple quotes. This module keeps that text from escaping its delimiters,
+ * flags text that tries to give the model new instructions, and checks
+ * that what comes back still looks like resume bullets.
+ */
+
+/**
+ * Something in the input that looks like an instruction to the model.
+ */
+export interface InjectionFinding {
+  /** Request field the text came from */
+  field: string
+  /** Pattern that matched */
+  rule: string
+  /** Matched text */
+  excerpt: string
+}
+
+/**
+ * Patterns that address the model rather than describe a job or a career.
+ * Kept narrow: a false positive blocks a legitimate user.
+ */
+const INJECTION_PATTERNS: { rule: string; pattern: RegExp }[] = [
+  {
+    rule: "override",
+    pattern:
+      /\b(?:ignore|disregard|forget|override)\s+(?:(?:all|any|the|your|these|my)\s+)*(?:previous|prior|above|earlier|preceding|system|original)\s+(?:instructions?|prompts?|rules|directions|messages?)\b/i,
+  },
+  {
+    rule: "new-instructions",
+    pattern: /\b(?:new|updated|real|actual)\s+instructions?\s*:/i,
+  },
+  {
+    rule: "role-override",
+    pattern:
+      /\b(?:you\s+are\s+(?:now|no\s+longer)|from\s+now\s+on,?\s+you|pretend\s+(?:to\s+be|you\s+are))\b/i,
+  },
+  {
+    rule: "prompt-leak",
+    pattern:
+      /\b(?:reveal|print|show|repeat|output|display)\s+(?:your|the)\s+(?:system\s+)?(?:prompt|instructions)\b/i,
+  },
+  {
+    rule: "role-marker",
+    pattern:
+      /<\|(?:im_start|im_end|system|endoftext)\|>|\[\/?INST\]|<\/?(?:system|assistant)>|^\s*(?:system|assistant)\s*:/im,
+  },
+]
+
+/**
+ * Phrases that only appear when the model talks about itself or its
+ * instructions instead of writing a bullet.
+ */
+const OFF_TASK_PATTERN =
+  /\b(?:as an ai|language model|system prompt|my instructions)\b/i
+
+const URL_PATTERN = /\bhttps?:\/\/\S+|\bwww\.\S+/i
+
+/**
+ * Longest plausible bullet; anything longer is not a resume bullet.
+ */
+const MAX_BULLET_WORDS = 60
+
+/**
+ * Collapses runs of double quotes so pasted text can't close the
+ * triple-quote block it is embedded in.
+ *
+ * @param text - User-supplied text
+ * @returns Text that is safe to place between triple quotes
+ */
+export function neutralizeDelimiters(text: string): string {
+  return text.replace(/"{3,}/g, '"')
+}
+
+/**
+ * Finds instruction-like text in one input.
+ *
+ * @param field - Request field name, for reporting
+ * @param text - Field value
+ * @returns Findings, empty if the text looks clean
+ */
+export function detectInjection(
+  field: string,
+  text: string
+): InjectionFinding[] {
+  return INJECTION_PATTERNS.flatMap(({ rule, pattern }) => {
+    const match = text.match(pattern)
+    return match ? [{ field, rule, excerpt: match[0].trim() }] : []
+  })
+}
+
+/**
+ * Screens every user-supplied field of a request.
+ *
+ * @param fields - Field values by name (missing values are skipped)
+ * @returns All findings across the fields
+ */
+export function screenInputs(
+  fields: Record<string, string | string[] | undefined>
+): InjectionFinding[] {
+  return Object.entries(fields).flatMap(([field, value]) =>
+    [value ?? []].flat().flatMap((text) => detectInjection(field, text))
+  )
+}
+
+/**
+ * Records a request rejected by the guard without delaying the response.
+ *
+ * @param route - Route that rejected it, e.g. "/api/generate"
+ * @param stage - Whether the input or the model output was rejected
+ * @param reasons - What matched
+ */
+export function quarantine(
+  route: string,
+  stage: QuarantineEntry["stage"],
+  reasons: string[]
+): void {
+  console.warn(`Rejected ${route} ${stage}:`, reasons.join("; "))
+  quarantineRequest({ route, stage, reasons }).catch(console.error)
+}
+
+/**
+ * Screens a request before any quota is spent on it. When a field reads
+ * like instructions to the model, the request is quarantined and the 400
+ * response to return is built here.
+ *
+ * @param route - Route being called, e.g. "/api/generate"
+ * @param fields - Field values by name, as for `screenInputs`
+ * @returns The INJECTION_DETECTED response, or null if the input is clean
+ */
+export function rejectInjectedInput(
+  route: string,
+  fields: Record<string, string | string[] | undefined>
+): NextResponse | null {
+  const findings = screenInputs(fields)
+  const [first] = findings
+  if (!first) return null
+
+  quarantine(
+    route,
+    "input",
+    findings.map((f) => `${f.field}: ${f.rule} "${f.excerpt}"`)
+  )
+  return NextResponse.json(
+    createErrorResponse(
+      "INJECTION_DETECTED",
+      `${ERRORS.INJECTION_DETECTED.message} Found: "${first.excerpt}"`
+    ),
+    { status: 400 }
+  )
+}
+
+/**
+ * Creates a check for generated bullets. A bullet fails if it is far too
+ * long, spans several lines, contains a code fence, links to a URL that
+ * isn't in the experience, talks about the model itself, or carries an
+ * injection pattern through from the input.
+ *
+ * @param experience - User's experience (URLs in it are allowed)
+ * @param maxWords - Word limit (raise it for longer output such as
+ *   cover letter paragraphs)
+ * @returns Function returning the reason a bullet fails, or null
+ */
+export function createOutputGuard(
+  experience: string,
+  maxWords: number = MAX_BULLET_WORDS
+): (bullet: Pick<Bullet, "text">) => string | null {
+  const allowedText = experience.toLowerCase()
+
+  return ({ text }) => {
+    if (text.split(/\s+/).filter(Boolean).length > maxWords) {
+      return "Output is too long"
+    }
+    if (/[\r\n]|```/.test(text)) {
+      return "Output spans multiple lines"
+    }
+
+    const url = text.match(URL_PATTERN)
+    if (url && !allowedText.includes(url[0].toLowerCase())) {
+      return `Output links to ${url[0]}`
+    }
+
+    const offTask = text.match(OFF_TASK_PATTERN)
+    if (offTask) {
+      return `Output mentions "${offTask[0]}"`
+    }
+
+    const [finding] = detectInjection("output", text)
+    return finding ? `Output contains "${finding.excerpt}"` : null
+  }
+}
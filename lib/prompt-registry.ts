@@ -0,0 +1,220 @@
+import crypto from "crypto"
+import {
+  SYSTEM_PROMPT,
+  PROFILE_SYSTEM_PROMPT,
+  createUserPrompt,
+  createRewritePrompt,
+  createRolesPrompt,
+  createProfilePrompt,
+} from "@/lib/prompts"
+import {
+  trackPromptGeneration,
+  trackPromptSignal,
+  type PromptSignal,
+} from "@/lib/redis"
+import type {
+  Bullet,
+  BulletOptions,
+  JobPosting,
+  KeywordCoverage,
+  ProfileRequest,
+  Role,
+} from "@/lib/validation"
+
+/**
+ * Versioned prompt templates for bullet generation.
+ *
+ * Each template has a stable ID that is returned with every response and
+ * recorded in the per-version stats, so wording changes can be rolled out
+ * to part of the traffic and compared before they replace the default.
+ *
+ * Versions compare like for like only while a template keeps sending the
+ * same prompt for the same request, so rewording goes in a new version.
+ * Existing templates are still extended in place in two cases: prompts
+ * for new modes and request options (rewrite, roles, profile, metric
+ * placeholders, phrasings), which only add text to requests that use
+ * them, and input sanitizing such as `neutralizeDelimiters`, which only
+ * changes text that would otherwise escape its quotes. Compare versions
+ * on traffic recorded after the last such change.
+ */
+
+/**
+ * One version of the generation prompts.
+ */
+export interface PromptTemplate {
+  /** Stable ID, e.g. "v1" */
+  id: string
+  /** What changed compared to earlier versions */
+  description: string
+  systemPrompt: string
+  /** Templates may ignore `posting`; v1 predates the parser */
+  createUserPrompt: (
+    jobDescription: string,
+    experience: string,
+    options?: Partial<BulletOptions>,
+    posting?: JobPosting
+  ) => string
+  /** Prompt for improving the user's existing bullets (rewrite mode) */
+  createRewritePrompt: (
+    jobDescription: string,
+    bullets: string[],
+    options?: Partial<BulletOptions>
+  ) => string
+  /** Prompt for writing a bullet set per position (multi-role) */
+  createRolesPrompt: (
+    jobDescription: string,
+    roles: Role[],
+    counts: number[],
+    options?: Partial<BulletOptions>
+  ) => string
+  /** System prompt for LinkedIn profile mode */
+  profileSystemPrompt: string
+  /** Prompt for LinkedIn headline options and an About section */
+  createProfilePrompt: (
+    experience: string,
+    target?: Partial<Pick<ProfileRequest, "targetRole" | "jobDescription">>
+  ) => string
+}
+
+/**
+ * The original template.
+ */
+const V1: PromptTemplate = {
+  id: "v1",
+  description: "Original prompt with JSON Lines output",
+  systemPrompt: SYSTEM_PROMPT,
+  createUserPrompt: (jobDescription, experience, options) =>
+    createUserPrompt(jobDescription, experience, options),
+  createRewritePrompt,
+  createRolesPrompt,
+  profileSystemPrompt: PROFILE_SYSTEM_PROMPT,
+  createProfilePrompt,
+}
+
+/**
+ * All registered templates by ID.
+ */
+export const PROMPT_TEMPLATES: Record<string, PromptTemplate> = {
+  v1: V1,
+  v2: {
+    ...V1,
+    id: "v2",
+    description:
+      "Adds a summary of the parsed posting and takes the seniority from it",
+    createUserPrompt,
+  },
+}
+
+/**
+ * Version served when no experiment is configured.
+ */
+export const DEFAULT_PROMPT_VERSION = "v1"
+
+/**
+ * Reads the traffic split from PROMPT_EXPERIMENT, e.g. `{"v1":90,"v2":10}`.
+ * Unknown versions and non-positive weights are ignored; without a valid
+ * split all traffic goes to DEFAULT_PROMPT_VERSION.
+ */
+function readExperiment(): [string, number][] {
+  const fallback: [string, number][] = [[DEFAULT_PROMPT_VERSION, 1]]
+  if (!process.env.PROMPT_EXPERIMENT) return fallback
+
+  let weights: Record<string, unknown>
+  try {
+    weights = JSON.parse(process.env.PROMPT_EXPERIMENT)
+  } catch {
+    console.error("Ignoring PROMPT_EXPERIMENT: not valid JSON")
+    return fallback
+  }
+
+  const split = Object.entries(weights).filter(
+    (entry): entry is [string, number] =>
+      getPromptTemplate(entry[0]) !== null &&
+      typeof entry[1] === "number" &&
+      entry[1] > 0
+  )
+  if (split.length === 0) {
+    console.error("Ignoring PROMPT_EXPERIMENT: no registered versions")
+    return fallback
+  }
+
+  return split
+}
+
+/**
+ * Active traffic split as [version, weight] pairs.
+ */
+export const PROMPT_EXPERIMENT = readExperiment()
+
+/**
+ * Looks up a template by ID.
+ *
+ * @param id - Version ID
+ * @returns Template, or null if the version is not registered
+ */
+export function getPromptTemplate(id: string): PromptTemplate | null {
+  // Own keys only, so "constructor" or "__proto__" never count as versions
+  return Object.hasOwn(PROMPT_TEMPLATES, id)
+    ? (PROMPT_TEMPLATES[id] ?? null)
+    : null
+}
+
+/**
+ * Picks the template for a request according to PROMPT_EXPERIMENT.
+ * The choice is derived from a hash of the seed, so the same user keeps
+ * getting the same version (and identical requests keep hitting the cache).
+ *
+ * @param seed - Stable caller identifier (IP or license key)
+ * @returns Template to generate with
+ */
+export function selectPromptTemplate(seed: string): PromptTemplate {
+  const total = PROMPT_EXPERIMENT.reduce((sum, [, weight]) => sum + weight, 0)
+  const hash = crypto.createHash("sha256").update(seed).digest()
+  let point = (hash.readUInt32BE(0) / 0x1_0000_0000) * total
+
+  for (const [id, weight] of PROMPT_EXPERIMENT) {
+    point -= weight
+    if (point < 0) return getPromptTemplate(id)!
+  }
+
+  return PROMPT_TEMPLATES[DEFAULT_PROMPT_VERSION]!
+}
+
+/**
+ * Records a generation's quality signals against its prompt version
+ * without delaying the response.
+ *
+ * @param version - Prompt version that produced the bullets
+ * @param bullets - Final annotated bullets
+ * @param coverage - Keyword coverage report for the bullets
+ */
+export function trackPromptQuality(
+  version: string,
+  bullets: Bullet[],
+  coverage: KeywordCoverage
+): void {
+  trackPromptGeneration(version, {
+    bullets: bullets.length,
+    lintWarnings: bullets.reduce((n, b) => n + (b.warnings?.length ?? 0), 0),
+    unsupportedMetrics: bullets.reduce(
+      (n, b) => n + (b.unsupportedMetrics?.length ?? 0),
+      0
+    ),
+    coverageScore: coverage.score,
+  }).catch(console.error)
+}
+
+/**
+ * Records user feedback or a refinement against a prompt version without
+ * delaying the response. Unregistered versions are ignored.
+ *
+ * @param version - Prompt version the signal is about
+ * @param signal - Kind of signal
+ */
+export function trackPromptFeedback(
+  version: string,
+  signal: PromptSignal
+): void {
+  if (!getPromptTemplate(version)) return
+  trackPromptSignal(version, signal).catch(console.error)
+}
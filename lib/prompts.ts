@@ -1,3 +1,23 @@
+import {
+  bulletSchema,
+  DEFAULT_BULLET_OPTIONS,
+  LINKEDIN_LIMITS,
+  MAX_FOLLOW_UPS,
+  PROFILE_HEADLINE_COUNT,
+  type Bullet,
+  type BulletOptions,
+  type BulletVariant,
+  type CoverLetterLength,
+  type CoverLetterTone,
+  type JobPosting,
+  type ProfileRequest,
+  type Role,
+  type RoleFamily,
+  type SeniorityLevel,
+} from "@/lib/validation"
+import { safeJsonParse } from "@/lib/utils"
+import { neutralizeDelimiters } from "@/lib/prompt-guard"
+
 /**
  * System prompt that defines the AI's role and output rules.
  * This is the "personality" and instruction set for the model.
@@ -52,7 +72,7 @@ Avoid generic verbs like "Worked on", "Helped", "Responsible for".
 
 6. LANGUAGE QUALITY
 - Each bullet should be concise, specific, and outcome-focused.
-- Ideal length: 14–22 words.
+- Ideal length: 14–22 words, unless the request specifies another range.
 - Avoid clichés such as:
   "results-driven", "fast-paced", "team player", "dynamic environment", "various tasks"
 
@@ -62,75 +82,871 @@ Avoid generic verbs like "Worked on", "Helped", "Responsible for".
 - Write like a top-tier resume consultant, not an AI.
 
 OUTPUT RULES:
-- Return ONLY high-quality bullet points
-- One bullet per line
-- No numbering, no symbols, no headings
+- Return ONLY high-quality bullet points as JSON Lines
+- One JSON object per line, one line per bullet
+- Each object has exactly these fields:
+  {"text": "<the bullet>", "verb": "<its leading action verb>", "keywords": ["<job description keywords it targets>"], "hasMetric": <true if it contains a number or measurable result>}
+- No markdown, no code fences, no numbering, no headings
 - No explanations or extra text`
 
+/**
+ * System prompt for LinkedIn profile mode: headline options and an About
+ * section written from the same experience as the bullets.
+ */
+export const PROFILE_SYSTEM_PROMPT = `You are a senior professional resume writer and LinkedIn profile strategist who helps candidates get found by recruiters.
+
+Your task is to write LinkedIn headline options and an About section that:
+- Say clearly what the person does and for whom, using the terms recruiters search for
+- Lead with specialism and proof, not adjectives
+- Sound like the person wrote them: first person in the About section, no hype, no buzzword stacking
+- Use only facts from the person's experience; never invent employers, titles or numbers
+
+HEADLINES:
+- Each at most ${LINKEDIN_LIMITS.headline} characters, ideally under 120 so they aren't cut off in search results
+- Vary the angle: role and specialism, key achievement, skills, who they help
+- Separate parts with " | " or " · " where it reads better
+
+ABOUT SECTION:
+- At most ${LINKEDIN_LIMITS.about} characters, ideally 1,200–2,000
+- 3 to 5 short paragraphs separated by a blank line
+- Open with a hook about what they do best, back it with two or three accomplishments, and close with what they are looking for or how to reach out
+- No bullet symbols, emojis or hashtags
+
+OUTPUT RULES:
+- Return ONLY one JSON object with exactly these fields:
+  {"headlines": ["<headline>", ...], "about": "<about section, paragraphs separated by \\n\\n>"}
+- No markdown, no code fences, no explanations`
+
+/**
+ * System prompt for repairing bullet lines the model returned in the wrong
+ * format. Only reformats; the wording of each bullet must be preserved.
+ */
+export const REPAIR_SYSTEM_PROMPT = `You convert resume bullet points into JSON Lines.
+
+For each resume bullet in the input, output one JSON object on its own line with exactly these fields:
+{"text": "<the bullet>", "verb": "<its leading action verb>", "keywords": ["<job keywords it targets>"], "hasMetric": <true if it contains a number or measurable result>}
+
+Rules:
+- Keep the bullet wording unchanged
+- Skip lines that are not resume bullets
+- No markdown, no code fences, no explanations`
+
+/**
+ * Creates the user prompt for a repair request.
+ *
+ * @param malformedLines - Lines that failed to parse as bullets
+ * @returns Formatted repair prompt
+ */
+export function createRepairPrompt(malformedLines: string[]): string {
+  return `Convert these lines into JSON Lines:
+"""
+${malformedLines.join("\n")}
+"""`
+}
+
+/**
+ * Display labels for seniority levels, with guidance on what to emphasize.
+ */
+export const SENIORITY_LABELS: Record<
+  SeniorityLevel,
+  { label: string; focus: string }
+> = {
+  intern: {
+    label: "Intern",
+    focus: "coursework, projects, eagerness to learn and early contributions",
+  },
+  entry: {
+    label: "Entry level",
+    focus: "hands-on execution, learning speed and individual contributions",
+  },
+  mid: {
+    label: "Mid level",
+    focus: "independent ownership of features and measurable delivery",
+  },
+  senior: {
+    label: "Senior",
+    focus: "technical depth, ownership of outcomes and mentoring",
+  },
+  lead: {
+    label: "Lead",
+    focus: "leading projects and teams, setting direction and standards",
+  },
+  manager: {
+    label: "Manager",
+    focus: "team building, delivery across people and stakeholder management",
+  },
+  director: {
+    label: "Director",
+    focus: "organizational strategy, multi-team outcomes and budget ownership",
+  },
+  executive: {
+    label: "Executive",
+    focus: "business strategy, company-level results and board-level impact",
+  },
+}
+
+/**
+ * Display labels for role families.
+ */
+export const ROLE_FAMILY_LABELS: Record<RoleFamily, string> = {
+  engineering: "Engineering",
+  data: "Data & Analytics",
+  product: "Product Management",
+  design: "Design",
+  marketing: "Marketing",
+  sales: "Sales",
+  "customer-success": "Customer Success",
+  operations: "Operations",
+  finance: "Finance",
+  healthcare: "Healthcare",
+  education: "Education",
+  other: "Other",
+}
+
+/**
+ * Wraps user-supplied text in the triple-quote block the prompts use to
+ * separate data from instructions.
+ */
+function quoteBlock(text: string): string {
+  return `"""
+${neutralizeDelimiters(text.trim())}
+"""`
+}
+
+/**
+ * Describes the requested bullet style as prompt lines.
+ */
+function describeBulletOptions(options: Partial<BulletOptions>): string {
+  const { min, max } = options.wordRange ?? DEFAULT_BULLET_OPTIONS.wordRange
+  const lines = [`- Length: ${min}–${max} words per bullet`]
+
+  if (options.seniority) {
+    const { label, focus } = SENIORITY_LABELS[options.seniority]
+    lines.push(`- Seniority: ${label} (emphasize ${focus})`)
+  }
+  if (options.roleFamily && options.roleFamily !== "other") {
+    lines.push(
+      `- Role family: ${ROLE_FAMILY_LABELS[options.roleFamily]} (use its vocabulary and typical metrics)`
+    )
+  }
+  if (options.variants) {
+    const extra = options.variants - 1
+    lines.push(
+      `- Phrasings: ${options.variants} per bullet. Put the strongest in the main fields and ${extra} more in an "alternatives" array of ${extra === 1 ? "one object" : `${extra} objects`} with the same "text", "verb", "keywords" and "hasMetric" fields. Each phrasing makes the same claim with a different opening verb, structure or emphasis`
+    )
+  }
+  if (options.metricPlaceholders) {
+    lines.push(
+      `- Metrics: never guess a figure. Where a number would strengthen a bullet but my experience doesn't give one, write a placeholder in square brackets with X or N standing for the number, worded so it reads correctly once filled in, e.g. "cut latency by [X%]", "serving [N users]", "saving [$X] a year". Use the real figure when my experience has it. Set "hasMetric" to false for a bullet whose only figures are placeholders`
+    )
+  }
+
+  return lines.join("\n")
+}
+
+/**
+ * Most requirements and responsibilities listed in a posting summary.
+ */
+const MAX_SUMMARY_ITEMS = 5
+
+/**
+ * Summarizes a parsed job posting as prompt lines, skipping anything the
+ * parser couldn't find.
+ */
+function describePosting(posting: JobPosting): string {
+  const role = [posting.title, posting.company && `at ${posting.company}`]
+    .filter(Boolean)
+    .join(" ")
+  // "Berlin (Hybrid)" already says it
+  const place = posting.location
+    ?.toLowerCase()
+    .includes(posting.workplace ?? "")
+    ? posting.location
+    : [posting.workplace, posting.location].filter(Boolean).join(", ")
+  const list = (items: string[], separator = "; ") =>
+    items
+      .slice(0, MAX_SUMMARY_ITEMS)
+      .map((item) => neutralizeDelimiters(item))
+      .join(separator)
+
+  const lines = [
+    role && `- Role: ${neutralizeDelimiters(role)}`,
+    posting.seniority &&
+      `- Level: ${SENIORITY_LABELS[posting.seniority].label}`,
+    place && `- Workplace: ${neutralizeDelimiters(place)}`,
+    posting.yearsRequired !== undefined &&
+      `- Experience asked for: ${posting.yearsRequired}+ years`,
+    posting.requiredSkills.length > 0 &&
+      `- Must-have skills: ${list(posting.requiredSkills, ", ")}`,
+    posting.niceToHaves.length > 0 &&
+      `- Nice-to-haves: ${list(posting.niceToHaves)}`,
+    posting.responsibilities.length > 0 &&
+      `- Main responsibilities: ${list(posting.responsibilities)}`,
+  ]
+
+  return lines.filter(Boolean).join("\n")
+}
+
 /**
  * Generates the user prompt with job description and experience.
  * This is the specific request for each generation.
  *
  * @param jobDescription - The full job posting or key requirements
  * @param experience - User's relevant experience, skills, or accomplishments
+ * @param options - Bullet count, length, seniority and role family
+ * @param posting - The job description already parsed; adds a summary of
+ *   it and supplies the seniority when `options` has none
  * @returns Formatted user prompt string
  */
 export function createUserPrompt(
   jobDescription: string,
-  experience: string
+  experience: string,
+  options: Partial<BulletOptions> = {},
+  posting?: JobPosting
 ): string {
-  return `TARGET JOB DESCRIPTION:
-"""
-${jobDescription.trim()}
-"""
+  const bulletCount = options.bulletCount ?? DEFAULT_BULLET_OPTIONS.bulletCount
+  const summary = posting ? describePosting(posting) : ""
+  const target = {
+    ...options,
+    seniority: options.seniority ?? posting?.seniority,
+  }
 
+  return `TARGET JOB DESCRIPTION:
+${quoteBlock(jobDescription)}
+${
+  summary
+    ? `
+POSTING SUMMARY (parsed from the job description above):
+${summary}
+`
+    : ""
+}
 MY EXPERIENCE AND BACKGROUND:
-"""
-${experience.trim()}
-"""
+${quoteBlock(experience)}
+
 
 
+Generate ${bulletCount} tailored resume bullet point${bulletCount === 1 ? "" : "s"} that position me as a strong match for this role.
 
-Generate 5 tailored resume bullet points that position me as a strong match for this role.
+Target:
+${describeBulletOptions(target)}
 
 Guidelines:
 - Use my experience as the factual foundation
 - Strengthen clarity, impact, and relevance
 - Quantify results only where appropriate
-- Prioritize bullets that directly match the job requirements
+- Prioritize bullets that directly match the job requirements${summary ? "\n- Favor the must-have skills over the nice-to-haves" : ""}
 - Exclude generic or low-impact statements
 
 Produce only high-quality bullets suitable for a competitive resume.`
 }
 
 /**
- * Parses the AI response into individual bullet points.
- * Handles various edge cases in the output.
+ * Generates the user prompt for a resume with several positions.
+ * All roles are written in one request so accomplishments aren't
+ * repeated across them.
  *
- * @param response - Raw response from OpenAI
- * @returns Array of bullet point strings
- */
-export function parseBulletPoints(response: string): string[] {
-  return response
-    .split("\n")
-    .map((line) => line.trim())
-    .map((line) => {
-      // Remove common prefixes that the model might add despite instructions
-      return line
-        .replace(/^[\d]+[.)]\s*/, "") // Remove "1. " or "1) "
-        .replace(/^[-•*]\s*/, "") // Remove "- " or "• " or "* "
-        .replace(/^bullet\s*:?\s*/i, "") // Remove "Bullet: "
-        .trim()
-    })
-    .filter((line) => {
-      // Filter out empty lines and meta-commentary
-      if (!line) return false
-      if (line.toLowerCase().startsWith("here are")) return false
-      if (line.toLowerCase().startsWith("based on")) return false
-      if (line.toLowerCase().includes("bullet point")) return false
-      return line.length >= 20 // Minimum reasonable bullet length
+ * @param jobDescription - The full job posting or key requirements
+ * @param roles - The user's positions, most recent first
+ * @param counts - Bullets to write per role, in the order of `roles`
+ * @param options - Length, seniority and role family
+ * @returns Formatted user prompt string
+ */
+export function createRolesPrompt(
+  jobDescription: string,
+  roles: Role[],
+  counts: number[],
+  options: Partial<BulletOptions> = {}
+): string {
+  const roleBlocks = roles
+    .map((role, i) => {
+      const heading = [role.title, role.company, role.dates]
+        .filter(Boolean)
+        .map((part) => neutralizeDelimiters(part ?? ""))
+        .join(", ")
+      return `ROLE ${i + 1}: ${heading}\n${quoteBlock(role.notes)}`
     })
-    .slice(0, 10) // Ensure max 10 bullets
+    .join("\n\n")
+  const plan = counts
+    .map(
+      (count, i) => `- Role ${i + 1}: ${count} bullet${count === 1 ? "" : "s"}`
+    )
+    .join("\n")
+
+  return `TARGET JOB DESCRIPTION:
+${quoteBlock(jobDescription)}
+
+MY ROLES (most recent first):
+${roleBlocks}
+
+Generate tailored resume bullet points for each role:
+${plan}
+
+Target:
+${describeBulletOptions(options)}
+
+Guidelines:
+- Base each role's bullets only on that role's notes
+- Never repeat an accomplishment, metric or opening verb across roles
+- Prioritize what matches the job requirements within each role
+- Add a "role" field to each JSON object with the number of the role it belongs to
+- List the bullets role by role, in the order above`
+}
+
+/**
+ * Generates the user prompt for rewriting one bullet.
+ * The remaining bullets are included so the rewrite stays distinct.
+ *
+ * @param jobDescription - The full job posting or key requirements
+ * @param experience - User's relevant experience, skills, or accomplishments
+ * @param bullets - All current bullet texts
+ * @param index - Index of the bullet to rewrite
+ * @param instruction - Optional user guidance (e.g. "shorter")
+ * @param options - Length, seniority and role family to keep consistent
+ * @returns Formatted user prompt string
+ */
+export function createRefinePrompt(
+  jobDescription: string,
+  experience: string,
+  bullets: string[],
+  index: number,
+  instruction?: string,
+  options: Partial<BulletOptions> = {}
+): string {
+  const bulletList = bullets
+    .map(neutralizeDelimiters)
+    .map((bullet, i) =>
+      i === index
+        ? `${i + 1}. ${bullet}  <-- REWRITE THIS ONE`
+        : `${i + 1}. ${bullet}`
+    )
+    .join("\n")
+
+  return `TARGET JOB DESCRIPTION:
+${quoteBlock(jobDescription)}
+
+MY EXPERIENCE AND BACKGROUND:
+${quoteBlock(experience)}
+
+CURRENT BULLETS:
+${bulletList}
+
+Rewrite bullet ${index + 1} so it is a stronger match for this role.${
+    instruction ? `\nInstruction: ${neutralizeDelimiters(instruction)}` : ""
+  }
+
+Target:
+${describeBulletOptions(options)}
+
+Guidelines:
+- Use my experience as the factual foundation
+- Do not repeat accomplishments or opening verbs used by the other bullets
+- Return exactly one bullet as a single JSON line`
+}
+
+/**
+ * Splits pasted resume bullets into one string per bullet. List markers
+ * ("-", "•", "*", "1.", "2)") and blank lines are dropped.
+ *
+ * @param text - Bullets as pasted, one per line
+ * @returns Bullet texts in their original order
+ */
+export function parseBulletList(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.replace(/^\s*(?:[-•*–]|\d{1,2}[.)])\s*/, "").trim())
+    .filter(Boolean)
+}
+
+/**
+ * Generates the user prompt for improving bullets the user already has.
+ * Each bullet is rewritten in place, so the output pairs up with the
+ * input by position.
+ *
+ * @param jobDescription - The full job posting or key requirements
+ * @param bullets - The user's current bullets, from parseBulletList
+ * @param options - Length, seniority and role family to aim for
+ * @returns Formatted user prompt string
+ */
+export function createRewritePrompt(
+  jobDescription: string,
+  bullets: string[],
+  options: Partial<BulletOptions> = {}
+): string {
+  const bulletList = bullets
+    .map((bullet, i) => `${i + 1}. ${neutralizeDelimiters(bullet)}`)
+    .join("\n")
+
+  return `TARGET JOB DESCRIPTION:
+${quoteBlock(jobDescription)}
+
+MY CURRENT BULLETS:
+"""
+${bulletList}
+"""
+
+Rewrite each of my current bullets so it is a stronger match for this role.
+
+Target:
+${describeBulletOptions(options)}
+
+Guidelines:
+- Keep the facts and figures of each original; do not add accomplishments
+- Lead with a stronger verb and make the result or scope explicit
+- Use the job description's terminology where it fits
+- Add a "rationale" field to each JSON object: one short sentence on what changed and why it is stronger
+- Return exactly ${bullets.length} JSON line${bullets.length === 1 ? "" : "s"}, in the same order as my bullets`
+}
+
+/**
+ * Generates the user prompt for fixing bullets that failed the linter.
+ * Each bullet is listed with its warnings so the rewrite stays targeted.
+ *
+ * @param experience - User's relevant experience, skills, or accomplishments
+ * @param failing - Bullet texts with the linter messages for each
+ * @param options - Length, seniority and role family to keep consistent
+ * @returns Formatted user prompt string
+ */
+export function createLintFixPrompt(
+  experience: string,
+  failing: { text: string; problems: string[] }[],
+  options: Partial<BulletOptions> = {}
+): string {
+  const bulletList = failing
+    .map(
+      ({ text, problems }, i) =>
+        `${i + 1}. ${text}\n${problems.map((p) => `   - ${p}`).join("\n")}`
+    )
+    .join("\n")
+
+  return `MY EXPERIENCE AND BACKGROUND:
+${quoteBlock(experience)}
+
+BULLETS TO FIX:
+${bulletList}
+
+Rewrite each bullet above to fix only the listed problems.
+
+Target:
+${describeBulletOptions(options)}
+
+Guidelines:
+- Keep the facts, keywords and metrics of the original bullet
+- Change as little as possible
+- Return exactly ${failing.length} JSON line${failing.length === 1 ? "" : "s"}, in the same order`
+}
+
+/**
+ * System prompt for cover letters.
+ */
+export const COVER_LETTER_SYSTEM_PROMPT = `You are a senior professional resume writer and former hiring manager who writes concise, specific cover letters that get interviews.
+
+Your cover letters:
+- Open with why the candidate fits this specific role, not with "I am writing to apply"
+- Connect two or three concrete accomplishments to the job's most important requirements
+- Show genuine interest in the company using only what the job description says about it
+- Close with a short, confident call to action
+- Sound like a real person: no clichés, no buzzword stacking, no flattery
+
+Rules:
+- Use only facts from the candidate's experience and bullets; never invent employers, titles or numbers
+- Write the letter body only: no greeting, no sign-off, no name, no placeholders such as [Company]
+- Separate paragraphs with one blank line
+- No markdown, no headings, no explanations`
+
+/**
+ * Display labels for cover letter lengths, with the shape of each.
+ */
+export const COVER_LETTER_LENGTH_LABELS: Record<
+  CoverLetterLength,
+  { label: string; paragraphs: number; words: string }
+> = {
+  short: { label: "Short (3 paragraphs)", paragraphs: 3, words: "150–200" },
+  standard: {
+    label: "Standard (4 paragraphs)",
+    paragraphs: 4,
+    words: "250–350",
+  },
+  long: { label: "Detailed (5 paragraphs)", paragraphs: 5, words: "350–450" },
+}
+
+/**
+ * Display labels for cover letter tones, with guidance for the model.
+ */
+export const COVER_LETTER_TONE_LABELS: Record<
+  CoverLetterTone,
+  { label: string; guidance: string }
+> = {
+  professional: {
+    label: "Professional",
+    guidance: "polished and measured, suitable for any employer",
+  },
+  warm: {
+    label: "Warm",
+    guidance: "friendly and personable, while staying professional",
+  },
+  confident: {
+    label: "Confident",
+    guidance: "direct and assured, leading with results",
+  },
+  enthusiastic: {
+    label: "Enthusiastic",
+    guidance: "energetic and eager, without exaggeration",
+  },
+}
+
+/**
+ * Length and tone of a cover letter.
+ */
+interface CoverLetterStyle {
+  length: CoverLetterLength
+  tone: CoverLetterTone
+}
+
+/**
+ * Describes the requested cover letter style as prompt lines.
+ */
+function describeCoverLetterStyle({ length, tone }: CoverLetterStyle): string {
+  const { paragraphs, words } = COVER_LETTER_LENGTH_LABELS[length]
+  const { label, guidance } = COVER_LETTER_TONE_LABELS[tone]
+  return `- Length: ${paragraphs} paragraphs, ${words} words in total
+- Tone: ${label} (${guidance})`
+}
+
+/**
+ * Generates the user prompt for a cover letter.
+ *
+ * @param jobDescription - The full job posting or key requirements
+ * @param experience - User's relevant experience, skills, or accomplishments
+ * @param bullets - Resume bullets already generated (may be empty)
+ * @param style - Length and tone presets
+ * @returns Formatted user prompt string
+ */
+export function createCoverLetterPrompt(
+  jobDescription: string,
+  experience: string,
+  bullets: string[],
+  style: CoverLetterStyle
+): string {
+  const bulletSection =
+    bullets.length > 0
+      ? `\nMY RESUME BULLETS FOR THIS ROLE:
+${quoteBlock(bullets.map((bullet) => `- ${bullet}`).join("\n"))}
+`
+      : ""
+
+  return `TARGET JOB DESCRIPTION:
+${quoteBlock(jobDescription)}
+
+MY EXPERIENCE AND BACKGROUND:
+${quoteBlock(experience)}
+${bulletSection}
+Write the body of a cover letter for this role.
+
+Target:
+${describeCoverLetterStyle(style)}
+
+Guidelines:
+- Lead with the accomplishments that best match the job requirements
+- Reuse figures from my experience and bullets exactly as written
+- Do not repeat my bullets word for word`
+}
+
+/**
+ * Generates the user prompt for rewriting one cover letter paragraph.
+ * The other paragraphs are included so the letter still reads as a whole.
+ *
+ * @param jobDescription - The full job posting or key requirements
+ * @param experience - User's relevant experience, skills, or accomplishments
+ * @param paragraphs - All current paragraphs
+ * @param index - Index of the paragraph to rewrite
+ * @param instruction - Optional user guidance (e.g. "mention leadership")
+ * @param style - Length and tone to keep consistent
+ * @returns Formatted user prompt string
+ */
+export function createParagraphPrompt(
+  jobDescription: string,
+  experience: string,
+  paragraphs: string[],
+  index: number,
+  instruction: string | undefined,
+  style: CoverLetterStyle
+): string {
+  const letter = paragraphs
+    .map((paragraph, i) =>
+      i === index
+        ? `[PARAGRAPH ${i + 1} - REWRITE THIS ONE]\n${neutralizeDelimiters(paragraph)}`
+        : `[PARAGRAPH ${i + 1}]\n${neutralizeDelimiters(paragraph)}`
+    )
+    .join("\n\n")
+
+  return `TARGET JOB DESCRIPTION:
+${quoteBlock(jobDescription)}
+
+MY EXPERIENCE AND BACKGROUND:
+${quoteBlock(experience)}
+
+CURRENT COVER LETTER:
+${letter}
+
+Rewrite paragraph ${index + 1} so it is stronger and still flows with the others.${
+    instruction ? `\nInstruction: ${neutralizeDelimiters(instruction)}` : ""
+  }
+
+Target:
+${describeCoverLetterStyle(style)}
+
+Guidelines:
+- Keep the paragraph's role in the letter (opening, evidence or closing)
+- Do not repeat points made in the other paragraphs
+- Return only the new paragraph as plain text`
+}
+
+/**
+ * Generates the user prompt for a LinkedIn headline and About section.
+ * A job description is optional; without one the profile targets the
+ * experience (and the target role, if given).
+ *
+ * @param experience - User's experience, skills, or accomplishments
+ * @param target - Optional role and job posting to aim the profile at
+ * @returns Formatted user prompt string
+ */
+export function createProfilePrompt(
+  experience: string,
+  target: Partial<Pick<ProfileRequest, "targetRole" | "jobDescription">> = {}
+): string {
+  const jobSection = target.jobDescription
+    ? `\nA JOB POSTING I AM TARGETING:
+${quoteBlock(target.jobDescription)}
+`
+    : ""
+  const roleLine = target.targetRole
+    ? `\nTarget role: ${neutralizeDelimiters(target.targetRole)}`
+    : ""
+
+  return `MY EXPERIENCE AND BACKGROUND:
+${quoteBlock(experience)}
+${jobSection}
+Write ${PROFILE_HEADLINE_COUNT} LinkedIn headline options and an About section for my profile.${roleLine}
+
+Guidelines:
+- Use the keywords a recruiter hiring for ${target.targetRole ? "this role" : "my kind of role"} would search for
+- Reuse figures from my experience exactly as written
+- Headlines: at most ${LINKEDIN_LIMITS.headline} characters each
+- About: at most ${LINKEDIN_LIMITS.about} characters in total`
+}
+
+/**
+ * System prompt for interview prep: expanding a resume bullet into a STAR
+ * story the candidate can tell, plus the questions likely to follow.
+ */
+export const STORY_SYSTEM_PROMPT = `You are an interview coach and former hiring manager who helps candidates turn resume bullets into clear, credible interview answers.
+
+For the resume bullet you are given, write the story behind it in STAR form:
+- Situation: the context and why it mattered (1–3 sentences)
+- Task: what the candidate specifically was responsible for (1–2 sentences)
+- Action: what the candidate did, step by step, in first person ("I"), with the key decisions and why (3–5 sentences)
+- Result: the outcome and what changed, with the figures from the experience (1–3 sentences)
+
+Then list the follow-up questions an interviewer is most likely to ask about this story.
+
+Rules:
+- Use ONLY facts from the candidate's experience. The bullet is a summary, not a source: if it states something the experience doesn't support, leave it out
+- Never invent numbers, tools, team sizes, employers or outcomes; where a detail is missing, stay general rather than guessing
+- Write it to be spoken: plain language, no buzzwords, no markdown
+
+OUTPUT RULES:
+- Return ONLY one JSON object with exactly these fields:
+  {"situation": "<text>", "task": "<text>", "action": "<text>", "result": "<text>", "followUps": ["<question>", ...]}
+- No code fences, no explanations`
+
+/**
+ * Generates the user prompt for expanding a bullet into a STAR story.
+ *
+ * @param experience - User's experience, the only source of facts
+ * @param bullet - Resume bullet the story is about
+ * @param jobDescription - Optional job posting, used to anticipate questions
+ * @returns Formatted user prompt string
+ */
+export function createStoryPrompt(
+  experience: string,
+  bullet: string,
+  jobDescription?: string
+): string {
+  const jobSection = jobDescription
+    ? `\nTHE JOB I AM INTERVIEWING FOR:
+${quoteBlock(jobDescription)}
+`
+    : ""
+
+  return `MY EXPERIENCE AND BACKGROUND:
+${quoteBlock(experience)}
+
+RESUME BULLET:
+${quoteBlock(bullet)}
+${jobSection}
+Expand this bullet into a STAR story I can tell in an interview, grounded only in my experience above.
+
+Guidelines:
+- Keep it under two minutes when spoken (about 250 words)
+- Reuse figures from my experience exactly as written
+- Give up to ${MAX_FOLLOW_UPS} follow-up questions${jobDescription ? ", favouring what this job cares about" : ""}`
+}
+
+/**
+ * Maximum number of bullets returned from a single generation.
+ */
+export const MAX_BULLETS = 10
+
+/**
+ * Fixes common JSON mistakes in model output (smart quotes, trailing commas).
+ */
+function repairJsonLine(line: string): string {
+  return line.replace(/[“”]/g, '"').replace(/,\s*([}\]])/g, "$1")
+}
+
+/**
+ * Takes the leading verb from the text when the model's value disagrees,
+ * since it must match what the reader sees, and drops repeated keywords.
+ */
+function normalizeVariant<T extends BulletVariant>(variant: T): T {
+  const firstWord = variant.text.split(/\s+/)[0]?.replace(/[^\w-]/g, "") ?? ""
+
+  return {
+    ...variant,
+    verb:
+      firstWord.toLowerCase() === variant.verb.toLowerCase()
+        ? variant.verb
+        : firstWord,
+    keywords: [...new Set(variant.keywords)],
+  }
+}
+
+/**
+ * Parses one line of model output into a validated bullet.
+ *
+ * @param line - A single line of the model response
+ * @returns The bullet, or null if the line is not a valid bullet object
+ */
+export function parseBulletLine(line: string): Bullet | null {
+  const candidate = line
+    .trim()
+    .replace(/^[-•*]\s*/, "") // Remove list markers the model might add
+    .replace(/,$/, "") // Remove separators from array-style output
+
+  if (!candidate.startsWith("{")) return null
+
+  let raw: unknown
+  try {
+    raw = JSON.parse(candidate)
+  } catch {
+    raw = safeJsonParse<unknown>(repairJsonLine(candidate), null)
+  }
+
+  const result = bulletSchema.safeParse(raw)
+  if (!result.success) return null
+
+  const { alternatives, ...bullet } = result.data
+
+  return {
+    ...normalizeVariant(bullet),
+    ...(alternatives && { alternatives: alternatives.map(normalizeVariant) }),
+  }
+}
+
+/**
+ * Incremental bullet parser for streamed responses.
+ */
+export interface BulletStreamParser {
+  /** Adds a chunk of text and returns any bullets completed by it */
+  push: (chunk: string) => Bullet[]
+  /** Parses whatever remains in the buffer once the stream has ended */
+  flush: () => Bullet[]
+  /** Non-empty lines seen so far that were not valid bullets */
+  malformedLines: () => string[]
+}
+
+/**
+ * Creates a parser that turns streamed JSON Lines into bullets.
+ * A bullet is emitted as soon as its line is terminated by a newline.
+ *
+ * @param maxBullets - Stop emitting after this many bullets
+ * @param accept - Optional filter (e.g. a role assigner) returning the
+ *   bullet to emit, or null to drop it. Dropped bullets don't count
+ *   toward `maxBullets`.
+ * @returns Stateful parser for a single stream
+ */
+export function createBulletStreamParser(
+  maxBullets: number = MAX_BULLETS,
+  accept?: (bullet: Bullet) => Bullet | null
+): BulletStreamParser {
+  let buffer = ""
+  let emitted = 0
+  const malformed: string[] = []
+
+  const take = (text: string): Bullet[] => {
+    const bullets: Bullet[] = []
+
+    for (const line of text.split("\n")) {
+      const trimmed = line.trim()
+      // Ignore blank lines and markdown code fences
+      if (!trimmed || trimmed.startsWith("```")) continue
+
+      const parsed = parseBulletLine(trimmed)
+      if (!parsed) {
+        malformed.push(trimmed)
+        continue
+      }
+      if (emitted >= maxBullets) continue
+
+      const bullet = accept ? accept(parsed) : parsed
+      if (bullet) {
+        bullets.push(bullet)
+        emitted++
+      }
+    }
+
+    return bullets
+  }
+
+  return {
+    push(chunk) {
+      buffer += chunk
+      const lastNewline = buffer.lastIndexOf("\n")
+      if (lastNewline === -1) return []
+
+      const complete = buffer.slice(0, lastNewline)
+      buffer = buffer.slice(lastNewline + 1)
+      return take(complete)
+    },
+    flush() {
+      const rest = buffer
+      buffer = ""
+      return take(rest)
+    },
+    malformedLines: () => [...malformed],
+  }
+}
+
+/**
+ * Parses a complete AI response into bullets.
+ *
+ * @param response - Raw model response
+ * @param maxBullets - Maximum bullets to return
+ * @param accept - Optional filter, as for createBulletStreamParser
+ * @returns Valid bullets and any lines that could not be parsed
+ */
+export function parseBulletResponse(
+  response: string,
+  maxBullets: number = MAX_BULLETS,
+  accept?: (bullet: Bullet) => Bullet | null
+): {
+  bullets: Bullet[]
+  malformedLines: string[]
+} {
+  const parser = createBulletStreamParser(maxBullets, accept)
+  const bullets = [...parser.push(response), ...parser.flush()]
+  return { bullets, malformedLines: parser.malformedLines() }
 }
 
 /**
@@ -171,3 +987,14 @@ Example:
 - Worked at a fintech startup and a large e-commerce company
 - Reduced server costs by optimizing database queries
 - Mentored 2 interns who got converted to full-time`
+
+/**
+ * Placeholder text for the experience input in rewrite mode.
+ */
+export const EXISTING_BULLETS_PLACEHOLDER = `Paste your current resume bullets, one per line...
+
+Example:
+- Responsible for maintaining the company's backend APIs
+- Worked on moving services to the cloud
+- Helped reduce server costs by improving database queries
+- Mentored interns`
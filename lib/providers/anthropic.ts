@@ -0,0 +1,185 @@
+import { readServerSentEvents } from "@/lib/ndjson"
+import {
+  createProviderError,
+  errorKindFromStatus,
+  type ChatMessage,
+  type CompletionRequest,
+  type LLMProvider,
+} from "./types"
+
+/**
+ * Anthropic Messages API endpoint and version.
+ *
+ * @see https://docs.anthropic.com/en/api/messages
+ */
+const ANTHROPIC_API_URL = "https://api.anthropic.com/v1/messages"
+const ANTHROPIC_VERSION = "2023-06-01"
+
+/**
+ * Options for the Anthropic provider.
+ */
+export interface AnthropicProviderOptions {
+  apiKey: string
+  defaultModel: string
+}
+
+/**
+ * Message in Anthropic's format (no system role).
+ */
+interface AnthropicMessage {
+  role: "user" | "assistant"
+  content: string
+}
+
+/**
+ * Token counts in Anthropic responses.
+ */
+interface AnthropicUsage {
+  input_tokens?: number
+  output_tokens?: number
+}
+
+/**
+ * Translates chat messages to Anthropic's layout.
+ * System messages move to the top-level `system` field, and consecutive
+ * messages with the same role are merged since the API requires turns
+ * to alternate.
+ */
+function toAnthropicMessages(messages: ChatMessage[]): {
+  system: string | undefined
+  messages: AnthropicMessage[]
+} {
+  const system = messages
+    .filter((m) => m.role === "system")
+    .map((m) => m.content.trim())
+    .join("\n\n")
+
+  const turns: AnthropicMessage[] = []
+  for (const message of messages) {
+    if (message.role === "system") continue
+
+    const previous = turns[turns.length - 1]
+    if (previous && previous.role === message.role) {
+      previous.content += `\n\n${message.content}`
+    } else {
+      turns.push({ role: message.role, content: message.content })
+    }
+  }
+
+  return { system: system || undefined, messages: turns }
+}
+
+/**
+ * Creates a provider for Anthropic's Messages API.
+ * Presence and frequency penalties have no Anthropic equivalent and are
+ * ignored.
+ */
+export function createAnthropicProvider({
+  apiKey,
+  defaultModel,
+}: AnthropicProviderOptions): LLMProvider {
+  const send = async (
+    request: CompletionRequest,
+    stream: boolean
+  ): Promise<Response> => {
+    const { system, messages } = toAnthropicMessages(request.messages)
+
+    let response: Response
+    try {
+      response = await fetch(ANTHROPIC_API_URL, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-key": apiKey,
+          "anthropic-version": ANTHROPIC_VERSION,
+        },
+        body: JSON.stringify({
+          model: request.model,
+          system,
+          messages,
+          max_tokens: request.maxTokens,
+          temperature: request.temperature,
+          stream,
+        }),
+        signal: request.signal,
+      })
+    } catch (error) {
+      throw createProviderError(
+        "anthropic",
+        "unavailable",
+        error instanceof Error ? error.message : "Network error"
+      )
+    }
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => null)
+      throw createProviderError(
+        "anthropic",
+        errorKindFromStatus(response.status),
+        data?.error?.message ?? `HTTP ${response.status}`,
+        response.status
+      )
+    }
+
+    return response
+  }
+
+  return {
+    name: "anthropic",
+    defaultModel,
+
+    async complete(request) {
+      const response = await send(request, false)
+      const data: {
+        content?: { type: string; text?: string }[]
+        usage?: AnthropicUsage
+      } = await response.json()
+
+      return {
+        content: (data.content ?? [])
+          .filter((block) => block.type === "text")
+          .map((block) => block.text ?? "")
+          .join(""),
+        usage: data.usage && {
+          inputTokens: data.usage.input_tokens ?? 0,
+          outputTokens: data.usage.output_tokens ?? 0,
+        },
+      }
+    },
+
+    async *stream(request) {
+      const response = await send(request, true)
+      if (!response.body) return
+
+      // Input tokens arrive with message_start, output tokens with message_delta
+      let inputTokens = 0
+
+      for await (const event of readServerSentEvents(response.body)) {
+        const data: {
+          type?: string
+          delta?: { type?: string; text?: string }
+          message?: { usage?: AnthropicUsage }
+          usage?: AnthropicUsage
+          error?: { type?: string; message?: string }
+        } = JSON.parse(event.data)
+
+        if (data.type === "content_block_delta" && data.delta?.text) {
+          yield { text: data.delta.text }
+        } else if (data.type === "message_start") {
+          inputTokens = data.message?.usage?.input_tokens ?? 0
+        } else if (data.type === "message_delta" && data.usage) {
+          yield {
+            text: "",
+            usage: { inputTokens, outputTokens: data.usage.output_tokens ?? 0 },
+          }
+        } else if (data.type === "error") {
+          throw createProviderError(
+            "anthropic",
+            data.error?.type === "overloaded_error" ? "unavailable" : "unknown",
+            data.error?.message ?? "Stream error"
+          )
+        }
+      }
+    },
+  }
+}
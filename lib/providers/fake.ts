@@ -0,0 +1,99 @@
+import { sleep } from "@/lib/utils"
+import type { ChatMessage, LLMProvider, TokenUsage } from "./types"
+
+/**
+ * Produces the fake provider's reply for a conversation.
+ */
+export type FakeResponder = (messages: ChatMessage[]) => string
+
+/**
+ * Options for the fake provider.
+ */
+export interface FakeProviderOptions {
+  /** Custom reply logic (defaults to a fixed set of bullets) */
+  respond?: FakeResponder
+  /** Delay between streamed chunks, to make streaming visible in dev */
+  chunkDelayMs?: number
+}
+
+/**
+ * Fixed bullets returned by the default responder, as JSON Lines.
+ */
+const FAKE_BULLETS = [
+  {
+    text: "Led migration of 12 backend services to Kubernetes, cutting deployment time from 2 hours to 15 minutes",
+    verb: "Led",
+    keywords: ["Kubernetes", "backend services"],
+    hasMetric: true,
+  },
+  {
+    text: "Designed REST APIs in Node.js handling 3M daily requests with 99.9% uptime across payment workflows",
+    verb: "Designed",
+    keywords: ["REST APIs", "Node.js"],
+    hasMetric: true,
+  },
+  {
+    text: "Mentored four junior engineers through code reviews and pairing, establishing team testing standards",
+    verb: "Mentored",
+    keywords: ["mentoring", "code reviews"],
+    hasMetric: false,
+  },
+  {
+    text: "Optimized PostgreSQL queries and added Redis caching, reducing p95 API latency by 40%",
+    verb: "Optimized",
+    keywords: ["PostgreSQL", "Redis"],
+    hasMetric: true,
+  },
+  {
+    text: "Partnered with product managers to scope and ship quarterly roadmap features on schedule",
+    verb: "Partnered",
+    keywords: ["product", "roadmap"],
+    hasMetric: false,
+  },
+]
+
+/**
+ * Approximates token usage (~4 characters per token) so cost accounting
+ * has something to record offline.
+ */
+function estimateUsage(messages: ChatMessage[], content: string): TokenUsage {
+  const inputChars = messages.reduce((sum, m) => sum + m.content.length, 0)
+  return {
+    inputTokens: Math.ceil(inputChars / 4),
+    outputTokens: Math.ceil(content.length / 4),
+  }
+}
+
+const defaultResponder: FakeResponder = () =>
+  FAKE_BULLETS.map((bullet) => JSON.stringify(bullet)).join("\n")
+
+/**
+ * Creates a deterministic provider that never leaves the process.
+ * Used for tests and for running the app fully offline in development.
+ */
+export function createFakeProvider({
+  respond = defaultResponder,
+  chunkDelayMs = 0,
+}: FakeProviderOptions = {}): LLMProvider {
+  return {
+    name: "fake",
+    defaultModel: "fake",
+
+    async complete(request) {
+      request.signal?.throwIfAborted()
+      const content = respond(request.messages)
+      return { content, usage: estimateUsage(request.messages, content) }
+    },
+
+    async *stream(request) {
+      // Stream word by word so consumers see realistic chunk boundaries
+      const content = respond(request.messages)
+      for (const chunk of content.split(/(?<=\s)/)) {
+        if (chunkDelayMs > 0) await sleep(chunkDelayMs)
+        request.signal?.throwIfAborted()
+        yield { text: chunk }
+      }
+      yield { text: "", usage: estimateUsage(request.messages, content) }
+    },
+  }
+}
@@ -0,0 +1,130 @@
+import { createAnthropicProvider } from "./anthropic"
+import { createFakeProvider } from "./fake"
+import { createOpenAIProvider } from "./openai"
+import type { LLMProvider, ProviderName } from "./types"
+import { getModelPrice } from "@/lib/costs"
+
+export * from "./types"
+export { createOpenAIProvider } from "./openai"
+export { createAnthropicProvider } from "./anthropic"
+export { createFakeProvider } from "./fake"
+
+/**
+ * Default model per provider when `LLM_MODEL` is not set.
+ */
+const DEFAULT_MODELS: Record<ProviderName, string> = {
+  openai: "gpt-4o-mini",
+  anthropic: "claude-3-5-haiku-latest",
+  "openai-compatible": "llama3.1",
+  fake: "fake",
+}
+
+const PROVIDER_NAMES = Object.keys(DEFAULT_MODELS) as ProviderName[]
+
+/**
+ * Creates the provider selected by environment variables:
+ * - LLM_PROVIDER: openai (default) | anthropic | openai-compatible | fake
+ * - LLM_MODEL: overrides the provider's default model
+ * - LLM_FALLBACK_MODELS: comma-separated models to try when it fails
+ * - OPENAI_API_KEY: for openai
+ * - ANTHROPIC_API_KEY: for anthropic
+ * - LLM_BASE_URL, LLM_API_KEY: for openai-compatible servers
+ * - LLM_FAKE_DELAY_MS: streaming delay for the fake provider
+ *
+ * Every configured model needs a price (see `lib/costs`): an unpriced
+ * model would count as free, and the daily spend cap would never see it.
+ */
+export function createProviderFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): LLMProvider {
+  const fallbackModels = (env.LLM_FALLBACK_MODELS ?? "")
+    .split(",")
+    .map((model) => model.trim())
+    .filter(Boolean)
+  const base = createBaseProvider(env)
+
+  const unpriced = [base.defaultModel, ...fallbackModels].filter(
+    (model) => !getModelPrice(model)
+  )
+  if (unpriced.length > 0) {
+    throw new Error(
+      `No price configured for ${unpriced.join(", ")}. Add it to LLM_PRICES, e.g. {"${unpriced[0]}":{"input":0,"output":0}} for a free local model`
+    )
+  }
+
+  return { ...base, fallbackModels }
+}
+
+/**
+ * Creates the provider named by `LLM_PROVIDER`, without fallbacks.
+ */
+function createBaseProvider(env: NodeJS.ProcessEnv): LLMProvider {
+  const name = (env.LLM_PROVIDER ?? "openai") as ProviderName
+
+  if (!PROVIDER_NAMES.includes(name)) {
+    throw new Error(
+      `Unknown LLM_PROVIDER "${name}". Expected one of: ${PROVIDER_NAMES.join(", ")}`
+    )
+  }
+
+  const defaultModel = env.LLM_MODEL || DEFAULT_MODELS[name]
+
+  switch (name) {
+    case "openai":
+      return createOpenAIProvider({
+        name,
+        apiKey: requireEnv(env, "OPENAI_API_KEY"),
+        defaultModel,
+      })
+
+    case "openai-compatible":
+      return createOpenAIProvider({
+        name,
+        // Local servers usually accept any key
+        apiKey: env.LLM_API_KEY || "not-needed",
+        baseURL: requireEnv(env, "LLM_BASE_URL"),
+        defaultModel,
+      })
+
+    case "anthropic":
+      return createAnthropicProvider({
+        apiKey: requireEnv(env, "ANTHROPIC_API_KEY"),
+        defaultModel,
+      })
+
+    case "fake":
+      return createFakeProvider({
+        chunkDelayMs: parseInt(env.LLM_FAKE_DELAY_MS ?? "0", 10) || 0,
+      })
+  }
+}
+
+/**
+ * Reads a required environment variable.
+ */
+function requireEnv(env: NodeJS.ProcessEnv, key: string): string {
+  const value = env[key]
+  if (!value) {
+    throw new Error(`Missing ${key} environment variable`)
+  }
+  return value
+}
+
+let provider: LLMProvider | null = null
+
+/**
+ * Returns the configured provider, creating it on first use.
+ * Created lazily so builds and imports never require API keys.
+ */
+export function getProvider(): LLMProvider {
+  provider ??= createProviderFromEnv()
+  return provider
+}
+
+/**
+ * Replaces the active provider (e.g. with a fake in tests).
+ * Pass null to fall back to environment configuration.
+ */
+export function setProvider(next: LLMProvider | null): void {
+  provider = next
+}
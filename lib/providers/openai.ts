@@ -0,0 +1,110 @@
+import OpenAI from "openai"
+import {
+  createProviderError,
+  errorKindFromStatus,
+  type CompletionRequest,
+  type LLMProvider,
+  type ProviderName,
+} from "./types"
+
+/**
+ * Options for OpenAI and OpenAI-compatible providers.
+ */
+export interface OpenAIProviderOptions {
+  /** "openai" for the hosted API, "openai-compatible" for anything else */
+  name: Extract<ProviderName, "openai" | "openai-compatible">
+  apiKey: string
+  /** Base URL for compatible servers (e.g. http://localhost:11434/v1) */
+  baseURL?: string
+  defaultModel: string
+}
+
+/**
+ * Creates a provider backed by the OpenAI SDK.
+ * Also serves any server implementing the Chat Completions API, such as a
+ * local llama.cpp or Ollama instance.
+ * Token usage is reported for both calls; see `lib/costs` for pricing.
+ */
+export function createOpenAIProvider({
+  name,
+  apiKey,
+  baseURL,
+  defaultModel,
+}: OpenAIProviderOptions): LLMProvider {
+  const client = new OpenAI({ apiKey, baseURL })
+
+  const toParams = (request: CompletionRequest) => ({
+    model: request.model,
+    messages: request.messages,
+    temperature: request.temperature,
+    max_tokens: request.maxTokens,
+    presence_penalty: request.presencePenalty,
+    frequency_penalty: request.frequencyPenalty,
+  })
+
+  const mapError = (error: unknown): unknown => {
+    if (error instanceof OpenAI.APIError) {
+      return createProviderError(
+        name,
+        errorKindFromStatus(error.status),
+        error.message,
+        error.status
+      )
+    }
+    return error
+  }
+
+  return {
+    name,
+    defaultModel,
+
+    async complete(request) {
+      try {
+        const completion = await client.chat.completions.create(
+          toParams(request),
+          { signal: request.signal }
+        )
+        return {
+          content: completion.choices[0]?.message?.content ?? "",
+          usage: completion.usage && {
+            inputTokens: completion.usage.prompt_tokens,
+            outputTokens: completion.usage.completion_tokens,
+          },
+        }
+      } catch (error) {
+        throw mapError(error)
+      }
+    },
+
+    async *stream(request) {
+      try {
+        const stream = await client.chat.completions.create(
+          {
+            ...toParams(request),
+            stream: true,
+            stream_options: { include_usage: true },
+          },
+          { signal: request.signal }
+        )
+
+        for await (const chunk of stream) {
+          const delta = chunk.choices[0]?.delta?.content
+          if (delta) yield { text: delta }
+
+          // Sent on the last chunk because of include_usage
+          if (chunk.usage) {
+            yield {
+              text: "",
+              usage: {
+                inputTokens: chunk.usage.prompt_tokens,
+                outputTokens: chunk.usage.completion_tokens,
+              },
+            }
+          }
+        }
+      } catch (error) {
+        throw mapError(error)
+      }
+    },
+  }
+}
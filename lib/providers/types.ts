@@ -0,0 +1,140 @@
+/**
+ * Shared types for LLM providers.
+ *
+ * Every provider receives the same provider-neutral request and translates
+ * it (message layout, sampling options, errors) to its own API.
+ */
+
+/**
+ * Type for chat message roles.
+ */
+export type MessageRole = "system" | "user" | "assistant"
+
+/**
+ * Type for a chat message.
+ */
+export interface ChatMessage {
+  role: MessageRole
+  content: string
+}
+
+/**
+ * Supported provider identifiers (value of `LLM_PROVIDER`).
+ */
+export type ProviderName = "openai" | "anthropic" | "openai-compatible" | "fake"
+
+/**
+ * A fully resolved completion request.
+ * Providers may ignore options their API does not support.
+ */
+export interface CompletionRequest {
+  messages: ChatMessage[]
+  model: string
+  temperature: number
+  maxTokens: number
+  presencePenalty: number
+  frequencyPenalty: number
+  /** Aborts the request (used for timeouts) */
+  signal?: AbortSignal
+}
+
+/**
+ * Tokens billed for one completion, as reported by the provider.
+ */
+export interface TokenUsage {
+  inputTokens: number
+  outputTokens: number
+}
+
+/**
+ * A full assistant message.
+ */
+export interface CompletionResult {
+  content: string
+  /** Missing when the provider does not report usage */
+  usage?: TokenUsage
+}
+
+/**
+ * A piece of a streamed assistant message.
+ * Providers that report usage send it on a final chunk with empty text.
+ */
+export interface CompletionChunk {
+  text: string
+  usage?: TokenUsage
+}
+
+/**
+ * A chat completion backend.
+ */
+export interface LLMProvider {
+  /** Provider identifier */
+  name: ProviderName
+  /** Model used when the caller does not specify one */
+  defaultModel: string
+  /** Models to try, in order, when the requested model keeps failing */
+  fallbackModels?: string[]
+  /** Returns the full assistant message */
+  complete: (request: CompletionRequest) => Promise<CompletionResult>
+  /** Yields the assistant message as text deltas */
+  stream: (request: CompletionRequest) => AsyncIterable<CompletionChunk>
+}
+
+/**
+ * Provider-neutral error categories.
+ */
+export type ProviderErrorKind =
+  "auth" | "rate_limit" | "unavailable" | "timeout" | "bad_request" | "unknown"
+
+/**
+ * Error thrown by providers after translating their API's failures.
+ */
+export interface ProviderError extends Error {
+  kind: ProviderErrorKind
+  provider: ProviderName
+  status?: number
+}
+
+/**
+ * Creates a provider error.
+ *
+ * @param provider - Provider that failed
+ * @param kind - Provider-neutral error category
+ * @param message - Underlying error message
+ * @param status - HTTP status, if any
+ */
+export function createProviderError(
+  provider: ProviderName,
+  kind: ProviderErrorKind,
+  message: string,
+  status?: number
+): ProviderError {
+  return Object.assign(new Error(message), {
+    name: "ProviderError",
+    kind,
+    provider,
+    status,
+  })
+}
+
+/**
+ * Type guard for provider errors.
+ */
+export function isProviderError(error: unknown): error is ProviderError {
+  return (
+    error instanceof Error && error.name === "ProviderError" && "kind" in error
+  )
+}
+
+/**
+ * Maps an HTTP status code to a provider error kind.
+ */
+export function errorKindFromStatus(
+  status: number | undefined
+): ProviderErrorKind {
+  if (status === 401 || status === 403) return "auth"
+  if (status === 429) return "rate_limit"
+  if (status !== undefined && status >= 500) return "unavailable"
+  if (status !== undefined && status >= 400) return "bad_request"
+  return "unknown"
+}
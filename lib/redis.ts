@@ -46,12 +46,23 @@ function createRedisClient(): Redis {
 
 export const redis = createRedisClient()
 
+/**
+ * Whether Redis credentials are set. LLM call analytics are skipped
+ * without them (e.g. offline evaluation runs) instead of failing per call.
+ */
+export const isRedisConfigured = Boolean(
+  process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN
+)
+
 /**
  * Redis key prefixes for organization and easy querying.
  */
 export const REDIS_KEYS = {
-  /** Usage count by identifier (IP or license key) */
-  usage: (identifier: string) => `usage:${identifier}`,
+  /** Usage count by identifier (IP or license key) and usage kind */
+  usage: (identifier: string, kind: UsageKind = "generation") =>
+    kind === "generation"
+      ? `usage:${identifier}`
+      : `usage:${kind}:${identifier}`,
 
   /** License key lookup - stores tier info */
   license: (licenseKey: string) => `license:${licenseKey}`,
@@ -64,8 +75,50 @@ export const REDIS_KEYS = {
 
   /** Daily generation count for analytics */
   dailyStats: (date: string) => `stats:daily:${date}`,
+
+  /** Daily LLM call outcomes (attempts, answering model) for analytics */
+  llmStats: (date: string) => `stats:llm:${date}`,
+
+  /** Daily token and cost totals, overall and per tier */
+  dailyCost: (date: string) => `stats:cost:${date}`,
+
+  /** Cumulative token and cost totals for a license */
+  licenseCost: (licenseKey: string) => `cost:license:${licenseKey}`,
+
+  /** Cumulative quality signals for a prompt version */
+  promptStats: (version: string) => `stats:prompt:${version}`,
+
+  /** Cached generation result by input hash */
+  generationCache: (hash: string) => `cache:generation:${hash}`,
+
+  /** Recent requests rejected by the prompt-injection guard */
+  quarantine: () => "guard:quarantine",
+
+  /** Manual kill switch: any value pauses all generation */
+  killSwitch: () => "budget:kill-switch",
+
+  /** Hourly charged request count for a paid user, checked while throttled */
+  budgetThrottle: (identifier: string, hour: string) =>
+    `budget:throttle:${identifier}:${hour}`,
 } as const
 
+/**
+ * Metered actions. Each kind has its own quota per tier.
+ * - generation: a full set of bullets
+ * - refinement: rewriting a single bullet
+ * - cover-letter: a full cover letter
+ * - paragraph: rewriting one cover letter paragraph
+ * - story: a bullet expanded into an interview (STAR) story
+ * - profile: LinkedIn headline options and an About section
+ */
+export type UsageKind =
+  | "generation"
+  | "refinement"
+  | "cover-letter"
+  | "paragraph"
+  | "story"
+  | "profile"
+
 /**
  * Free tier configuration.
  */
@@ -73,6 +126,24 @@ export const FREE_TIER = {
   /** Number of free generations allowed */
   maxGenerations: 3,
 
+  /** Number of free single-bullet refinements allowed */
+  maxRefinements: 10,
+
+  /** Number of free cover letters allowed */
+  maxCoverLetters: 1,
+
+  /** Number of free cover letter paragraph rewrites allowed */
+  maxParagraphs: 5,
+
+  /** Number of free interview stories allowed */
+  maxStories: 3,
+
+  /** Number of free LinkedIn profiles allowed */
+  maxProfiles: 1,
+
+  /** Most bullets a single generation may request */
+  maxBullets: 5,
+
   /** TTL for free tier usage tracking (24 hours in seconds) */
   ttlSeconds: 86400,
 } as const
@@ -85,18 +156,72 @@ export const PAID_TIERS = {
     name: "Basic",
     price: 9.99,
     generations: 50,
+    refinements: 250,
+    coverLetters: 20,
+    paragraphs: 100,
+    stories: 100,
+    profiles: 20,
+    maxBullets: 8,
     ttlSeconds: null, // Never expires
   },
   lifetime: {
     name: "Lifetime",
     price: 19.99,
     generations: Infinity,
+    refinements: Infinity,
+    coverLetters: Infinity,
+    paragraphs: Infinity,
+    stories: Infinity,
+    profiles: Infinity,
+    maxBullets: 10,
     ttlSeconds: null,
   },
 } as const
 
 export type PaidTierKey = keyof typeof PAID_TIERS
 
+/**
+ * Gets the quota for a usage kind on a tier.
+ *
+ * @param tier - Free or paid tier
+ * @param kind - Metered action
+ * @returns Maximum allowed uses (Infinity for unlimited)
+ */
+export function getUsageLimit(
+  tier: "free" | PaidTierKey,
+  kind: UsageKind
+): number {
+  const limits: Record<UsageKind, number> =
+    tier === "free"
+      ? {
+          generation: FREE_TIER.maxGenerations,
+          refinement: FREE_TIER.maxRefinements,
+          "cover-letter": FREE_TIER.maxCoverLetters,
+          paragraph: FREE_TIER.maxParagraphs,
+          story: FREE_TIER.maxStories,
+          profile: FREE_TIER.maxProfiles,
+        }
+      : {
+          generation: PAID_TIERS[tier].generations,
+          refinement: PAID_TIERS[tier].refinements,
+          "cover-letter": PAID_TIERS[tier].coverLetters,
+          paragraph: PAID_TIERS[tier].paragraphs,
+          story: PAID_TIERS[tier].stories,
+          profile: PAID_TIERS[tier].profiles,
+        }
+  return limits[kind]
+}
+
+/**
+ * Gets the most bullets a tier may request per generation.
+ *
+ * @param tier - Free or paid tier
+ * @returns Maximum bullet count
+ */
+export function getMaxBullets(tier: "free" | PaidTierKey): number {
+  return tier === "free" ? FREE_TIER.maxBullets : PAID_TIERS[tier].maxBullets
+}
+
 /**
  * License data stored in Redis.
  */
@@ -112,10 +237,14 @@ export interface LicenseData {
  * Gets the current usage count for an identifier.
  *
  * @param identifier - IP address or license key
+ * @param kind - Metered action (defaults to full generations)
  * @returns Current usage count (0 if not found)
  */
-export async function getUsageCount(identifier: string): Promise<number> {
-  const count = await redis.get<number>(REDIS_KEYS.usage(identifier))
+export async function getUsageCount(
+  identifier: string,
+  kind: UsageKind = "generation"
+): Promise<number> {
+  const count = await redis.get<number>(REDIS_KEYS.usage(identifier, kind))
   return count ?? 0
 }
 
@@ -124,13 +253,15 @@ export async function getUsageCount(identifier: string): Promise<number> {
  *
  * @param identifier - IP address or license key
  * @param isPaid - Whether this is a paid user (no TTL for paid)
+ * @param kind - Metered action (defaults to full generations)
  * @returns New usage count
  */
 export async function incrementUsage(
   identifier: string,
-  isPaid: boolean = false
+  isPaid: boolean = false,
+  kind: UsageKind = "generation"
 ): Promise<number> {
-  const key = REDIS_KEYS.usage(identifier)
+  const key = REDIS_KEYS.usage(identifier, kind)
   const newCount = await redis.incr(key)
 
   // Set TTL only for free tier (resets daily)
@@ -265,3 +396,143 @@ export async function trackDailyGeneration(
   // Keep stats for 90 days
   await redis.expire(key, 86400 * 90)
 }
+
+/**
+ * Outcome of one LLM call, including retries and fallbacks.
+ */
+export interface CompletionOutcome {
+  /** Total attempts across all models */
+  attempts: number
+  /** Model that answered, or null if every attempt failed */
+  model: string | null
+  /** Whether the answering model was a fallback */
+  usedFallback: boolean
+}
+
+/**
+ * Records an LLM call outcome in the daily stats hash.
+ * Fields: calls, attempts, retries, fallbacks, failures, model:<name>.
+ *
+ * @param outcome - Attempts and answering model
+ * @param date - Date string in YYYY-MM-DD format
+ */
+export async function trackCompletionOutcome(
+  outcome: CompletionOutcome,
+  date: string = new Date().toISOString().split("T")[0]!
+): Promise<void> {
+  if (!isRedisConfigured) return
+
+  const key = REDIS_KEYS.llmStats(date)
+  const pipeline = redis.pipeline()
+
+  pipeline.hincrby(key, "calls", 1)
+  pipeline.hincrby(key, "attempts", outcome.attempts)
+  pipeline.hincrby(key, "retries", outcome.attempts - 1)
+  if (outcome.usedFallback) pipeline.hincrby(key, "fallbacks", 1)
+  if (outcome.model) pipeline.hincrby(key, `model:${outcome.model}`, 1)
+  else pipeline.hincrby(key, "failures", 1)
+  // Keep stats for 90 days
+  pipeline.expire(key, 86400 * 90)
+
+  await pipeline.exec()
+}
+
+/**
+ * Quality signals for one generation, recorded per prompt version.
+ */
+export interface PromptGenerationStats {
+  /** Bullets returned */
+  bullets: number
+  /** Linter warnings across all bullets */
+  lintWarnings: number
+  /** Figures not found in the user's experience */
+  unsupportedMetrics: number
+  /** Keyword coverage score (0-100) */
+  coverageScore: number
+}
+
+/**
+ * Signals sent after a generation: thumbs up/down, or a bullet rewrite.
+ */
+export type PromptSignal = "feedback_up" | "feedback_down" | "refinements"
+
+/**
+ * Adds a generation to a prompt version's stats hash.
+ * Fields: generations, bullets, lint_warnings, unsupported_metrics,
+ * coverage_total (sum of scores; divide by generations for the mean).
+ *
+ * @param version - Prompt version that produced the bullets
+ * @param stats - Quality signals for the generation
+ */
+export async function trackPromptGeneration(
+  version: string,
+  stats: PromptGenerationStats
+): Promise<void> {
+  const key = REDIS_KEYS.promptStats(version)
+  const pipeline = redis.pipeline()
+
+  pipeline.hincrby(key, "generations", 1)
+  pipeline.hincrby(key, "bullets", stats.bullets)
+  pipeline.hincrby(key, "lint_warnings", stats.lintWarnings)
+  pipeline.hincrby(key, "unsupported_metrics", stats.unsupportedMetrics)
+  pipeline.hincrby(key, "coverage_total", stats.coverageScore)
+
+  await pipeline.exec()
+}
+
+/**
+ * Counts a feedback or refinement signal for a prompt version.
+ *
+ * @param version - Prompt version the signal is about
+ * @param signal - Hash field to increment
+ */
+export async function trackPromptSignal(
+  version: string,
+  signal: PromptSignal
+): Promise<void> {
+  await redis.hincrby(REDIS_KEYS.promptStats(version), signal, 1)
+}
+
+/**
+ * Reads a prompt version's stats hash for comparison.
+ *
+ * @param version - Prompt version
+ * @returns Counters by field (empty if the version has no traffic yet)
+ */
+export async function getPromptStats(
+  version: string
+): Promise<Record<string, number>> {
+  return (
+    (await redis.hgetall<Record<string, number>>(
+      REDIS_KEYS.promptStats(version)
+    )) ?? {}
+  )
+}
+
+/**
+ * A request rejected by the prompt-injection guard, kept for review.
+ * Only the matched excerpts are stored, never the full inputs.
+ */
+export interface QuarantineEntry {
+  /** API route that rejected the request */
+  route: string
+  /** Whether the input or the model output was rejected */
+  stage: "input" | "output"
+  /** What matched */
+  reasons: string[]
+}
+
+/**
+ * Adds a rejected request to the quarantine list (newest first, last 500).
+ *
+ * @param entry - Route, stage and reasons
+ */
+export async function quarantineRequest(entry: QuarantineEntry): Promise<void> {
+  const key = REDIS_KEYS.quarantine()
+  const pipeline = redis.pipeline()
+
+  pipeline.lpush(key, { ...entry, at: new Date().toISOString() })
+  pipeline.ltrim(key, 0, 499)
+
+  await pipeline.exec()
+}
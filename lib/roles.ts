@@ -0,0 +1,112 @@
+import { extractKeywords, mentionsKeyword } from "@/lib/keywords"
+import type { Bullet, Role } from "@/lib/validation"
+
+/**
+ * Multi-role tailoring.
+ *
+ * A resume lists several positions. The requested number of bullets is
+ * split across them so the positions that match the job description best
+ * get the most bullets, and every position gets at least one.
+ */
+
+/**
+ * One-line heading for a role, e.g. "Senior Engineer · Acme · 2021 – present".
+ *
+ * @param role - Resume position
+ * @returns Title, company and dates joined for display
+ */
+export function describeRole(
+  role: Pick<Role, "company" | "title" | "dates">
+): string {
+  return [role.title, role.company, role.dates].filter(Boolean).join(" · ")
+}
+
+/**
+ * Joins all roles into one block of experience text, for checks that look
+ * at the user's experience as a whole (figures, keywords, output guard).
+ *
+ * @param roles - Resume positions
+ * @returns Each role's heading followed by its notes
+ */
+export function formatRoles(roles: Role[]): string {
+  return roles
+    .map((role) => `${describeRole(role)}\n${role.notes}`)
+    .join("\n\n")
+}
+
+/**
+ * Splits a bullet budget across roles by relevance. Relevance is the
+ * number of job description keywords a role's title and notes mention;
+ * ties favour the earlier (usually more recent) role.
+ *
+ * @param roles - Resume positions, most recent first
+ * @param jobDescription - Target job posting
+ * @param total - Bullets to hand out (at least one per role)
+ * @returns Bullet count per role, in the order of `roles`
+ */
+export function allocateRoleBullets(
+  roles: Role[],
+  jobDescription: string,
+  total: number
+): number[] {
+  const keywords = extractKeywords(jobDescription)
+  // +1 so a role with no matches still has a share of the extra bullets
+  const scores = roles.map(
+    (role) =>
+      keywords.filter((k) => mentionsKeyword(k, `${role.title}\n${role.notes}`))
+        .length + 1
+  )
+  const totalScore = scores.reduce((sum, score) => sum + score, 0)
+  const extra = Math.max(0, total - roles.length)
+
+  // Largest remainder: whole shares first, leftovers to the biggest fractions
+  const shares = scores.map((score) => (score / totalScore) * extra)
+  const counts = shares.map((share) => 1 + Math.floor(share))
+  let leftover = roles.length + extra - counts.reduce((sum, n) => sum + n, 0)
+
+  const byRemainder = shares
+    .map((share, index) => ({ index, remainder: share - Math.floor(share) }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index)
+  for (const { index } of byRemainder) {
+    if (leftover <= 0) break
+    counts[index] = (counts[index] ?? 0) + 1
+    leftover--
+  }
+
+  return counts
+}
+
+/**
+ * Creates a function that files each generated bullet under a role and
+ * enforces the per-role counts. A bullet without a valid role number goes
+ * to the role of the bullet before it (the model lists roles in order), or
+ * else to the first role with room.
+ *
+ * @param counts - Bullets allowed per role, from allocateRoleBullets
+ * @returns Assigner returning the bullet with `role` set, or null when
+ *   its role is already full
+ */
+export function createRoleAssigner(
+  counts: number[]
+): (bullet: Bullet) => Bullet | null {
+  const used = counts.map(() => 0)
+  let current = 1
+
+  const hasRoom = (role: number) =>
+    (used[role - 1] ?? Infinity) < (counts[role - 1] ?? 0)
+
+  return (bullet) => {
+    let role = bullet.role
+    if (!role || role > counts.length) {
+      role = hasRoom(current)
+        ? current
+        : counts.findIndex((_, i) => hasRoom(i + 1)) + 1
+      if (role === 0) return null
+    }
+    if (!hasRoom(role)) return null
+
+    used[role - 1] = (used[role - 1] ?? 0) + 1
+    current = role
+    return { ...bullet, role }
+  }
+}
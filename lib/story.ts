@@ -0,0 +1,83 @@
+import { z } from "zod"
+import {
+  generateCompletion,
+  type ChatMessage,
+  type GenerationOptions,
+} from "@/lib/llm"
+import {
+  MAX_FOLLOW_UPS,
+  STAR_SECTIONS,
+  starStorySchema,
+  type StarStory,
+} from "@/lib/validation"
+import { extractJsonObject } from "@/lib/utils"
+
+/**
+ * Interview prep: a resume bullet expanded into a STAR story.
+ */
+
+/**
+ * Longest plausible story section, in words.
+ */
+export const MAX_SECTION_WORDS = 150
+
+/**
+ * A story and the questions likely to follow it.
+ */
+export interface InterviewStory {
+  story: StarStory
+  followUps: string[]
+}
+
+/**
+ * Shape the model is asked to return.
+ */
+const rawStorySchema = starStorySchema.extend({
+  followUps: z.array(z.string()).optional().default([]),
+})
+
+/**
+ * Collapses whitespace so each section and question is a single line.
+ */
+function clean(text: string): string {
+  return text.replace(/\s+/g, " ").trim()
+}
+
+/**
+ * Parses a story response.
+ *
+ * @param response - Raw model response (a JSON object, possibly fenced)
+ * @returns Story, or null if any STAR section is missing or empty
+ */
+export function parseStory(response: string): InterviewStory | null {
+  const result = rawStorySchema.safeParse(extractJsonObject(response))
+  if (!result.success) return null
+
+  const story: StarStory = {
+    situation: clean(result.data.situation),
+    task: clean(result.data.task),
+    action: clean(result.data.action),
+    result: clean(result.data.result),
+  }
+  if (STAR_SECTIONS.some((section) => !story[section])) return null
+
+  const followUps = [...new Set(result.data.followUps.map(clean))]
+    .filter(Boolean)
+    .slice(0, MAX_FOLLOW_UPS)
+
+  return { story, followUps }
+}
+
+/**
+ * Runs a story prompt and parses the result.
+ *
+ * @param messages - Prompt that asks for a STAR story
+ * @param options - Generation overrides (e.g. `onUsage` for metering)
+ * @returns Story, or null if nothing usable came back
+ */
+export async function generateStory(
+  messages: ChatMessage[],
+  options?: GenerationOptions
+): Promise<InterviewStory | null> {
+  return parseStory(await generateCompletion(messages, options))
+}
@@ -0,0 +1,265 @@
+/**
+ * Request access control shared by the generation API routes:
+ * client identification, rate limiting, tier resolution, the spend
+ * budget and metering.
+ */
+
+import { headers } from "next/headers"
+import {
+  getUsageCount,
+  getUsageLimit,
+  incrementUsage,
+  trackDailyGeneration,
+  type UsageKind,
+} from "@/lib/redis"
+import { validateLicenseKey } from "@/lib/lemonsqueezy-license"
+import { checkBudget, countPaidRequest } from "@/lib/budget"
+import {
+  createErrorResponse,
+  ERRORS,
+  type ErrorResponse,
+  type GenerateResponse,
+} from "@/lib/validation"
+
+export type Tier = GenerateResponse["tier"]
+
+/**
+ * Value reported as "remaining" for unlimited quotas (Infinity is not JSON).
+ */
+export const UNLIMITED_REMAINING = 999
+
+/**
+ * Rate limiting: Track requests per IP to prevent abuse.
+ * Simple in-memory store (resets on server restart).
+ * For production scale, use Redis-based rate limiting.
+ */
+const rateLimitMap = new Map<string, { count: number; resetTime: number }>()
+const RATE_LIMIT = {
+  maxRequests: 10, // Max requests per window
+  windowMs: 60 * 1000, // 1 minute window
+}
+
+/**
+ * Checks if the request should be rate limited.
+ */
+export function isRateLimited(ip: string): boolean {
+  const now = Date.now()
+  const record = rateLimitMap.get(ip)
+
+  if (!record || now > record.resetTime) {
+    rateLimitMap.set(ip, { count: 1, resetTime: now + RATE_LIMIT.windowMs })
+    return false
+  }
+
+  if (record.count >= RATE_LIMIT.maxRequests) {
+    return true
+  }
+
+  record.count++
+  return false
+}
+
+/**
+ * Gets client IP address from request headers.
+ */
+export async function getClientIp(): Promise<string> {
+  const headersList = await headers()
+
+  // Check common proxy headers
+  const forwardedFor = headersList.get("x-forwarded-for")
+  if (forwardedFor) {
+    // x-forwarded-for can contain multiple IPs; take the first one
+    return forwardedFor.split(",")[0]?.trim() ?? "unknown"
+  }
+
+  const realIp = headersList.get("x-real-ip")
+  if (realIp) {
+    return realIp
+  }
+
+  // Vercel-specific header
+  const vercelForwardedFor = headersList.get("x-vercel-forwarded-for")
+  if (vercelForwardedFor) {
+    return vercelForwardedFor
+  }
+
+  return "unknown"
+}
+
+/**
+ * Who is being charged for a request, and what they had left before it.
+ */
+export interface UsageContext {
+  tier: Tier
+  kind: UsageKind
+  licenseKey?: string
+  identifier: string
+  remaining: number
+}
+
+/**
+ * Result of resolving a request's tier and quota.
+ */
+export type UsageResolution =
+  | { ok: true; usage: UsageContext }
+  | { ok: false; error: ErrorResponse; status: number }
+
+/**
+ * Human-readable names for usage kinds, used in limit messages.
+ */
+const USAGE_LABELS: Record<UsageKind, string> = {
+  generation: "generations",
+  refinement: "refinements",
+  "cover-letter": "cover letters",
+  paragraph: "paragraph rewrites",
+  story: "interview stories",
+  profile: "LinkedIn profiles",
+}
+
+/**
+ * Determines the caller's tier and checks their quota and today's spend
+ * budget for a usage kind.
+ * Paid users are identified by license key, free users by IP.
+ *
+ * @param licenseKey - License key from the request, if any
+ * @param clientIp - Client IP address
+ * @param kind - Metered action being requested
+ * @returns Usage context, or the error response to return
+ */
+export async function resolveUsage(
+  licenseKey: string | undefined,
+  clientIp: string,
+  kind: UsageKind = "generation"
+): Promise<UsageResolution> {
+  const resolution = await resolveQuota(licenseKey, clientIp, kind)
+  if (!resolution.ok) return resolution
+
+  const budgetError = await checkBudget(resolution.usage)
+  if (budgetError) {
+    return { ok: false, error: budgetError, status: 503 }
+  }
+
+  return resolution
+}
+
+/**
+ * Determines the caller's tier and checks their quota.
+ */
+async function resolveQuota(
+  licenseKey: string | undefined,
+  clientIp: string,
+  kind: UsageKind
+): Promise<UsageResolution> {
+  if (!licenseKey) {
+    // Free user: check usage limit
+    const used = await getUsageCount(clientIp, kind)
+    const limit = getUsageLimit("free", kind)
+
+    if (used >= limit) {
+      return {
+        ok: false,
+        error:
+          kind === "generation"
+            ? ERRORS.LIMIT_REACHED
+            : createErrorResponse(
+                "LIMIT_REACHED",
+                `You've used all ${limit} free ${USAGE_LABELS[kind]} today. Upgrade to continue.`
+              ),
+        status: 402,
+      }
+    }
+
+    return {
+      ok: true,
+      usage: {
+        tier: "free",
+        kind,
+        identifier: clientIp,
+        remaining: limit - used,
+      },
+    }
+  }
+
+  // Paid user: validate license with LemonSqueezy
+  const licenseStatus = await validateLicenseKey(licenseKey)
+
+  if (!licenseStatus.isValid || !licenseStatus.tier) {
+    return { ok: false, error: ERRORS.INVALID_LICENSE, status: 402 }
+  }
+
+  // Check if license is in a usable state
+  const invalidStatuses = ["expired", "disabled", "revoked"]
+  if (invalidStatuses.includes(licenseStatus.status.toLowerCase())) {
+    return {
+      ok: false,
+      error: createErrorResponse(
+        "INVALID_LICENSE",
+        `License is ${licenseStatus.status}`
+      ),
+      status: 402,
+    }
+  }
+
+  const tier = licenseStatus.tier
+  const limit = getUsageLimit(tier, kind)
+
+  if (limit === Infinity) {
+    return {
+      ok: true,
+      usage: {
+        tier,
+        kind,
+        licenseKey,
+        identifier: licenseKey,
+        remaining: UNLIMITED_REMAINING,
+      },
+    }
+  }
+
+  // Get usage from Redis for limited tiers
+  const used = await getUsageCount(licenseKey, kind)
+  const remaining = Math.max(0, limit - used)
+
+  if (remaining <= 0) {
+    return {
+      ok: false,
+      error: createErrorResponse(
+        "LIMIT_REACHED",
+        `You've used all ${limit} ${USAGE_LABELS[kind]}. Upgrade to Lifetime for unlimited access.`
+      ),
+      status: 402,
+    }
+  }
+
+  return {
+    ok: true,
+    usage: { tier, kind, licenseKey, identifier: licenseKey, remaining },
+  }
+}
+
+/**
+ * Records a successful request against the user's quota.
+ * Only called once the result has been produced.
+ *
+ * @returns Remaining uses to report to the client
+ */
+export async function chargeUsage({
+  tier,
+  kind,
+  identifier,
+  remaining,
+}: UsageContext): Promise<number> {
+  // Paid usage never expires; free usage resets daily
+  await incrementUsage(identifier, tier !== "free", kind)
+  countPaidRequest({ tier, identifier }).catch(console.error)
+
+  if (kind === "generation") {
+    // Track daily stats (fire and forget)
+    trackDailyGeneration().catch(console.error)
+  }
+
+  if (getUsageLimit(tier, kind) === Infinity) {
+    return UNLIMITED_REMAINING
+  }
+  return Math.max(0, remaining - 1)
+}
@@ -68,6 +68,21 @@ export function safeJsonParse<T>(json: string, fallback: T): T {
   }
 }
 
+/**
+ * Parses the outermost JSON object in a model response, ignoring code
+ * fences or text around it. Returns null if there is none.
+ *
+ * @example
+ * extractJsonObject('```json\n{"a":1}\n```') // { a: 1 }
+ * extractJsonObject('no json here') // null
+ */
+export function extractJsonObject(text: string): unknown {
+  const start = text.indexOf("{")
+  const end = text.lastIndexOf("}")
+  if (start === -1 || end < start) return null
+  return safeJsonParse<unknown>(text.slice(start, end + 1), null)
+}
+
 /**
  * Generates a random ID with optional prefix.
  * Uses crypto for better randomness than Math.random().
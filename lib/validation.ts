@@ -1,8 +1,175 @@
 import { z } from "zod"
 
+/**
+ * Seniority levels the prompt can target, from junior to senior.
+ */
+export const SENIORITY_LEVELS = [
+  "intern",
+  "entry",
+  "mid",
+  "senior",
+  "lead",
+  "manager",
+  "director",
+  "executive",
+] as const
+
+export type SeniorityLevel = (typeof SENIORITY_LEVELS)[number]
+
+/**
+ * Role families used to adapt vocabulary and metrics.
+ */
+export const ROLE_FAMILIES = [
+  "engineering",
+  "data",
+  "product",
+  "design",
+  "marketing",
+  "sales",
+  "customer-success",
+  "operations",
+  "finance",
+  "healthcare",
+  "education",
+  "other",
+] as const
+
+export type RoleFamily = (typeof ROLE_FAMILIES)[number]
+
+/**
+ * Default bullet options when the request omits them.
+ */
+export const DEFAULT_BULLET_OPTIONS = {
+  bulletCount: 5,
+  wordRange: { min: 14, max: 22 },
+} as const
+
+/**
+ * Most phrasings offered per bullet with the variants option.
+ */
+export const MAX_VARIANTS = 3
+
+/**
+ * Schema for bullet generation options.
+ * The tier-specific maximum for bulletCount is enforced by the API route.
+ */
+export const bulletOptionsSchema = z.object({
+  bulletCount: z
+    .number()
+    .int()
+    .min(1, "Bullet count must be at least 1")
+    .max(10, "Bullet count must be at most 10")
+    .default(DEFAULT_BULLET_OPTIONS.bulletCount),
+
+  wordRange: z
+    .object({
+      min: z.number().int().min(5).max(50),
+      max: z.number().int().min(5).max(50),
+    })
+    .refine((range) => range.min <= range.max, {
+      message: "Minimum length must not exceed maximum length",
+    })
+    .default(DEFAULT_BULLET_OPTIONS.wordRange),
+
+  seniority: z.enum(SENIORITY_LEVELS).optional(),
+
+  roleFamily: z.enum(ROLE_FAMILIES).optional(),
+
+  /** Write "[X% reduction]"-style placeholders instead of guessing figures */
+  metricPlaceholders: z.boolean().optional(),
+
+  /** Phrasings to offer per bullet, including the main one */
+  variants: z.number().int().min(2).max(MAX_VARIANTS).optional(),
+})
+
+/**
+ * Inferred type for bullet options.
+ */
+export type BulletOptions = z.infer<typeof bulletOptionsSchema>
+
+/**
+ * Kinds of personal details redacted before text is sent to the LLM.
+ */
+export const PII_KINDS = [
+  "email",
+  "phone",
+  "url",
+  "address",
+  "salary",
+  "name",
+] as const
+
+export type PiiKind = (typeof PII_KINDS)[number]
+
+/**
+ * Schema for one redacted value and the placeholder the LLM saw instead.
+ */
+export const redactionSchema = z.object({
+  kind: z.enum(PII_KINDS),
+  placeholder: z.string(),
+  value: z.string(),
+})
+
+export type Redaction = z.infer<typeof redactionSchema>
+
+/**
+ * What a generation request produces:
+ * - generate: new bullets written from the experience
+ * - rewrite: the user's existing bullets (one per line in `experience`),
+ *   each improved and paired with its original
+ */
+export const GENERATION_MODES = ["generate", "rewrite"] as const
+
+export type GenerationMode = (typeof GENERATION_MODES)[number]
+
+/**
+ * Maximum number of roles in a multi-role request.
+ */
+export const MAX_ROLES = 5
+
+/**
+ * Schema for one position on the user's resume.
+ */
+export const roleSchema = z.object({
+  company: z
+    .string()
+    .trim()
+    .min(1, "Company is required")
+    .max(100, "Company must be less than 100 characters"),
+  title: z
+    .string()
+    .trim()
+    .min(1, "Job title is required")
+    .max(100, "Job title must be less than 100 characters"),
+  /** Free-form, e.g. "2021 – present" */
+  dates: z
+    .string()
+    .trim()
+    .max(50, "Dates must be less than 50 characters")
+    .optional(),
+  /** What the user did in this role */
+  notes: z.string().trim().min(20, "Role notes must be at least 20 characters"),
+})
+
+/**
+ * Inferred type for a resume position.
+ */
+export type Role = z.infer<typeof roleSchema>
+
+/**
+ * The user's experience as one block of text.
+ */
+const experienceSchema = z
+  .string()
+  .min(20, "Experience must be at least 20 characters")
+  .max(4000, "Experience must be less than 4,000 characters")
+  .transform((val) => val.trim())
+
 /**
  * Schema for the resume bullet generation request.
- * Validates both job description and experience inputs.
+ * Validates the job description and the experience, given either as one
+ * block of text or as a list of roles. The API route checks that exactly
+ * one of the two is present.
  */
 export const generateRequestSchema = z.object({
   jobDescription: z
@@ -11,16 +178,37 @@ export const generateRequestSchema = z.object({
     .max(8000, "Job description must be less than 8,000 characters")
     .transform((val) => val.trim()),
 
-  experience: z
-    .string()
-    .min(20, "Experience must be at least 20 characters")
-    .max(4000, "Experience must be less than 4,000 characters")
-    .transform((val) => val.trim()),
+  experience: experienceSchema.optional(),
+
+  /** Positions to write a bullet set for each, most recent first */
+  roles: z
+    .array(roleSchema)
+    .min(1, "Add at least one role")
+    .max(MAX_ROLES, `Add at most ${MAX_ROLES} roles`)
+    .refine(
+      (roles) => roles.reduce((n, role) => n + role.notes.length, 0) <= 4000,
+      { message: "Role notes must be less than 4,000 characters in total" }
+    )
+    .optional(),
 
   licenseKey: z
     .string()
     .optional()
     .transform((val) => val?.trim() || undefined),
+
+  options: bulletOptionsSchema.prefault({}),
+
+  stream: z.boolean().optional().default(false),
+
+  autoFix: z.boolean().optional().default(false),
+
+  /** Skip cached results and generate new bullets */
+  fresh: z.boolean().optional().default(false),
+
+  /** Replace personal details with placeholders before calling the LLM */
+  redactPii: z.boolean().optional().default(true),
+
+  mode: z.enum(GENERATION_MODES).optional().default("generate"),
 })
 
 /**
@@ -28,13 +216,252 @@ export const generateRequestSchema = z.object({
  */
 export type GenerateRequest = z.infer<typeof generateRequestSchema>
 
+/**
+ * Writing rules checked by the bullet linter.
+ */
+export const LINT_RULES = [
+  "cliche",
+  "length",
+  "repeated-verb",
+  "responsible-for",
+  "weak-verb",
+  "passive-voice",
+  "first-person",
+] as const
+
+export type LintRule = (typeof LINT_RULES)[number]
+
+/**
+ * Schema for a single linter warning.
+ */
+export const lintWarningSchema = z.object({
+  rule: z.enum(LINT_RULES),
+  /** Human-readable explanation */
+  message: z.string(),
+  /** Offending text, when the rule points at part of the bullet */
+  excerpt: z.string().optional(),
+})
+
+/**
+ * Inferred type for a linter warning.
+ */
+export type LintWarning = z.infer<typeof lintWarningSchema>
+
+/**
+ * Schema for one phrasing of a bullet: the fields the model writes and the
+ * checks the server adds.
+ */
+export const bulletVariantSchema = z.object({
+  /** The bullet text as it should appear on the resume */
+  text: z.string().trim().min(20),
+  /** Leading action verb */
+  verb: z.string().trim().min(1),
+  /** Job description keywords the bullet targets */
+  keywords: z.array(z.string().trim().min(1)).default([]),
+  /** Whether the bullet contains a quantified result */
+  hasMetric: z.boolean(),
+  /** Figures not found in the user's experience (set by the server) */
+  unsupportedMetrics: z.array(z.string()).optional(),
+  /** Writing rule violations (set by the server) */
+  warnings: z.array(lintWarningSchema).optional(),
+})
+
+/**
+ * Inferred type for one phrasing of a bullet.
+ */
+export type BulletVariant = z.infer<typeof bulletVariantSchema>
+
+/**
+ * Schema for a single generated bullet and its metadata.
+ * The model returns one of these per line (JSON Lines).
+ */
+export const bulletSchema = bulletVariantSchema.extend({
+  /** Other phrasings of the same bullet (variants option); a malformed
+   * list is dropped rather than losing the bullet */
+  alternatives: z.array(bulletVariantSchema).optional().catch(undefined),
+  /** The user's bullet this one rewrites (rewrite mode, set by the server) */
+  original: z.string().optional(),
+  /** Why the rewrite is stronger (rewrite mode) */
+  rationale: z.string().trim().max(300).optional(),
+  /** Number of the role the bullet belongs to, from 1 (multi-role) */
+  role: z.number().int().min(1).max(MAX_ROLES).optional(),
+})
+
+/**
+ * Inferred type for a generated bullet.
+ */
+export type Bullet = z.infer<typeof bulletSchema>
+
+/**
+ * Lists every phrasing of a bullet: the main one, then its alternatives.
+ */
+export function allPhrasings(bullet: Bullet): BulletVariant[] {
+  return [bullet, ...(bullet.alternatives ?? [])]
+}
+
+/**
+ * Kinds of job description keywords tracked for ATS coverage.
+ */
+export const KEYWORD_CATEGORIES = [
+  "skill",
+  "tool",
+  "certification",
+  "responsibility",
+] as const
+
+export type KeywordCategory = (typeof KEYWORD_CATEGORIES)[number]
+
+/**
+ * Schema for a keyword extracted from the job description.
+ */
+export const jobKeywordSchema = z.object({
+  /** Keyword as displayed, e.g. "Kubernetes" */
+  term: z.string().min(1),
+  category: z.enum(KEYWORD_CATEGORIES),
+  /** Other spellings that count as a match, e.g. "k8s" */
+  aliases: z.array(z.string()).default([]),
+})
+
+/**
+ * Inferred type for a job description keyword.
+ */
+export type JobKeyword = z.infer<typeof jobKeywordSchema>
+
+/**
+ * Schema for the keyword coverage report.
+ * - covered: used in at least one bullet
+ * - missedInBullets: in the experience but not used in any bullet
+ * - missing: in neither the bullets nor the experience
+ */
+export const keywordCoverageSchema = z.object({
+  /** Percentage of keywords covered by the bullets (0-100) */
+  score: z.number().int().min(0).max(100),
+  covered: z.array(jobKeywordSchema),
+  missedInBullets: z.array(jobKeywordSchema),
+  missing: z.array(jobKeywordSchema),
+})
+
+/**
+ * Inferred type for the keyword coverage report.
+ */
+export type KeywordCoverage = z.infer<typeof keywordCoverageSchema>
+
+/**
+ * Where a job is done.
+ */
+export const WORKPLACE_TYPES = ["remote", "hybrid", "on-site"] as const
+
+export type WorkplaceType = (typeof WORKPLACE_TYPES)[number]
+
+/**
+ * Schema for a job description parsed into its parts.
+ * Fields that couldn't be found are left out (or empty, for lists).
+ */
+export const jobPostingSchema = z.object({
+  /** Job title, e.g. "Senior Backend Engineer" */
+  title: z.string().optional(),
+  company: z.string().optional(),
+  /** Level implied by the title, or by the years asked for */
+  seniority: z.enum(SENIORITY_LEVELS).optional(),
+  /** Location as written, e.g. "Berlin, Germany" */
+  location: z.string().optional(),
+  workplace: z.enum(WORKPLACE_TYPES).optional(),
+  /** Fewest years of experience asked for, e.g. 5 for "5+ years" */
+  yearsRequired: z.number().int().min(0).optional(),
+  /** Skills, tools and certifications named in the must-haves */
+  requiredSkills: z.array(z.string()),
+  /** Must-have requirements as written */
+  requirements: z.array(z.string()),
+  /** Optional requirements as written */
+  niceToHaves: z.array(z.string()),
+  /** What the job involves, as written */
+  responsibilities: z.array(z.string()),
+})
+
+/**
+ * Inferred type for a parsed job description.
+ */
+export type JobPosting = z.infer<typeof jobPostingSchema>
+
+/**
+ * How strongly the job description asks for a requirement.
+ */
+export const REQUIREMENT_PRIORITIES = ["must-have", "nice-to-have"] as const
+
+export type RequirementPriority = (typeof REQUIREMENT_PRIORITIES)[number]
+
+/**
+ * How well the experience backs up a requirement.
+ * - supported: a line of the experience covers it
+ * - partial: a line covers it, but some named skills or tools are missing
+ * - missing: nothing in the experience covers it
+ */
+export const GAP_STATUSES = ["supported", "partial", "missing"] as const
+
+export type GapStatus = (typeof GAP_STATUSES)[number]
+
+/**
+ * Schema for one job requirement checked against the experience.
+ */
+export const requirementGapSchema = z.object({
+  /** Requirement as written in the job description */
+  requirement: z.string(),
+  priority: z.enum(REQUIREMENT_PRIORITIES),
+  status: z.enum(GAP_STATUSES),
+  /** Line of the experience that backs it up */
+  evidence: z.string().optional(),
+  /** Skills, tools or certifications it names that the experience doesn't */
+  missingTerms: z.array(z.string()),
+  /** What to add to the experience (absent when supported) */
+  suggestion: z.string().optional(),
+})
+
+/**
+ * Inferred type for a checked requirement.
+ */
+export type RequirementGap = z.infer<typeof requirementGapSchema>
+
+/**
+ * Schema for the gap analysis request.
+ */
+export const gapAnalysisRequestSchema = generateRequestSchema
+  .pick({ jobDescription: true })
+  .extend({ experience: experienceSchema })
+
+/**
+ * Inferred type for gap analysis request.
+ */
+export type GapAnalysisRequest = z.infer<typeof gapAnalysisRequestSchema>
+
+/**
+ * Schema for the gap analysis response.
+ */
+export const gapAnalysisSchema = z.object({
+  /** Requirements in job description order, must-haves first */
+  requirements: z.array(requirementGapSchema),
+  /** Percentage of must-haves that are supported (0-100) */
+  score: z.number().int().min(0).max(100),
+})
+
+/**
+ * Inferred type for the gap analysis response.
+ */
+export type GapAnalysis = z.infer<typeof gapAnalysisSchema>
+
 /**
  * Schema for the generation response.
  */
 export const generateResponseSchema = z.object({
-  bullets: z.array(z.string()).min(1).max(10),
+  bullets: z.array(bulletSchema).min(1).max(10),
+  coverage: keywordCoverageSchema,
   remaining: z.number().int().min(0),
   tier: z.enum(["free", "basic", "lifetime"]),
+  /** Prompt version that produced the bullets */
+  promptVersion: z.string(),
+  /** Set when the result was served from cache (not charged) */
+  cached: z.boolean().optional(),
+  /** Personal details the LLM provider never saw (empty if none) */
+  redactions: z.array(redactionSchema),
 })
 
 /**
@@ -42,6 +469,324 @@ export const generateResponseSchema = z.object({
  */
 export type GenerateResponse = z.infer<typeof generateResponseSchema>
 
+/**
+ * Schema for rewriting a single bullet.
+ * The other bullets are sent as context so the rewrite doesn't duplicate them.
+ */
+export const refineRequestSchema = generateRequestSchema
+  .pick({
+    jobDescription: true,
+    experience: true,
+    licenseKey: true,
+    options: true,
+    redactPii: true,
+  })
+  .extend({
+    experience: experienceSchema,
+    bullets: z.array(z.string().trim().min(1).max(500)).min(1).max(10),
+    index: z.number().int().min(0),
+    instruction: z
+      .string()
+      .max(200, "Instruction must be less than 200 characters")
+      .optional()
+      .transform((val) => val?.trim() || undefined),
+    /** Prompt version the bullets came from (from the generate response) */
+    promptVersion: z.string().max(40).optional(),
+  })
+  .refine((data) => data.index < data.bullets.length, {
+    message: "Bullet index is out of range",
+    path: ["index"],
+  })
+
+/**
+ * Inferred type for refine request.
+ */
+export type RefineRequest = z.infer<typeof refineRequestSchema>
+
+/**
+ * Schema for the refine response.
+ */
+export const refineResponseSchema = z.object({
+  bullet: bulletSchema,
+  index: z.number().int().min(0),
+  remaining: z.number().int().min(0),
+  tier: z.enum(["free", "basic", "lifetime"]),
+  promptVersion: z.string(),
+})
+
+/**
+ * Inferred type for refine response.
+ */
+export type RefineResponse = z.infer<typeof refineResponseSchema>
+
+/**
+ * Cover letter length presets.
+ */
+export const COVER_LETTER_LENGTHS = ["short", "standard", "long"] as const
+
+export type CoverLetterLength = (typeof COVER_LETTER_LENGTHS)[number]
+
+/**
+ * Cover letter tone presets.
+ */
+export const COVER_LETTER_TONES = [
+  "professional",
+  "warm",
+  "confident",
+  "enthusiastic",
+] as const
+
+export type CoverLetterTone = (typeof COVER_LETTER_TONES)[number]
+
+/**
+ * Most paragraphs a cover letter can have.
+ */
+export const MAX_COVER_LETTER_PARAGRAPHS = 6
+
+/**
+ * Schema for a cover letter request.
+ * Reuses the generation inputs; bullets the user already generated are
+ * optional extra material.
+ */
+export const coverLetterRequestSchema = generateRequestSchema
+  .pick({
+    jobDescription: true,
+    licenseKey: true,
+    redactPii: true,
+  })
+  .extend({
+    experience: experienceSchema,
+    bullets: z
+      .array(z.string().trim().min(1).max(500))
+      .max(10)
+      .optional()
+      .default([]),
+    length: z.enum(COVER_LETTER_LENGTHS).optional().default("standard"),
+    tone: z.enum(COVER_LETTER_TONES).optional().default("professional"),
+  })
+
+/**
+ * Inferred type for cover letter request.
+ */
+export type CoverLetterRequest = z.infer<typeof coverLetterRequestSchema>
+
+/**
+ * Schema for the cover letter response.
+ */
+export const coverLetterResponseSchema = z.object({
+  /** Letter body, one entry per paragraph (no greeting or sign-off) */
+  paragraphs: z.array(z.string()).min(1).max(MAX_COVER_LETTER_PARAGRAPHS),
+  remaining: z.number().int().min(0),
+  tier: z.enum(["free", "basic", "lifetime"]),
+  /** Personal details the LLM provider never saw (empty if none) */
+  redactions: z.array(redactionSchema),
+})
+
+/**
+ * Inferred type for cover letter response.
+ */
+export type CoverLetterResponse = z.infer<typeof coverLetterResponseSchema>
+
+/**
+ * Schema for rewriting one paragraph of a cover letter.
+ * The other paragraphs are sent as context so the letter still flows.
+ */
+export const coverLetterParagraphRequestSchema = coverLetterRequestSchema
+  .omit({ bullets: true })
+  .extend({
+    paragraphs: z
+      .array(z.string().trim().min(1).max(2000))
+      .min(1)
+      .max(MAX_COVER_LETTER_PARAGRAPHS),
+    index: z.number().int().min(0),
+    instruction: z
+      .string()
+      .max(200, "Instruction must be less than 200 characters")
+      .optional()
+      .transform((val) => val?.trim() || undefined),
+  })
+  .refine((data) => data.index < data.paragraphs.length, {
+    message: "Paragraph index is out of range",
+    path: ["index"],
+  })
+
+/**
+ * Inferred type for cover letter paragraph request.
+ */
+export type CoverLetterParagraphRequest = z.infer<
+  typeof coverLetterParagraphRequestSchema
+>
+
+/**
+ * Schema for the cover letter paragraph response.
+ */
+export const coverLetterParagraphResponseSchema = z.object({
+  paragraph: z.string(),
+  index: z.number().int().min(0),
+  remaining: z.number().int().min(0),
+  tier: z.enum(["free", "basic", "lifetime"]),
+})
+
+/**
+ * Inferred type for cover letter paragraph response.
+ */
+export type CoverLetterParagraphResponse = z.infer<
+  typeof coverLetterParagraphResponseSchema
+>
+
+/**
+ * LinkedIn profile field sizes, in characters.
+ */
+export const LINKEDIN_LIMITS = {
+  headline: 220,
+  about: 2600,
+} as const
+
+/**
+ * Number of headline options returned by a profile request.
+ */
+export const PROFILE_HEADLINE_COUNT = 5
+
+/**
+ * Schema for a LinkedIn profile request.
+ * Only the experience is required; a target role or job description
+ * steers the wording when given.
+ */
+export const profileRequestSchema = generateRequestSchema
+  .pick({
+    licenseKey: true,
+    redactPii: true,
+  })
+  .extend({
+    experience: experienceSchema,
+    /** Role the user wants to be found for, e.g. "Senior Data Engineer" */
+    targetRole: z
+      .string()
+      .max(100, "Target role must be less than 100 characters")
+      .optional()
+      .transform((val) => val?.trim() || undefined),
+    jobDescription: generateRequestSchema.shape.jobDescription.optional(),
+  })
+
+/**
+ * Inferred type for profile request.
+ */
+export type ProfileRequest = z.infer<typeof profileRequestSchema>
+
+/**
+ * Schema for the LinkedIn profile response.
+ */
+export const profileResponseSchema = z.object({
+  /** Headline options, each within LINKEDIN_LIMITS.headline */
+  headlines: z
+    .array(z.string().max(LINKEDIN_LIMITS.headline))
+    .min(1)
+    .max(PROFILE_HEADLINE_COUNT),
+  /** About section, paragraphs separated by blank lines */
+  about: z.string().max(LINKEDIN_LIMITS.about),
+  remaining: z.number().int().min(0),
+  tier: z.enum(["free", "basic", "lifetime"]),
+  /** Prompt template version that wrote the profile */
+  promptVersion: z.string(),
+  /** Personal details the LLM provider never saw (empty if none) */
+  redactions: z.array(redactionSchema),
+})
+
+/**
+ * Inferred type for profile response.
+ */
+export type ProfileResponse = z.infer<typeof profileResponseSchema>
+
+/**
+ * Parts of a STAR interview story, in telling order.
+ */
+export const STAR_SECTIONS = ["situation", "task", "action", "result"] as const
+
+export type StarSection = (typeof STAR_SECTIONS)[number]
+
+/**
+ * Most follow-up questions returned with a story.
+ */
+export const MAX_FOLLOW_UPS = 5
+
+/**
+ * Schema for expanding a bullet into an interview story.
+ * The story may only draw on the experience; the job description, when
+ * given, shapes the follow-up questions.
+ */
+export const storyRequestSchema = generateRequestSchema
+  .pick({
+    licenseKey: true,
+    redactPii: true,
+  })
+  .extend({
+    experience: experienceSchema,
+    /** Bullet to expand */
+    bullet: z.string().trim().min(1).max(500),
+    jobDescription: generateRequestSchema.shape.jobDescription.optional(),
+  })
+
+/**
+ * Inferred type for story request.
+ */
+export type StoryRequest = z.infer<typeof storyRequestSchema>
+
+/**
+ * Schema for a Situation/Task/Action/Result narrative.
+ */
+export const starStorySchema = z.object({
+  situation: z.string(),
+  task: z.string(),
+  action: z.string(),
+  result: z.string(),
+})
+
+/**
+ * Inferred type for a STAR story.
+ */
+export type StarStory = z.infer<typeof starStorySchema>
+
+/**
+ * Schema for the story response.
+ */
+export const storyResponseSchema = z.object({
+  story: starStorySchema,
+  /** Questions an interviewer is likely to ask next */
+  followUps: z.array(z.string()).max(MAX_FOLLOW_UPS),
+  /** Figures in the story that don't appear in the experience */
+  unsupportedMetrics: z.array(z.string()),
+  remaining: z.number().int().min(0),
+  tier: z.enum(["free", "basic", "lifetime"]),
+  /** Personal details the LLM provider never saw (empty if none) */
+  redactions: z.array(redactionSchema),
+})
+
+/**
+ * Inferred type for story response.
+ */
+export type StoryResponse = z.infer<typeof storyResponseSchema>
+
+/**
+ * Ratings a user can give a set of generated bullets.
+ */
+export const FEEDBACK_RATINGS = ["up", "down"] as const
+
+export type FeedbackRating = (typeof FEEDBACK_RATINGS)[number]
+
+/**
+ * Schema for feedback on a generation.
+ */
+export const feedbackRequestSchema = z.object({
+  /** Prompt version from the generate response */
+  promptVersion: z.string().min(1).max(40),
+  rating: z.enum(FEEDBACK_RATINGS),
+})
+
+/**
+ * Inferred type for feedback request.
+ */
+export type FeedbackRequest = z.infer<typeof feedbackRequestSchema>
+
 /**
  * Schema for error responses.
  */
@@ -53,6 +798,8 @@ export const errorResponseSchema = z.object({
     "INVALID_LICENSE",
     "GENERATION_FAILED",
     "RATE_LIMITED",
+    "BUDGET_EXCEEDED",
+    "INJECTION_DETECTED",
     "INTERNAL_ERROR",
   ]),
   message: z.string(),
@@ -63,6 +810,27 @@ export const errorResponseSchema = z.object({
  */
 export type ErrorResponse = z.infer<typeof errorResponseSchema>
 
+/**
+ * Schema for events emitted by a streaming generation (one per NDJSON line).
+ * - bullet: a single bullet, sent as soon as it is parsed
+ * - done: the final result, sent after usage has been charged
+ * - error: generation failed; no usage was charged
+ */
+export const generateStreamEventSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("bullet"),
+    index: z.number().int().min(0),
+    bullet: bulletSchema,
+  }),
+  generateResponseSchema.extend({ type: z.literal("done") }),
+  errorResponseSchema.extend({ type: z.literal("error") }),
+])
+
+/**
+ * Inferred type for streaming generation events.
+ */
+export type GenerateStreamEvent = z.infer<typeof generateStreamEventSchema>
+
 /**
  * Schema for license verification request.
  */
@@ -198,6 +966,14 @@ export const ERRORS = {
     "RATE_LIMITED",
     "Too many requests. Please wait a moment and try again."
   ),
+  BUDGET_EXCEEDED: createErrorResponse(
+    "BUDGET_EXCEEDED",
+    "Generation is temporarily paused for maintenance. Please try again later."
+  ),
+  INJECTION_DETECTED: createErrorResponse(
+    "INJECTION_DETECTED",
+    "Your input contains text that reads like instructions to the AI rather than a job description or experience. Please remove it and try again."
+  ),
   INTERNAL_ERROR: createErrorResponse(
     "INTERNAL_ERROR",
     "An unexpected error occurred. Please try again."
@@ -0,0 +1,69 @@
+import { before, describe, it } from "node:test"
+import assert from "node:assert/strict"
+
+type Budget = typeof import("@/lib/budget")
+
+let budget: Budget
+
+before(async () => {
+  // Thresholds are read when the module loads
+  process.env.DAILY_SPEND_CAP_USD = "10"
+  process.env.PAID_THROTTLE_PER_HOUR = "2"
+  delete process.env.LLM_KILL_SWITCH
+  budget = await import("@/lib/budget")
+})
+
+describe("getBudgetLevel", () => {
+  it("steps down at each threshold of the cap", () => {
+    const levelAt = (spentUsd: number) => budget.getBudgetLevel(spentUsd, false)
+
+    assert.equal(levelAt(0), "normal")
+    assert.equal(levelAt(6.99), "normal")
+    assert.equal(levelAt(7), "free-paused")
+    assert.equal(levelAt(8.99), "free-paused")
+    assert.equal(levelAt(9), "paid-throttled")
+    assert.equal(levelAt(9.99), "paid-throttled")
+    assert.equal(levelAt(10), "stopped")
+    assert.equal(levelAt(25), "stopped")
+  })
+
+  it("stops everything when the kill switch is on", () => {
+    assert.equal(budget.getBudgetLevel(0, true), "stopped")
+  })
+})
+
+describe("getBudgetError", () => {
+  it("allows everyone at the normal level", () => {
+    assert.equal(budget.getBudgetError("normal", "free", false), null)
+    assert.equal(budget.getBudgetError("normal", "basic", true), null)
+  })
+
+  it("pauses only the free tier when free-paused", () => {
+    assert.match(
+      budget.getBudgetError("free-paused", "free", false)?.message ?? "",
+      /Free usage is paused/
+    )
+    assert.equal(budget.getBudgetError("free-paused", "basic", true), null)
+  })
+
+  it("limits paid users per hour when paid-throttled", () => {
+    assert.equal(
+      budget.getBudgetError("paid-throttled", "free", false)?.code,
+      "BUDGET_EXCEEDED"
+    )
+    assert.equal(budget.getBudgetError("paid-throttled", "basic", false), null)
+    assert.match(
+      budget.getBudgetError("paid-throttled", "lifetime", true)?.message ?? "",
+      /limited to 2 per hour/
+    )
+  })
+
+  it("rejects everyone when stopped", () => {
+    for (const tier of ["free", "basic", "lifetime"] as const) {
+      assert.equal(
+        budget.getBudgetError("stopped", tier, false)?.code,
+        "BUDGET_EXCEEDED"
+      )
+    }
+  })
+})
@@ -0,0 +1,75 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { lintBullet, lintBullets } from "@/lib/bullet-linter"
+
+/** A bullet that passes every check */
+const GOOD_BULLET = {
+  text: "Migrated billing services to Kubernetes, cutting deploy times by 40% across 12 product teams in six months",
+  verb: "Migrated",
+}
+
+const rules = (warnings: { rule: string }[]) => warnings.map((w) => w.rule)
+
+describe("lintBullet", () => {
+  it("passes a bullet that follows the rules", () => {
+    assert.deepEqual(lintBullet(GOOD_BULLET), [])
+  })
+
+  it("flags clichés, weak verbs, passive voice and first person", () => {
+    const warnings = lintBullet({
+      text: "Helped a fast-paced team where my reports were reviewed weekly by senior leadership and finance",
+      verb: "Helped",
+    })
+
+    assert.deepEqual(rules(warnings), [
+      "cliche",
+      "weak-verb",
+      "passive-voice",
+      "first-person",
+    ])
+  })
+
+  it("reports a responsible-for opening instead of the weak verb", () => {
+    const warnings = lintBullet({
+      text: "Responsible for the payments platform used by 40 merchants across three regions and two currencies",
+      verb: "Responsible",
+    })
+    assert.deepEqual(rules(warnings), ["responsible-for"])
+  })
+
+  it("checks length against the word range", () => {
+    assert.deepEqual(
+      rules(lintBullet({ text: "Shipped the app", verb: "Shipped" })),
+      ["length"]
+    )
+    assert.deepEqual(
+      lintBullet(
+        { text: "Shipped the app", verb: "Shipped" },
+        { wordRange: { min: 3, max: 5 } }
+      ),
+      []
+    )
+  })
+
+  it("doesn't read the US as a pronoun", () => {
+    assert.deepEqual(
+      lintBullet({
+        ...GOOD_BULLET,
+        text: "Migrated billing services to Kubernetes for the US market, cutting deploy times by 40% in six months",
+      }),
+      []
+    )
+  })
+})
+
+describe("lintBullets", () => {
+  it("flags a repeated opening verb after its first use", () => {
+    const warnings = lintBullets([GOOD_BULLET, GOOD_BULLET, GOOD_BULLET])
+
+    assert.deepEqual(warnings.map(rules), [
+      [],
+      ["repeated-verb"],
+      ["repeated-verb"],
+    ])
+  })
+})
@@ -0,0 +1,88 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import {
+  parsePriceOverrides,
+  getModelPrice,
+  calculateCost,
+  createUsageMeter,
+} from "@/lib/costs"
+
+describe("parsePriceOverrides", () => {
+  it("keeps valid prices", () => {
+    assert.deepEqual(
+      parsePriceOverrides('{"llama3.1":{"input":0,"output":0}}'),
+      { "llama3.1": { input: 0, output: 0 } }
+    )
+  })
+
+  it("drops entries with missing, non-numeric or negative prices", () => {
+    assert.deepEqual(
+      parsePriceOverrides(
+        JSON.stringify({
+          ok: { input: 0.2, output: 0.8 },
+          missing: { input: 0.2 },
+          text: { input: "0.2", output: 0.8 },
+          negative: { input: -1, output: 0.8 },
+          scalar: 3,
+        })
+      ),
+      { ok: { input: 0.2, output: 0.8 } }
+    )
+  })
+
+  it("ignores invalid JSON and non-objects", () => {
+    assert.deepEqual(parsePriceOverrides("{not json"), {})
+    assert.deepEqual(parsePriceOverrides("[1, 2]"), {})
+    assert.deepEqual(parsePriceOverrides("null"), {})
+  })
+})
+
+describe("getModelPrice", () => {
+  it("uses the longest matching prefix", () => {
+    assert.deepEqual(getModelPrice("gpt-4o-mini-2024-07-18"), {
+      input: 0.15,
+      output: 0.6,
+    })
+    assert.deepEqual(getModelPrice("gpt-4o-2024-08-06"), {
+      input: 2.5,
+      output: 10,
+    })
+  })
+
+  it("returns null for unpriced models", () => {
+    assert.equal(getModelPrice("mystery-model"), null)
+  })
+})
+
+describe("calculateCost", () => {
+  it("prices input and output tokens per million", () => {
+    assert.equal(
+      calculateCost("gpt-4.1", {
+        inputTokens: 1_000_000,
+        outputTokens: 500_000,
+      }),
+      6
+    )
+  })
+
+  it("counts unpriced models as free", () => {
+    assert.equal(
+      calculateCost("mystery-model", { inputTokens: 10, outputTokens: 10 }),
+      0
+    )
+  })
+})
+
+describe("createUsageMeter", () => {
+  it("adds up every recorded call", () => {
+    const meter = createUsageMeter()
+    meter.record("gpt-4.1", { inputTokens: 1_000_000, outputTokens: 0 })
+    meter.record("gpt-4.1-nano", { inputTokens: 0, outputTokens: 1_000_000 })
+
+    const totals = meter.totals()
+    assert.equal(totals.calls, 2)
+    assert.equal(totals.inputTokens, 1_000_000)
+    assert.equal(totals.outputTokens, 1_000_000)
+    assert.ok(Math.abs(totals.costUsd - 2.4) < 1e-9)
+  })
+})
@@ -0,0 +1,67 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { analyzeGaps, extractRequirements } from "@/lib/gap-analysis"
+
+const JOB_DESCRIPTION = `Senior Backend Engineer at Acme Corp
+
+Requirements:
+- 5+ years of experience with Python
+- Strong knowledge of PostgreSQL
+- Experience with Kubernetes
+
+Nice to have:
+- Familiarity with Terraform`
+
+describe("extractRequirements", () => {
+  it("lists must-haves before nice-to-haves", () => {
+    assert.deepEqual(extractRequirements(JOB_DESCRIPTION), [
+      { text: "5+ years of experience with Python", priority: "must-have" },
+      { text: "Strong knowledge of PostgreSQL", priority: "must-have" },
+      { text: "Experience with Kubernetes", priority: "must-have" },
+      { text: "Familiarity with Terraform", priority: "nice-to-have" },
+    ])
+  })
+})
+
+describe("analyzeGaps", () => {
+  const analysis = analyzeGaps(
+    JOB_DESCRIPTION,
+    "Built Python services for 6 years.\nRan PostgreSQL databases at scale.\nUsed Docker"
+  )
+
+  it("quotes the experience line that backs up a requirement", () => {
+    assert.deepEqual(analysis.requirements[0], {
+      requirement: "5+ years of experience with Python",
+      priority: "must-have",
+      status: "supported",
+      evidence: "Built Python services for 6 years.",
+      missingTerms: [],
+    })
+  })
+
+  it("suggests what to add for a missing requirement", () => {
+    const kubernetes = analysis.requirements[2]
+    assert.equal(kubernetes?.status, "missing")
+    assert.deepEqual(kubernetes?.missingTerms, ["Kubernetes"])
+    assert.match(kubernetes?.suggestion ?? "", /Kubernetes/)
+  })
+
+  it("scores the share of must-haves backed up", () => {
+    assert.equal(analysis.score, 67)
+  })
+
+  it("accepts either side of an 'or' requirement", () => {
+    const { requirements } = analyzeGaps(
+      "Requirements:\n- Production experience with Go or Python",
+      "Shipped production Python services handling payments"
+    )
+    assert.equal(requirements[0]?.status, "supported")
+  })
+
+  it("scores 0 when the posting lists no requirements", () => {
+    assert.deepEqual(analyzeGaps("We are hiring.", "Built things"), {
+      requirements: [],
+      score: 0,
+    })
+  })
+})
@@ -0,0 +1,79 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import {
+  hashGenerationInput,
+  type GenerationCacheInput,
+} from "@/lib/generation-cache"
+
+const INPUT: GenerationCacheInput = {
+  jobDescription: "Senior Backend Engineer\nPython and PostgreSQL",
+  experience: "Built payment APIs in Python",
+  options: { bulletCount: 5, wordRange: { min: 15, max: 30 } },
+  autoFix: false,
+  redactPii: true,
+  mode: "generate",
+  promptVersion: "v1",
+  model: "gpt-4o-mini",
+}
+
+describe("hashGenerationInput", () => {
+  const key = hashGenerationInput(INPUT)
+
+  it("ignores field order", () => {
+    assert.equal(
+      hashGenerationInput({
+        model: INPUT.model,
+        promptVersion: INPUT.promptVersion,
+        mode: INPUT.mode,
+        redactPii: INPUT.redactPii,
+        autoFix: INPUT.autoFix,
+        options: { wordRange: { max: 30, min: 15 }, bulletCount: 5 },
+        experience: INPUT.experience,
+        jobDescription: INPUT.jobDescription,
+      }),
+      key
+    )
+  })
+
+  it("ignores whitespace-only edits", () => {
+    assert.equal(
+      hashGenerationInput({
+        ...INPUT,
+        jobDescription:
+          "  Senior Backend Engineer\r\n\r\nPython  and PostgreSQL\n",
+        experience: "Built payment APIs in Python   ",
+      }),
+      key
+    )
+  })
+
+  it("treats omitted options as their defaults", () => {
+    assert.equal(
+      hashGenerationInput({
+        ...INPUT,
+        options: { ...INPUT.options, metricPlaceholders: false, variants: 1 },
+      }),
+      key
+    )
+  })
+
+  it("changes with the prompt version, model and options", () => {
+    const variants: Partial<GenerationCacheInput>[] = [
+      { promptVersion: "v2" },
+      { model: "gpt-4.1" },
+      { mode: "rewrite" },
+      { options: { ...INPUT.options, bulletCount: 6 } },
+      { options: { ...INPUT.options, wordRange: { min: 15, max: 31 } } },
+      { options: { ...INPUT.options, seniority: "senior" } },
+      { options: { ...INPUT.options, variants: 2 } },
+      { autoFix: true },
+      { redactPii: false },
+      { experience: "Built payment APIs in Go" },
+    ]
+
+    const keys = variants.map((change) =>
+      hashGenerationInput({ ...INPUT, ...change })
+    )
+    assert.equal(new Set([key, ...keys]).size, variants.length + 1)
+  })
+})
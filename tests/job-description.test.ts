@@ -0,0 +1,66 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { parseJobDescription } from "@/lib/job-description"
+
+describe("parseJobDescription", () => {
+  it("reads the header, sections and requirements of a posting", () => {
+    const posting = parseJobDescription(`Senior Backend Engineer at Acme Corp
+Location: Berlin (Hybrid)
+
+About the role
+You will build payment APIs.
+
+Requirements:
+- 5+ years of experience with Python
+- Strong knowledge of PostgreSQL
+- Experience with Kubernetes
+
+Nice to have:
+- Familiarity with Terraform
+
+Responsibilities:
+- Design scalable APIs for payment processing
+- Mentor junior engineers`)
+
+    assert.deepEqual(posting, {
+      title: "Senior Backend Engineer",
+      company: "Acme Corp",
+      seniority: "senior",
+      location: "Berlin (Hybrid)",
+      workplace: "hybrid",
+      yearsRequired: 5,
+      requiredSkills: ["Python", "PostgreSQL", "Kubernetes"],
+      requirements: [
+        "5+ years of experience with Python",
+        "Strong knowledge of PostgreSQL",
+        "Experience with Kubernetes",
+      ],
+      niceToHaves: ["Familiarity with Terraform"],
+      responsibilities: [
+        "Design scalable APIs for payment processing",
+        "Mentor junior engineers",
+      ],
+    })
+  })
+
+  it("finds the title and details in running text", () => {
+    const posting = parseJobDescription(
+      "We are hiring a Junior Data Analyst. This is a fully remote role. 2+ years of SQL experience required."
+    )
+
+    assert.equal(posting.title, "Junior Data Analyst")
+    assert.equal(posting.seniority, "entry")
+    assert.equal(posting.workplace, "remote")
+    assert.equal(posting.yearsRequired, 2)
+    assert.deepEqual(posting.requiredSkills, ["SQL"])
+  })
+
+  it("reads a title introduced with 'Join our team as'", () => {
+    assert.equal(
+      parseJobDescription(
+        "Join our team as a Product Designer and shape how clinics book appointments."
+      ).title,
+      "Product Designer"
+    )
+  })
+})
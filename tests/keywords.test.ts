@@ -0,0 +1,81 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import {
+  extractKeywords,
+  mentionsKeyword,
+  analyzeCoverage,
+} from "@/lib/keywords"
+import type { JobKeyword } from "@/lib/validation"
+
+const JOB_DESCRIPTION = `Senior Backend Engineer
+Requirements:
+- 5+ years with Python and PostgreSQL
+- Experience with Kubernetes and AWS
+- AWS Certified Solutions Architect preferred
+Responsibilities:
+- Design scalable APIs for payment processing
+- Mentor junior engineers`
+
+describe("extractKeywords", () => {
+  it("groups keywords by category, in order of appearance", () => {
+    const keywords = extractKeywords(JOB_DESCRIPTION)
+    const terms = (category: JobKeyword["category"]) =>
+      keywords.filter((k) => k.category === category).map((k) => k.term)
+
+    assert.deepEqual(terms("certification"), ["AWS Certified"])
+    assert.deepEqual(terms("tool"), [
+      "Python",
+      "PostgreSQL",
+      "Kubernetes",
+      "AWS",
+    ])
+    assert.deepEqual(terms("responsibility"), [
+      "Design scalable APIs for payment processing",
+      "Mentor junior engineers",
+    ])
+  })
+})
+
+describe("mentionsKeyword", () => {
+  it("matches aliases", () => {
+    const keyword: JobKeyword = {
+      term: "Kubernetes",
+      category: "tool",
+      aliases: ["k8s"],
+    }
+    assert.equal(mentionsKeyword(keyword, "Ran k8s clusters"), true)
+    assert.equal(mentionsKeyword(keyword, "Ran Docker hosts"), false)
+  })
+
+  it("matches responsibilities on half of their words", () => {
+    const keyword: JobKeyword = {
+      term: "Mentor junior engineers",
+      category: "responsibility",
+      aliases: [],
+    }
+    assert.equal(mentionsKeyword(keyword, "Mentored two junior devs"), true)
+    assert.equal(mentionsKeyword(keyword, "Hired engineers"), false)
+  })
+})
+
+describe("analyzeCoverage", () => {
+  it("splits keywords by where they appear and scores the bullets", () => {
+    const coverage = analyzeCoverage(
+      extractKeywords(JOB_DESCRIPTION),
+      [{ text: "Built Python services on Kubernetes" }],
+      "Used PostgreSQL daily; mentored two junior engineers"
+    )
+    const terms = (keywords: JobKeyword[]) => keywords.map((k) => k.term)
+
+    assert.deepEqual(terms(coverage.covered), ["Python", "Kubernetes"])
+    assert.deepEqual(terms(coverage.missedInBullets), [
+      "PostgreSQL",
+      "Mentor junior engineers",
+    ])
+    assert.equal(coverage.score, 25)
+  })
+
+  it("scores 0 when there are no keywords", () => {
+    assert.equal(analyzeCoverage([], [{ text: "Anything" }], "").score, 0)
+  })
+})
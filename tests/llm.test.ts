@@ -0,0 +1,120 @@
+import { afterEach, describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { generateCompletion, streamCompletion } from "@/lib/llm"
+import {
+  createProviderError,
+  setProvider,
+  type LLMProvider,
+  type ProviderErrorKind,
+} from "@/lib/providers"
+import { createFakeProvider } from "@/lib/providers/fake"
+
+const MESSAGES = [{ role: "user" as const, content: "Write a bullet" }]
+const RETRY = { retry: { maxAttempts: 2, baseDelayMs: 1, maxDelayMs: 1 } }
+
+/**
+ * Installs a fake provider with a fallback model whose calls fail with
+ * the given errors, in order, before answering normally.
+ *
+ * @returns Models requested by each call
+ */
+function useFailingProvider(failures: ProviderErrorKind[]): string[] {
+  const fake = createFakeProvider({ respond: () => "Shipped the feature" })
+  const models: string[] = []
+  const fail = () => {
+    const kind = failures.shift()
+    if (kind) throw createProviderError("fake", kind, `Simulated ${kind}`)
+  }
+
+  const provider: LLMProvider = {
+    ...fake,
+    fallbackModels: ["fake-backup"],
+    async complete(request) {
+      models.push(request.model)
+      fail()
+      return fake.complete(request)
+    },
+    async *stream(request) {
+      models.push(request.model)
+      fail()
+      yield* fake.stream(request)
+    },
+  }
+  setProvider(provider)
+  return models
+}
+
+afterEach(() => setProvider(null))
+
+describe("generateCompletion", () => {
+  it("retries the same model after a transient error", async () => {
+    const models = useFailingProvider(["unavailable"])
+
+    assert.equal(
+      await generateCompletion(MESSAGES, RETRY),
+      "Shipped the feature"
+    )
+    assert.deepEqual(models, ["fake", "fake"])
+  })
+
+  it("moves to the next model when a request is rejected", async () => {
+    const models = useFailingProvider(["bad_request"])
+
+    assert.equal(
+      await generateCompletion(MESSAGES, RETRY),
+      "Shipped the feature"
+    )
+    assert.deepEqual(models, ["fake", "fake-backup"])
+  })
+
+  it("gives up after every model has used its attempts", async () => {
+    const models = useFailingProvider(Array(4).fill("rate_limit"))
+
+    await assert.rejects(generateCompletion(MESSAGES, RETRY), /Rate limit/)
+    assert.deepEqual(models, ["fake", "fake", "fake-backup", "fake-backup"])
+  })
+
+  it("stops at once on an auth error", async () => {
+    const models = useFailingProvider(["auth"])
+
+    await assert.rejects(
+      generateCompletion(MESSAGES, RETRY),
+      /Invalid fake API key/
+    )
+    assert.deepEqual(models, ["fake"])
+  })
+})
+
+describe("streamCompletion", () => {
+  it("retries before the first delta", async () => {
+    const models = useFailingProvider(["timeout"])
+
+    const deltas: string[] = []
+    for await (const delta of streamCompletion(MESSAGES, RETRY)) {
+      deltas.push(delta)
+    }
+    assert.equal(deltas.join(""), "Shipped the feature")
+    assert.deepEqual(models, ["fake", "fake"])
+  })
+
+  it("doesn't restart a stream that fails after sending output", async () => {
+    const models: string[] = []
+    setProvider({
+      ...createFakeProvider(),
+      async *stream(request) {
+        models.push(request.model)
+        yield { text: "Shipped " }
+        throw createProviderError("fake", "unavailable", "Connection reset")
+      },
+    })
+
+    const deltas: string[] = []
+    await assert.rejects(async () => {
+      for await (const delta of streamCompletion(MESSAGES, RETRY)) {
+        deltas.push(delta)
+      }
+    }, /temporarily unavailable/)
+    assert.deepEqual(deltas, ["Shipped "])
+    assert.deepEqual(models, ["fake"])
+  })
+})
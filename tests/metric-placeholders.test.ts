@@ -0,0 +1,64 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import {
+  splitPlaceholders,
+  countPlaceholders,
+  fillPlaceholders,
+} from "@/lib/metric-placeholders"
+
+const BULLET = "Cut latency by [X%] for [N users], saving [$X] a year"
+
+describe("splitPlaceholders", () => {
+  it("splits text around each placeholder", () => {
+    assert.deepEqual(splitPlaceholders("Cut costs by [X% reduction] in Q3"), [
+      "Cut costs by ",
+      {
+        raw: "[X% reduction]",
+        variable: "X",
+        prefix: "",
+        suffix: "% reduction",
+      },
+      " in Q3",
+    ])
+  })
+
+  it("keeps text before the figure as the prefix", () => {
+    const [, placeholder] = splitPlaceholders("Saved [$X saved]")
+    assert.deepEqual(placeholder, {
+      raw: "[$X saved]",
+      variable: "X",
+      prefix: "$",
+      suffix: " saved",
+    })
+  })
+
+  it("returns plain text unchanged", () => {
+    assert.deepEqual(splitPlaceholders("Cut latency by 40%"), [
+      "Cut latency by 40%",
+    ])
+  })
+})
+
+describe("countPlaceholders", () => {
+  it("counts placeholders, ignoring bracketed words without a figure", () => {
+    assert.equal(countPlaceholders(BULLET), 3)
+    assert.equal(countPlaceholders("Led [Xbox] and [NDA] projects"), 0)
+    assert.equal(countPlaceholders("Made builds [Nx] faster"), 1)
+  })
+})
+
+describe("fillPlaceholders", () => {
+  it("replaces the figure and keeps the surrounding wording", () => {
+    assert.equal(
+      fillPlaceholders(BULLET, ["35", "2,000", "40k"]),
+      "Cut latency by 35% for 2,000 users, saving $40k a year"
+    )
+  })
+
+  it("leaves placeholders without a value as written", () => {
+    assert.equal(
+      fillPlaceholders(BULLET, [" ", "2,000"]),
+      "Cut latency by [X%] for 2,000 users, saving [$X] a year"
+    )
+  })
+})
@@ -0,0 +1,60 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { extractFigures, createMetricVerifier } from "@/lib/metric-verifier"
+
+describe("extractFigures", () => {
+  it("reads kinds and scaled values", () => {
+    const figures = extractFigures(
+      "Saved $40K, cut latency 35%, shipped 3x faster with 12 engineers"
+    )
+
+    assert.deepEqual(
+      figures.map(({ kind, value }) => ({ kind, value })),
+      [
+        { kind: "currency", value: 40_000 },
+        { kind: "percentage", value: 35 },
+        { kind: "multiplier", value: 3 },
+        { kind: "team-size", value: 12 },
+      ]
+    )
+  })
+
+  it("only reads number words as team sizes unless asked to", () => {
+    assert.deepEqual(
+      extractFigures("Led four engineers over three quarters").map(
+        (figure) => figure.raw
+      ),
+      ["four"]
+    )
+    assert.equal(
+      extractFigures("Led four engineers over three quarters", true).length,
+      2
+    )
+  })
+})
+
+describe("createMetricVerifier", () => {
+  const verify = createMetricVerifier(
+    "Led a team of five. Saved 40k a year and cut build times by 30%."
+  )
+
+  it("accepts figures found in the experience", () => {
+    assert.deepEqual(
+      verify("Saved $40K a year by cutting build times 30% with 5 engineers"),
+      []
+    )
+  })
+
+  it("flags figures the experience doesn't contain", () => {
+    assert.deepEqual(verify("Cut build times by 45%, saving $40K and $2M"), [
+      "45%",
+      "$2M",
+    ])
+  })
+
+  it("doesn't let a plain number support a percentage", () => {
+    assert.deepEqual(createMetricVerifier("Ran 30 experiments")("Up 30%"), [
+      "30%",
+    ])
+  })
+})
@@ -0,0 +1,75 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { createRedactor } from "@/lib/pii"
+
+describe("createRedactor", () => {
+  it("replaces each kind of personal detail with a placeholder", () => {
+    const redactor = createRedactor()
+    const resume =
+      "Jane Doe\nEmail jane@example.com or call +1 415 555 0199. Profile: linkedin.com/in/janedoe. Lives at 42 Oak Street, Springfield. Salary: $120k."
+    redactor.scanResume(resume)
+    const redacted = redactor.redact(resume)
+
+    assert.equal(
+      redacted,
+      "[NAME_1]\nEmail [EMAIL_1] or call [PHONE_1]. Profile: [URL_1]. Lives at [ADDRESS_1], Springfield. Salary: [SALARY_1]."
+    )
+    assert.deepEqual(
+      redactor.redactions().map((r) => r.kind),
+      ["name", "email", "url", "phone", "address", "salary"]
+    )
+  })
+
+  it("keeps placeholders stable across texts and restores them", () => {
+    const redactor = createRedactor()
+    redactor.scan("Reach me at jane@example.com")
+
+    const redacted = redactor.redact("Contact jane@example.com again")
+    assert.equal(redacted, "Contact [EMAIL_1] again")
+    assert.equal(redactor.restore(redacted), "Contact jane@example.com again")
+  })
+
+  it("leaves business figures and short numbers alone", () => {
+    const text =
+      "Ran paid search campaigns generating $2M in pipeline. Earned $50k in new ARR. Grew revenue 30% in 2021 across 12 markets"
+    assert.equal(createRedactor().redact(text), text)
+  })
+
+  it("redacts pay with its scale suffix", () => {
+    const redactor = createRedactor()
+    assert.equal(
+      redactor.redact("Base salary of $1.2M, then $45/hr contracting"),
+      "Base salary of [SALARY_1], then [SALARY_2] contracting"
+    )
+    assert.deepEqual(
+      redactor.redactions().map((r) => r.value),
+      ["$1.2M", "$45/hr"]
+    )
+  })
+
+  it("doesn't take a heading for a name", () => {
+    const redactor = createRedactor()
+    redactor.scanResume("Senior Engineer\nBuilt data pipelines")
+    assert.deepEqual(redactor.redactions(), [])
+  })
+
+  it("only looks for a name on the first line of a resume", () => {
+    const redactor = createRedactor()
+    const posting = "Acme Corp\nWe are hiring a backend engineer"
+    redactor.scan(posting)
+    assert.equal(redactor.redact(posting), posting)
+    assert.deepEqual(redactor.redactions(), [])
+  })
+})
+
+describe("createStreamRestorer", () => {
+  it("holds back a placeholder split across chunks", () => {
+    const redactor = createRedactor()
+    redactor.scan("jane@example.com")
+    const restorer = redactor.createStreamRestorer()
+
+    assert.equal(restorer.push("Email [EMA"), "Email ")
+    assert.equal(restorer.push("IL_1] today"), "jane@example.com today")
+    assert.equal(restorer.flush(), "")
+  })
+})
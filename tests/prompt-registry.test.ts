@@ -0,0 +1,40 @@
+import { before, describe, it } from "node:test"
+import assert from "node:assert/strict"
+
+type Registry = typeof import("@/lib/prompt-registry")
+
+let registry: Registry
+
+before(async () => {
+  // The split is read when the module loads
+  process.env.PROMPT_EXPERIMENT =
+    '{"constructor":5,"__proto__":5,"toString":5,"v9":5,"v2":1}'
+  registry = await import("@/lib/prompt-registry")
+})
+
+describe("getPromptTemplate", () => {
+  it("finds registered versions", () => {
+    assert.equal(registry.getPromptTemplate("v1")?.id, "v1")
+    assert.equal(registry.getPromptTemplate("v2")?.id, "v2")
+  })
+
+  it("rejects unknown and prototype keys", () => {
+    for (const id of ["v9", "constructor", "toString", "__proto__"]) {
+      assert.equal(registry.getPromptTemplate(id), null, id)
+    }
+  })
+})
+
+describe("PROMPT_EXPERIMENT", () => {
+  it("keeps only registered versions from the split", () => {
+    assert.deepEqual(registry.PROMPT_EXPERIMENT, [["v2", 1]])
+  })
+})
+
+describe("selectPromptTemplate", () => {
+  it("always returns a registered template", () => {
+    for (const seed of ["127.0.0.1", "ABCD-1234", ""]) {
+      assert.equal(registry.selectPromptTemplate(seed).id, "v2")
+    }
+  })
+})
@@ -0,0 +1,54 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { createBulletStreamParser, parseBulletResponse } from "@/lib/prompts"
+import { createRoleAssigner } from "@/lib/roles"
+
+const line = (n: number, role?: number) =>
+  JSON.stringify({
+    text: `Shipped improvement number ${n} to the checkout service`,
+    verb: "Shipped",
+    hasMetric: false,
+    ...(role && { role }),
+  })
+
+describe("parseBulletResponse", () => {
+  it("stops at the bullet count", () => {
+    const { bullets } = parseBulletResponse(
+      [1, 2, 3, 4].map((n) => line(n)).join("\n"),
+      3
+    )
+    assert.equal(bullets.length, 3)
+  })
+
+  it("fills the bullet count after a role's extra bullets are dropped", () => {
+    // Role 1 gets two bullets and role 2 one; the model wrote three for role 1
+    const response = [line(1, 1), line(2, 1), line(3, 1), line(4, 2)]
+    const { bullets } = parseBulletResponse(
+      response.join("\n"),
+      3,
+      createRoleAssigner([2, 1])
+    )
+
+    assert.deepEqual(
+      bullets.map((b) => [b.role, b.text.match(/\d+/)?.[0]]),
+      [
+        [1, "1"],
+        [1, "2"],
+        [2, "4"],
+      ]
+    )
+  })
+})
+
+describe("createBulletStreamParser", () => {
+  it("counts only accepted bullets toward the cap across chunks", () => {
+    const parser = createBulletStreamParser(2, createRoleAssigner([1, 1]))
+
+    assert.equal(parser.push(`${line(1, 1)}\n${line(2, 1)}\n`).length, 1)
+    assert.deepEqual(
+      parser.push(`${line(3, 2)}\n${line(4, 2)}`).map((b) => b.role),
+      [2]
+    )
+    assert.deepEqual(parser.flush(), [])
+  })
+})